@@ -0,0 +1,335 @@
+// app/(app)/batch/page.tsx
+
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { ExternalLink, Mail, Upload } from "lucide-react";
+import { useSubtitle } from "../AppLayoutClientWrapper";
+import type { Tier } from "@/app/orchestrator/analyzeJob";
+import type { BatchRow, BatchSkipped } from "@/app/orchestrator/analyzeBatch";
+import { describeRedFlag } from "@/app/scoring/redFlags";
+import type { EmailIngestResult } from "@/app/orchestrator/ingestEmail";
+
+type BatchResponse = {
+  success: boolean;
+  results?: BatchRow[];
+  skipped?: BatchSkipped[];
+  charged?: number;
+  refunded?: number;
+  error?: string;
+  code?: string;
+};
+
+type EmailIngestResponse = Partial<EmailIngestResult> & {
+  success: boolean;
+  error?: string;
+  code?: string;
+};
+
+const getTierColor = (tier: Tier) => {
+  switch (tier) {
+    case "Low":
+      return "text-green-700 bg-green-100 border-green-200";
+    case "Medium":
+      return "text-amber-700 bg-amber-100 border-amber-200";
+    case "High":
+      return "text-red-700 bg-red-100 border-red-200";
+  }
+};
+
+export default function BatchAnalysisPage() {
+  const setHeaderSubtitle = useSubtitle();
+
+  const [urlText, setUrlText] = useState("");
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [response, setResponse] = useState<BatchResponse | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [emailImport, setEmailImport] = useState<EmailIngestResponse | null>(null);
+
+  useEffect(() => {
+    setHeaderSubtitle("Analyze many postings at once");
+    return () => setHeaderSubtitle(null);
+  }, [setHeaderSubtitle]);
+
+  const canSubmit = (urlText.trim().length > 0 || csvFile !== null) && !isAnalyzing;
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    setResponse(null);
+
+    try {
+      const form = new FormData();
+      form.append("urls", urlText);
+      if (csvFile) form.append("file", csvFile);
+
+      const res = await fetch("/api/batch", { method: "POST", body: form });
+      const data = (await res.json()) as BatchResponse;
+
+      if (!res.ok || !data.success) {
+        toast.error(data.error || "Batch analysis failed. Please try again.");
+        return;
+      }
+
+      setResponse(data);
+      const failed = data.results?.filter(r => r.status === "failed").length ?? 0;
+      toast.success(`Analyzed ${data.results?.length ?? 0} jobs${failed ? ` (${failed} failed and were refunded)` : ""}.`);
+      if (data.skipped?.length) {
+        const outOfTime = data.skipped.some(item => item.code === "TIME_LIMIT");
+        toast.warning(`${data.skipped.length} jobs were skipped (${outOfTime ? "out of time" : "not enough tokens left"}) and not charged.`);
+      }
+    } catch (err) {
+      console.error("[BatchAnalysis] Network error:", err);
+      toast.error("Network error. Please try again.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Job-alert emails: links are queued (not analyzed here), results land in My Jobs
+  const handleEmailUpload = async (file: File) => {
+    setIsImporting(true);
+    setEmailImport(null);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/ingest-email", { method: "POST", body: form });
+      const data = (await res.json()) as EmailIngestResponse;
+
+      if (!res.ok || !data.success) {
+        toast.error(
+          data.code === "OUT_OF_TOKENS"
+            ? "You're out of checks for now. See your usage on the profile page."
+            : data.error || "Couldn't read this email. Please try again."
+        );
+        return;
+      }
+
+      setEmailImport(data);
+      toast.success(`Queued ${data.queuedCount ?? 0} jobs from "${data.subject || file.name}".`);
+      const unpaid = data.jobs?.filter(job => job.code === "OUT_OF_TOKENS").length ?? 0;
+      if (unpaid > 0) toast.warning(`${unpaid} jobs weren't queued: no tokens left.`);
+    } catch (err) {
+      console.error("[BatchAnalysis] Email import error:", err);
+      toast.error("Network error. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClear = () => {
+    setUrlText("");
+    setCsvFile(null);
+    setResponse(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  return (
+    <div className="max-w-screen-xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 mb-2">Batch Analysis</h2>
+        <p className="text-gray-600">
+          Paste up to 50 job URLs (one per line), upload a CSV, or import a job-alert email. Duplicate
+          links to the same job are analyzed once, and each analyzed job uses one token.
+        </p>
+      </div>
+
+      {/* Input Card */}
+      <div className="bg-white rounded-2xl shadow-sm border border-orange-100 p-6 mb-8">
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="batch-urls" className="block text-sm font-medium text-gray-700 mb-2">
+              Job URLs
+            </label>
+            <textarea
+              id="batch-urls"
+              value={urlText}
+              onChange={(e) => setUrlText(e.target.value)}
+              placeholder={"https://boards.greenhouse.io/acme/jobs/123456\nhttps://jobs.lever.co/acme/abc-123"}
+              rows={8}
+              className="w-full px-4 py-3 border border-gray-300 text-black rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 resize-vertical font-mono text-sm"
+              data-testid="batch-urls"
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-50">
+              <Upload className="w-4 h-4" />
+              {csvFile ? csvFile.name : "Upload CSV"}
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+                data-testid="batch-csv"
+              />
+            </label>
+            <p className="text-xs text-gray-500">Any column containing job links works; other columns are ignored.</p>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleAnalyze}
+              disabled={!canSubmit}
+              className="px-8 py-3 bg-orange-600 hover:bg-orange-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              data-testid="batch-analyze-btn"
+            >
+              {isAnalyzing && (
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              )}
+              {isAnalyzing ? "Analyzing..." : "Analyze All"}
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={isAnalyzing}
+              className="px-4 py-3 bg-gray-200 text-gray-700 font-medium rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Job-alert email import */}
+      <div className="bg-white rounded-2xl shadow-sm border border-orange-100 p-6 mb-8">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-50">
+            {isImporting ? (
+              <div className="w-4 h-4 border-2 border-orange-500 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Mail className="w-4 h-4" />
+            )}
+            {isImporting ? "Reading email..." : "Import job-alert email (.eml)"}
+            <input
+              type="file"
+              accept=".eml,message/rfc822"
+              className="hidden"
+              disabled={isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) handleEmailUpload(file);
+              }}
+              data-testid="batch-eml"
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            Direct job links are queued and show up in My Jobs when done. LinkedIn and Indeed
+            listings are listed here instead: open them and use the employer&apos;s Apply link.
+          </p>
+        </div>
+
+        {emailImport?.jobs && (
+          <ul className="mt-4 divide-y divide-gray-100 text-sm" data-testid="email-import-results">
+            {emailImport.jobs.map((job) => (
+              <li key={job.link} className="py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                <a
+                  href={job.url ?? job.link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-orange-700 hover:underline break-all"
+                >
+                  {job.url ?? job.link}
+                  <ExternalLink className="w-3 h-3 shrink-0" />
+                </a>
+                <span className={job.queued ? "text-green-700" : "text-gray-500"}>
+                  {job.queued ? (job.reason ? `Queued: ${job.reason}` : "Queued") : job.reason ?? "Not queued"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Results */}
+      {response?.results && (
+        <div className="bg-white rounded-2xl shadow-sm border border-orange-100 p-6" data-testid="batch-results">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-semibold text-gray-900">Results</h3>
+            <span className="text-sm text-gray-500">
+              {response.charged ?? 0} tokens used{response.refunded ? `, ${response.refunded} refunded` : ""}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Job</th>
+                  <th className="py-2 pr-4 font-medium">Score</th>
+                  <th className="py-2 pr-4 font-medium">Risk</th>
+                  <th className="py-2 font-medium">Red Flags</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {response.results.map((row) => (
+                  <tr key={row.jobKey} className="align-top">
+                    <td className="py-3 pr-4 max-w-xs">
+                      <a
+                        href={row.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-orange-700 hover:underline break-all"
+                      >
+                        {row.url}
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                      </a>
+                      {row.duplicates.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          +{row.duplicates.length} duplicate link{row.duplicates.length > 1 ? "s" : ""}
+                        </p>
+                      )}
+                    </td>
+                    {row.status === "ok" ? (
+                      <>
+                        <td className="py-3 pr-4 font-semibold text-gray-900">{Math.round(row.score * 100)}</td>
+                        <td className="py-3 pr-4">
+                          <span className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${getTierColor(row.tier)}`}>
+                            {row.tier} Risk
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          {row.redFlags.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {row.redFlags.map((flag) => (
+                                <span
+                                  key={flag}
+                                  className="inline-flex px-2 py-0.5 bg-red-100 text-red-800 text-xs rounded-full border border-red-200"
+                                >
+                                  {describeRedFlag(flag)}
+                                </span>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-gray-500">None</span>
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="py-3 text-red-700">
+                        {row.error}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+
+                {response.skipped?.map((item) => (
+                  <tr key={item.jobKey} className="align-top text-gray-500">
+                    <td className="py-3 pr-4 max-w-xs break-all">{item.url}</td>
+                    <td colSpan={3} className="py-3">
+                      {item.code === "TIME_LIMIT" ? "Skipped: out of time, submit it again" : "Skipped: not enough tokens"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import React, { useState, useEffect } from "react";
 import { toast } from "react-toastify";
 import { Briefcase, DollarSign, MapPin, Calendar, Trash2, ExternalLink, Filter, Menu, X, Home, BarChart3, Settings, HelpCircle, User } from "lucide-react";
 import { useSubtitle } from "../AppLayoutClientWrapper";
+import { describeJobLifetime, type dbJobLifecycle } from "@/app/db/jobLifecycle";
 
 
 type JobFeatures = {
@@ -17,7 +18,7 @@ type JobFeatures = {
   department: string | null;
 };
 
-type Job = {
+type Job = dbJobLifecycle & {
   id: string;
   title: string;
   company_name: string;
@@ -34,7 +35,17 @@ type SavedJob = {
   jobs: Job;
 };
 
-type FilterType = "all" | "greenhouse" | "web";
+type FilterType = "all" | "greenhouse" | "lever" | "ashby" | "workday" | "smartrecruiters" | "icims" | "web";
+
+// Display labels for the ATS sources we persist
+const ATS_LABELS: Record<string, string> = {
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+  ashby: "Ashby",
+  workday: "Workday",
+  smartrecruiters: "SmartRecruiters",
+  icims: "iCIMS",
+};
 
 export default function MyJobsPage() {
   const router = useRouter();
@@ -216,6 +227,11 @@ const confirmDelete = async () => {
               >
                 <option value="all">All Sources</option>
                 <option value="greenhouse">Greenhouse</option>
+                <option value="lever">Lever</option>
+                <option value="ashby">Ashby</option>
+                <option value="workday">Workday</option>
+                <option value="smartrecruiters">SmartRecruiters</option>
+                <option value="icims">iCIMS</option>
                 <option value="web">Web Scraped (Coming soon)</option>
               </select>
 
@@ -277,8 +293,8 @@ const confirmDelete = async () => {
                               <p className="text-gray-600 font-medium">{job.company_name}</p>
                             </div>
                             
-                            <span className={`px-2.5 py-1 text-xs font-medium rounded-full ${job.ats === 'greenhouse' ? 'bg-green-100 text-green-700 border border-green-200' : 'bg-blue-100 text-blue-700 border border-blue-200'}`}>
-                              {job.ats === 'greenhouse' ? 'Greenhouse' : 'Web'}
+                            <span className={`px-2.5 py-1 text-xs font-medium rounded-full ${ATS_LABELS[job.ats] ? 'bg-green-100 text-green-700 border border-green-200' : 'bg-blue-100 text-blue-700 border border-blue-200'}`}>
+                              {ATS_LABELS[job.ats] ?? 'Web'}
                             </span>
                           </div>
 
@@ -314,6 +330,22 @@ const confirmDelete = async () => {
                             </div>
                             <span>•</span>
                             <span>Updated {formatDate(job.updated_at)}</span>
+                            {describeJobLifetime(job) && (
+                              <>
+                                <span>•</span>
+                                <span className={job.is_active === false ? 'text-red-600 font-medium' : undefined}>
+                                  {describeJobLifetime(job)}
+                                </span>
+                              </>
+                            )}
+                            {!!job.reopen_count && (
+                              <>
+                                <span>•</span>
+                                <span className="text-amber-700 font-medium">
+                                  Reposted {job.reopen_count}×
+                                </span>
+                              </>
+                            )}
                           </div>
                         </div>
 
@@ -4,10 +4,13 @@
 import React, { useState, useEffect } from "react";
 import { toast } from "react-toastify";
 import { type Tier, type RiskResult } from "@/app/orchestrator/analyzeJob";
-import { saveJobCheck } from '@/app/api/data-ingestion/save-job';
+import { enqueueJobCheck } from '@/app/api/data-ingestion/save-job';
 import { useRouter } from "next/navigation";
-import { Briefcase, BookmarkPlus, Menu, X, Home } from "lucide-react";
+import { Briefcase, BookmarkPlus, Menu, X, Home, CheckCircle2, Circle, FileUp } from "lucide-react";
 import { useSubtitle } from "./AppLayoutClientWrapper";
+import { describeJobLifetime, type dbJobLifecycle } from "@/app/db/jobLifecycle";
+import { describeRedFlag } from "@/app/scoring/redFlags";
+import { ANALYSIS_STAGES, formatProgressEvent, type AnalysisProgressEvent } from "@/app/orchestrator/progress";
 
 
 const SAMPLE_JOB = `We're looking for a rockstar developer to join our dynamic team! This is a fast-paced environment where you'll wear many hats and be a self-starter.
@@ -52,6 +55,43 @@ To apply, please submit your resume and cover letter. We review applications on
 
 Equal Opportunity Employer`;
 
+// Hosts the server fetches through a dedicated ATS adapter
+const SUPPORTED_ATS_HOSTS = [
+  "greenhouse.io",
+  "lever.co",
+  "ashbyhq.com",
+  "myworkdayjobs.com",
+  "smartrecruiters.com",
+  "icims.com",
+];
+
+// Queue polling: how often, and how long before we stop waiting in the UI
+const POLL_INTERVAL_MS = 1500;
+const POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+type JobCheckResult = {
+  jobId?: string;
+  score?: RiskResult;
+  lifecycle?: dbJobLifecycle;
+};
+
+type QueuedJobStatus = {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "dead";
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  progress?: AnalysisProgressEvent[];
+  result: JobCheckResult | null;
+};
+
+type TextCheckResponse = {
+  success?: boolean;
+  score?: RiskResult;
+  error?: string;
+  code?: string;
+};
+
 type UserInfo = {
   fullName: string | null;
   email: string | null;
@@ -61,13 +101,17 @@ type UserInfo = {
 export default function GhostJobChecker() {
   const [jobUrl, setJobUrl] = useState("");
   const [jobDescription, setJobDescription] = useState("");
+  const [pageHtml, setPageHtml] = useState(""); // optional page source for aggregator links
+  const [inputMode, setInputMode] = useState<"url" | "text">("url"); // text = pasted posting with no link
   const [result, setResult] = useState<RiskResult | null>(null);
+  const [lifecycle, setLifecycle] = useState<dbJobLifecycle | null>(null);
   const [displayScore, setDisplayScore] = useState(0);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [fetchError, setFetchError] = useState("");
   const [lastJobId, setLastJobId] = useState<string | null>(null); 
+  const [progress, setProgress] = useState<AnalysisProgressEvent[]>([]); // stage events of the running analysis
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null); 
 
   const router = useRouter() 
@@ -88,17 +132,19 @@ export default function GhostJobChecker() {
     }
   };
 
-  const isGreenhouseUrl = (url: string) => {
+  const isSupportedAtsUrl = (url: string) => {
     try {
       const urlObj = new URL(url);
-      return urlObj.hostname.includes("greenhouse.io");
+      return SUPPORTED_ATS_HOSTS.some(h => urlObj.hostname.includes(h));
     } catch {
       return false;
     }
   };
 
   // VALIDATION: Only require jobUrl to be valid now, as the server handles content fetching. {/* NEW */}
-  const isFormValid = Boolean(jobUrl.trim()) && isValidUrl(jobUrl);
+  const isFormValid = inputMode === "text"
+    ? Boolean(jobDescription.trim()) // the server explains if it's too short to be a posting
+    : Boolean(jobUrl.trim()) && isValidUrl(jobUrl);
   useEffect(() => {
     const fetchUser = async () => {
       try {
@@ -157,6 +203,8 @@ export default function GhostJobChecker() {
 
   //  (Analyze Job Posting button handler)
   const handleAnalyze = async () => {
+    if (inputMode === "text") return handleAnalyzeText();
+
     if (!jobUrl.trim() || !isValidUrl(jobUrl)) { // url validation 
       toast.error("Please enter a valid Job URL");
       return;
@@ -167,52 +215,188 @@ export default function GhostJobChecker() {
     setIsSaving(true);
     setFetchError("");
     setLastJobId(null);             // clear previous job
+    setProgress([]);
  
 
-    if (!isGreenhouseUrl(jobUrl)) {
+    if (!isSupportedAtsUrl(jobUrl)) {
       toast.warning(
         "Heads up: Server will now attempt to fetch content from this URL."
       );
     }
 
-    // The server will handle: Fetching content, Authentication, and DB Insertion.
-    const saveResult = await saveJobCheck(jobUrl); 
+    // The server queues the analysis (fetching, NLP, DB insertion); we poll for the result.
+    const queued = await enqueueJobCheck(jobUrl, pageHtml.trim() || undefined);
+
+    if (!queued.success || !queued.queueId) {
+        setIsSaving(false);
+        setIsAnalyzing(false);
+        console.error("Error queueing job:", queued.error);
+
+        // Handle specific auth error, prompting the user to log in
+        if (queued.error && queued.error.includes("Authentication required")) {
+             toast.error("Please log in to save and track your job checks.");
+        } else if (queued.code === "OUT_OF_TOKENS") {
+             toast.error("You're out of checks for now. See your usage on the profile page.");
+        } else {
+             toast.error(queued.error || "Unable to process this job posting. Please try again later.");
+        }
+        return;
+    }
+    if (queued.resolved) toast.info(queued.resolved.message);
+
+    const finalStatus = await streamJobCheck(queued.queueId);
     
     setIsSaving(false);
     setIsAnalyzing(false);
 
     // 4. Client-side result handling
-    if (saveResult.success) {        
+    if (finalStatus?.status === "succeeded" && finalStatus.result) {
+        const saveResult = finalStatus.result;
         console.log("Job successfully saved to database."); 
         toast.success("Job successfully saved to your history.");
 
         // store job ID for Save job button
-        //added 
         if (saveResult.jobId) {
           setLastJobId(saveResult.jobId);
         } else {
           console.warn("[GhostJobChecker] saveResult has no jobId");
         }
 
-        
         // Display the score if available
+        setLifecycle(saveResult.lifecycle ?? null);
         if (saveResult.score) {
           setResult(saveResult.score);
           toast.info(`Score: ${(saveResult.score.score * 100).toFixed(0)}/100`);
         }
-        
+    } else if (finalStatus?.status === "dead") {
+        console.error("Error analyzing job:", finalStatus.last_error);
+        toast.error(finalStatus.last_error || "Unable to process this job posting. Please try again later.");
     } else {
-        console.error("Error saving job:", saveResult.error);
-        
-        // Handle specific auth error, prompting the user to log in
-        if (saveResult.error && saveResult.error.includes("Authentication required")) {
-             toast.error("Please log in to save and track your job checks.");
-             // Optional: router.push("/auth/login");
+        // Still queued/retrying (or polling failed): the worker keeps going without us
+        toast.info("This job is taking longer than usual. We'll keep trying in the background - check back shortly.");
+    }
+  };
+
+  // Pasted text and uploaded files have no URL to queue or store, so they're scored in
+  // a single request
+  const handleAnalyzeText = () =>
+    runTextCheck(() => fetch("/api/analyze-text", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: jobDescription }),
+    }));
+
+  const handleAnalyzeDocument = (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    return runTextCheck(() => fetch("/api/analyze-document", { method: "POST", body: form }));
+  };
+
+  const runTextCheck = async (send: () => Promise<Response>) => {
+    setIsAnalyzing(true);
+    setFetchError("");
+    setLastJobId(null);
+    setLifecycle(null);
+    setProgress([]);
+
+    try {
+      const res = await send();
+      const data = await res.json() as TextCheckResponse;
+
+      if (!res.ok || !data.success || !data.score) {
+        if (data.code === "UNAUTHORIZED") {
+          toast.error("Please log in to check job postings.");
+        } else if (data.code === "OUT_OF_TOKENS") {
+          toast.error("You're out of checks for now. See your usage on the profile page.");
+        } else {
+          toast.error(data.error || "Unable to analyze this posting. Please try again later.");
+        }
+        return;
+      }
+
+      setResult(data.score);
+      toast.info(`Score: ${(data.score.score * 100).toFixed(0)}/100`);
+    } catch (err) {
+      console.error("[runTextCheck] error:", err);
+      toast.error("Network error while analyzing the posting");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Follow the queued analysis over Server-Sent Events, showing each stage as it
+  // finishes. Falls back to polling if the stream can't be opened or drops.
+  const streamJobCheck = (queueId: string): Promise<QueuedJobStatus | null> =>
+    new Promise(resolve => {
+      const source = new EventSource(`/api/ingestion-jobs/${queueId}/events`);
+      let warnedRetry = false;
+      let settled = false;
+
+      const finish = (status: QueuedJobStatus | null, fallBackToPolling = false) => {
+        if (settled) return;
+        settled = true;
+        source.close(); // otherwise EventSource reconnects once the server ends the stream
+        if (fallBackToPolling) {
+          pollJobCheck(queueId).then(resolve);
         } else {
-             // Handle generic server or fetching failure - show user-friendly message
-             toast.error(saveResult.error || "Unable to process this job posting. Please try again later.");
+          resolve(status);
         }
+      };
+      const dataOf = <T,>(e: Event) => JSON.parse((e as MessageEvent<string>).data) as T;
+
+      source.addEventListener("progress", e => {
+        const event = dataOf<AnalysisProgressEvent>(e);
+        setProgress(prev => [...prev, event]);
+      });
+      source.addEventListener("reset", () => setProgress([]));
+      source.addEventListener("status", e => {
+        const status = dataOf<QueuedJobStatus>(e);
+        // A failed attempt that will be retried: let the user know once
+        if (status.status === "queued" && status.last_error && !warnedRetry) {
+          warnedRetry = true;
+          toast.warning(`Hit a snag (${status.last_error}). Retrying automatically...`);
+        }
+      });
+      source.addEventListener("done", e => finish(dataOf<QueuedJobStatus>(e)));
+      source.addEventListener("timeout", () => finish(null));
+      source.onerror = () => {
+        console.warn("[GhostJobChecker] Progress stream failed, falling back to polling");
+        finish(null, true);
+      };
+    });
+
+  // Poll the queued analysis until it finishes, is dead-lettered, or we time out.
+  const pollJobCheck = async (queueId: string): Promise<QueuedJobStatus | null> => {
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    let lastStatus: QueuedJobStatus | null = null;
+    let warnedRetry = false;
+
+    while (Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+
+      try {
+        const res = await fetch(`/api/ingestion-jobs/${queueId}`, { cache: "no-store" });
+        const data = await res.json() as { success: boolean; job?: QueuedJobStatus; error?: string };
+
+        if (!res.ok || !data.success || !data.job) {
+          console.error("[GhostJobChecker] Failed to poll job status:", data.error || res.statusText);
+          continue;
+        }
+
+        lastStatus = data.job;
+        if (lastStatus.status === "succeeded" || lastStatus.status === "dead") return lastStatus;
+
+        // A failed attempt that will be retried: let the user know once
+        if (lastStatus.status === "queued" && lastStatus.last_error && !warnedRetry) {
+          warnedRetry = true;
+          toast.warning(`Hit a snag (${lastStatus.last_error}). Retrying automatically...`);
+        }
+      } catch (err) {
+        console.error("[GhostJobChecker] Network error polling job status:", err);
+      }
     }
+
+    return lastStatus;
   };
 
   const handleSave = async () => { // added 
@@ -282,6 +466,9 @@ export default function GhostJobChecker() {
     return "#dc2626"; // red for high risk
   };
 
+  // First stage without an event yet is the one in flight
+  const activeStage = ANALYSIS_STAGES.find(({ stage }) => !progress.some(e => e.stage === stage))?.stage;
+
     const buttonText = isAnalyzing
     ? "Analyzing..."
     : isSaving
@@ -343,7 +530,27 @@ export default function GhostJobChecker() {
           {/* Input Card */}
           <div className="bg-white rounded-2xl shadow-sm border border-orange-100 p-6 mb-8">
             <div className="space-y-6">
-              {/* URL Input */}
+              {/* Input mode */}
+              <div className="inline-flex rounded-lg border border-gray-300 p-1 text-sm" role="tablist">
+                {([["url", "Job URL"], ["text", "Paste text"]] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    role="tab"
+                    aria-selected={inputMode === mode}
+                    onClick={() => setInputMode(mode)}
+                    className={`px-4 py-1.5 rounded-md font-medium transition-colors ${
+                      inputMode === mode ? "bg-orange-600 text-white" : "text-gray-700 hover:bg-orange-50"
+                    }`}
+                    data-testid={`mode-${mode}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {inputMode === "url" ? (
+              /* URL Input */
               <div>
                 <label
                   htmlFor="job-url"
@@ -363,12 +570,29 @@ export default function GhostJobChecker() {
                   />
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  Required: Valid job posting URL (Greenhouse URLs supported for
-                  fetching)
+                  Required: Valid job posting URL (Greenhouse, Lever, Ashby,
+                  Workday, SmartRecruiters and iCIMS URLs supported for fetching)
                 </p>
+                <details className="mt-3">
+                  <summary className="text-sm font-medium text-orange-700 hover:text-orange-800 cursor-pointer">
+                    Page source (optional, for LinkedIn / Indeed / Glassdoor links)
+                  </summary>
+                  <textarea
+                    value={pageHtml}
+                    onChange={(e) => setPageHtml(e.target.value)}
+                    placeholder="View the listing's page source and paste it here..."
+                    rows={4}
+                    className="w-full mt-2 px-4 py-3 border border-gray-300 text-black rounded-lg font-mono text-xs focus:ring-2 focus:ring-orange-500 focus:border-orange-500 resize-vertical"
+                    data-testid="page-html-textarea"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    We don&apos;t fetch aggregator pages. The company and job title are read from the
+                    link (and this source, if given) to find the same job on the employer&apos;s own board.
+                  </p>
+                </details>
               </div>
-
-              {/* Job Description
+              ) : (
+              /* Job Description */
               <div>
                 <label
                   htmlFor="job-description"
@@ -387,10 +611,27 @@ export default function GhostJobChecker() {
                 />
                 <p className="text-xs text-gray-500 mt-1">
                   Required: Include all details - requirements, benefits,
-                  application process, etc.
+                  application process, etc. Without a link, link checks and
+                  posting age count as neutral and the check isn&apos;t saved.
                 </p>
+                <label className="inline-flex items-center gap-2 mt-3 text-sm font-medium text-orange-700 hover:text-orange-800 cursor-pointer">
+                  <FileUp className="w-4 h-4" />
+                  Or upload a PDF / Word file
+                  <input
+                    type="file"
+                    accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                    className="hidden"
+                    disabled={isAnalyzing}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = ""; // allow picking the same file again
+                      if (file) handleAnalyzeDocument(file);
+                    }}
+                    data-testid="document-input"
+                  />
+                </label>
               </div>
-              */}
+              )}
 
               {/* Error Message */}
               {fetchError && (
@@ -417,6 +658,34 @@ export default function GhostJobChecker() {
             </div>
           </div>
 
+          {/* Progress */}
+          {isAnalyzing && inputMode === "url" && (
+            <div className="bg-white rounded-2xl shadow-sm border border-orange-100 p-6 mb-8" data-testid="analysis-progress">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Analyzing...</h3>
+              <ol className="space-y-3">
+                {ANALYSIS_STAGES.map(({ stage, label }) => {
+                  const event = progress.filter(e => e.stage === stage).pop();
+                  const isActive = !event && stage === activeStage;
+                  return (
+                    <li key={stage} className="flex items-start gap-3 text-sm">
+                      {event ? (
+                        <CheckCircle2 className="w-5 h-5 text-green-600 shrink-0" />
+                      ) : isActive ? (
+                        <div className="w-5 h-5 border-2 border-orange-500 border-t-transparent rounded-full animate-spin shrink-0" />
+                      ) : (
+                        <Circle className="w-5 h-5 text-gray-300 shrink-0" />
+                      )}
+                      <div>
+                        <p className={event || isActive ? "font-medium text-gray-900" : "text-gray-400"}>{label}</p>
+                        {event && <p className="text-gray-500">{formatProgressEvent(event)}</p>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+
           {/* Results */}
           {result && (
             <div
@@ -459,6 +728,17 @@ export default function GhostJobChecker() {
                       {result.tier} Risk
                     </span>
                   </div>
+
+                  {lifecycle && describeJobLifetime(lifecycle) && (
+                    <p className="mt-3 text-sm text-gray-600" data-testid="job-lifetime">
+                      {describeJobLifetime(lifecycle)}
+                      {!!lifecycle.reopen_count && (
+                        <span className="text-amber-700 font-medium">
+                          {" "}· reposted {lifecycle.reopen_count}×
+                        </span>
+                      )}
+                    </p>
+                  )}
                 </div>
 
                 {/* Details */}
@@ -471,21 +751,7 @@ export default function GhostJobChecker() {
                     {result.redFlags.length > 0 ? (
                       <div className="flex flex-wrap gap-2">
                         {result.redFlags.map((flag, index) => {
-                          // Map technical flag IDs to user-friendly messages
-                          const messageMap: Record<string, string> = {
-                            salary_min_present: "No minimum salary disclosed",
-                            salary_disclosure: "Incomplete salary disclosure",
-                            freshness: "Stale job posting",
-                            link_integrity: "Unreliable job link",
-                            buzzword_penalty: "Vague job description",
-                            skills_present: "Vague skill requirements",
-                            skills_detected: "Few specific skills mentioned", // legacy key
-                            source_credibility: "Low employer credibility",
-                            update_cadence: "Predictable refresh rate",
-                          };
-                          
-                          // Use mapped message or default to original flag with better formatting
-                          const displayText = messageMap[flag] || flag.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
+                          const displayText = describeRedFlag(flag);
                           
                           return (
                             <span
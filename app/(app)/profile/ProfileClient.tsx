@@ -8,6 +8,7 @@ import { Camera, Save, User } from "lucide-react";
 import { ProfileField } from "../../components/ui/ProfileField";
 import { toast } from "react-toastify";
 import { useSubtitle } from "../AppLayoutClientWrapper";
+import { USAGE_REASON_LABELS, type UsageSummary } from "@/app/db/usage";
 
 type Profile = {
   id: string;
@@ -20,7 +21,7 @@ type Profile = {
 };
 
 // For exisitng profile state 
-export default function ProfileClient({ initialProfile }: { initialProfile: Profile }) {
+export default function ProfileClient({ initialProfile, usage }: { initialProfile: Profile; usage: UsageSummary | null }) {
   const [isEditing, setIsEditing] = useState(false); // view vs edit mode 
   const [isSaving, setIsSaving] = useState(false); // save button 
   const [uploadingPhoto, setUploadingPhoto] = useState(false); // track profile picture upload 
@@ -240,6 +241,52 @@ export default function ProfileClient({ initialProfile }: { initialProfile: Prof
           </div>
         </div>
 
+        {/* Usage */}
+        {usage && (
+          <div className="bg-white rounded-xl shadow-sm border border-orange-100 p-6 mb-6" data-testid="usage-panel">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Usage</h3>
+
+            <div className="space-y-3 text-sm mb-4">
+              <div className="flex items-center justify-between py-2 border-b border-gray-100">
+                <span className="text-gray-600">Analyses remaining</span>
+                <span className="font-medium text-gray-900">
+                  {usage.tokens_remaining} / {usage.quota} per {usage.period}
+                </span>
+              </div>
+              <div className="flex items-center justify-between py-2 border-b border-gray-100">
+                <span className="text-gray-600">Plan</span>
+                <span className="font-medium text-gray-900 capitalize">{usage.plan}</span>
+              </div>
+              <div className="flex items-center justify-between py-2">
+                <span className="text-gray-600">Next refill</span>
+                <span className="font-medium text-gray-900">{new Date(usage.next_refill_at).toLocaleString()}</span>
+              </div>
+            </div>
+
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">History</h4>
+            {usage.history.length === 0 ? (
+              <p className="text-sm text-gray-500">No usage yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {usage.history.map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between py-2 gap-4">
+                    <div className="min-w-0">
+                      <p className="text-gray-900">{USAGE_REASON_LABELS[entry.reason] ?? entry.reason}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {new Date(entry.created_at).toLocaleString()}
+                        {entry.job_url ? ` · ${entry.job_url}` : ""}
+                      </p>
+                    </div>
+                    <span className={`font-mono ${entry.delta < 0 ? "text-red-600" : "text-green-600"}`}>
+                      {entry.delta > 0 ? `+${entry.delta}` : entry.delta}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Account Info */}
         <div className="bg-white rounded-xl shadow-sm border border-orange-100 p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Account Information</h3>
@@ -1,7 +1,7 @@
 // app/(app)/profile/page.tsx
 //Server component 
 
-import { getMyProfileSettings } from "@/utils/supabase/action";
+import { getMyProfileSettings, getUsageForCurrentUser } from "@/utils/supabase/action";
 import { redirect } from 'next/navigation';
 import ProfileClient from './ProfileClient'; 
 
@@ -17,6 +17,9 @@ export default async function ProfilePage() {
         return <div>Error loading profile data: {res.error}</div>;
     }
 
+    // Usage is optional: the profile still renders if it can't be loaded
+    const usage = await getUsageForCurrentUser();
+
     // Pass the successfully fetched profile data to the client component
-    return <ProfileClient initialProfile={res.profile} />;
+    return <ProfileClient initialProfile={res.profile} usage={usage.success ? usage.usage : null} />;
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { safe } from "@/lib/safe";
+import { getUser } from "@/utils/supabase/action";
+import { withChargedRequest } from "@/app/api/chargedRequest";
+import { analyzeJobText } from "@/app/orchestrator/analyzeJobText";
+import { ANALYSIS_ERROR_STATUS, toAnalysisError } from "@/app/orchestrator/errors";
+import { extractDocumentText, MAX_DOCUMENT_BYTES } from "@/app/api/data-ingestion/documents";
+
+export const runtime = "nodejs";
+
+// Multipart boundaries and part headers on top of the file itself
+const MAX_FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// Score a posting uploaded as a PDF or DOCX (form field `file`). Text is extracted
+// locally, then analyzed like pasted text. Costs one token, like /api/get_score.
+export async function POST(req: Request) {
+  try {
+    // get user
+    const user = await getUser();
+    if ("error" in user || !user?.id)
+      return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+
+    // refuse oversized uploads before buffering them (form overhead aside, the body is the file)
+    const tooLarge = NextResponse.json(
+      { error: `Files up to ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB are supported.`, code: "UNSUPPORTED_DOCUMENT" },
+      { status: 413 }
+    );
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_DOCUMENT_BYTES + MAX_FORM_OVERHEAD_BYTES) return tooLarge;
+
+    const form = await safe(() => req.formData());
+    const file = form.success ? form.data.get("file") : null;
+    if (!file || typeof file === "string")
+      return NextResponse.json(
+        { error: "Body must be a form with a PDF or DOCX `file`", code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+    if (file.size > MAX_DOCUMENT_BYTES) return tooLarge;
+
+    // extract before touching locks/tokens: unreadable files cost nothing
+    let extracted;
+    try {
+      extracted = extractDocumentText(Buffer.from(await file.arrayBuffer()));
+    } catch (err) {
+      const failure = toAnalysisError(err);
+      return NextResponse.json(
+        { error: failure.message, code: failure.code },
+        { status: ANALYSIS_ERROR_STATUS[failure.code] }
+      );
+    }
+
+    return await withChargedRequest(user.id, [null], async (charge) => {
+      const result = await analyzeJobText(extracted.text, {
+        document: { file_name: file.name, format: extracted.format, pages: extracted.pages },
+      });
+
+      if (!result.success) {
+        await charge.refund(null, result.errorCode);
+        const code = result.errorCode ?? "UNKNOWN";
+        return NextResponse.json(
+          { error: result.error || "Analysis failed", code, retryable: !!result.retryable },
+          { status: ANALYSIS_ERROR_STATUS[code] }
+        );
+      }
+
+      charge.keep(null);
+      return NextResponse.json(
+        {
+          success: true,
+          title: result.title,
+          document: { fileName: file.name, format: extracted.format, pages: extracted.pages },
+          score: result.score,
+          features: result.features,
+          nlpAnalysis: result.nlpAnalysis,
+        },
+        { status: 200 }
+      );
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error", code: "UNKNOWN" },
+      { status: 500 }
+    );
+  }
+}
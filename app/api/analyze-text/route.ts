@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { safe } from "@/lib/safe";
+import { getUser } from "@/utils/supabase/action";
+import { withChargedRequest } from "@/app/api/chargedRequest";
+import { analyzeJobText, MAX_JOB_TEXT_LENGTH } from "@/app/orchestrator/analyzeJobText";
+import { ANALYSIS_ERROR_STATUS } from "@/app/orchestrator/errors";
+
+export const runtime = "nodejs";
+
+const ZAnalyzeTextBody = z.object({
+  text: z.string().trim().min(1).max(MAX_JOB_TEXT_LENGTH),
+});
+
+// Score a posting from pasted text (no URL). Costs one token, like /api/get_score.
+export async function POST(req: Request) {
+  try {
+    // validate body before touching locks/tokens
+    const body = await safe(() => req.json());
+    const parsed = ZAnalyzeTextBody.safeParse(body.success ? body.data : null);
+    if (!parsed.success)
+      return NextResponse.json(
+        { error: `Body must be JSON with the posting \`text\` (up to ${MAX_JOB_TEXT_LENGTH} characters)`, code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+    const { text } = parsed.data;
+
+    // get user
+    const user = await getUser();
+    if ("error" in user || !user?.id)
+      return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+
+    return await withChargedRequest(user.id, [null], async (charge) => {
+      const result = await analyzeJobText(text);
+
+      if (!result.success) {
+        await charge.refund(null, result.errorCode);
+        const code = result.errorCode ?? "UNKNOWN";
+        return NextResponse.json(
+          { error: result.error || "Analysis failed", code, retryable: !!result.retryable },
+          { status: ANALYSIS_ERROR_STATUS[code] }
+        );
+      }
+
+      charge.keep(null);
+      return NextResponse.json(
+        {
+          success: true,
+          title: result.title,
+          score: result.score,
+          features: result.features,
+          nlpAnalysis: result.nlpAnalysis,
+        },
+        { status: 200 }
+      );
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error", code: "UNKNOWN" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { safe } from "@/lib/safe";
+import { getUser, InsertIntoUserJobCheckTable } from "@/utils/supabase/action";
+import { withChargedRequest } from "@/app/api/chargedRequest";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  analyzeBatch,
+  dedupeBatchUrls,
+  parseUrlList,
+  MAX_BATCH_SIZE,
+  type BatchRow,
+  type BatchSkipped,
+} from "@/app/orchestrator/analyzeBatch";
+
+export const runtime = "nodejs";
+// 50 jobs x (fetch + LLM) doesn't fit in the default function timeout
+export const maxDuration = 300;
+// No job starts after this, leaving a started one time to finish before maxDuration;
+// the rest come back as skipped (TIME_LIMIT) and cost nothing
+const BATCH_TIME_BUDGET_MS = 210_000;
+
+const ZBatchBody = z.object({
+  urls: z.union([z.array(z.string()), z.string()]),
+});
+
+// URLs from a JSON body ({ urls: [...] | "pasted text" }) or a multipart form
+// with a CSV `file` and/or pasted `urls` text
+async function readBatchUrls(req: Request): Promise<string[] | null> {
+  const contentType = req.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const parts: string[] = [];
+    const file = form.get("file");
+    if (file && typeof file !== "string") parts.push(await file.text());
+    const pasted = form.get("urls");
+    if (typeof pasted === "string") parts.push(pasted);
+    return parseUrlList(parts.join("\n"));
+  }
+
+  const body = await safe(() => req.json());
+  const parsed = ZBatchBody.safeParse(body.success ? body.data : null);
+  if (!parsed.success) return null;
+  const { urls } = parsed.data;
+  return parseUrlList(Array.isArray(urls) ? urls.join("\n") : urls);
+}
+
+export async function POST(req: Request) {
+  try {
+    const urls = await readBatchUrls(req);
+    if (!urls)
+      return NextResponse.json(
+        { error: "Body must be JSON with `urls`, or a form with a CSV `file`", code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+
+    const items = dedupeBatchUrls(urls);
+    if (items.length === 0)
+      return NextResponse.json({ error: "No job URLs found", code: "INVALID_REQUEST" }, { status: 400 });
+    if (items.length > MAX_BATCH_SIZE)
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} jobs per batch (got ${items.length})`, code: "BATCH_TOO_LARGE" },
+        { status: 413 }
+      );
+
+    // get user
+    const user = await getUser();
+    if ("error" in user || !user?.id)
+      return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+    const userId = user.id;
+
+    // the lock takes the first job's token and every other job pays as it starts, so a
+    // batch cut short (balance, time limit, crash) only costs what actually ran
+    const deadline = Date.now() + BATCH_TIME_BUDGET_MS;
+
+    return await withChargedRequest(userId, [items[0].url], async (charge) => {
+      const supabaseAdmin = createAdminClient();
+
+      const rows = await analyzeBatch(items, userId, supabaseAdmin, {
+        deadline,
+        onStart: (item) => charge.jobs.includes(item.url) || charge.add(item.url),
+        onResult: async (row) => {
+          if (row.status === "failed") {
+            await charge.refund(row.url, row.code);
+            return;
+          }
+          if (row.persisted) {
+            // link the job to the user so it shows up in My Jobs (web jobs aren't stored)
+            const linked = await InsertIntoUserJobCheckTable(supabaseAdmin, userId, row.jobId, row.atsUpdatedAt);
+            if (!linked) console.error("[batch] Failed to link job to user:", row.jobId);
+          }
+          charge.keep(row.url);
+        },
+      });
+
+      const results = rows.filter((row): row is BatchRow => row.status !== "skipped");
+      const skipped = rows.filter((row): row is BatchSkipped => row.status === "skipped");
+      // the first job is paid for before it starts; give it back if the time ran out first
+      for (const row of skipped) await charge.refund(row.url, row.code);
+
+      return NextResponse.json(
+        {
+          success: true,
+          results,
+          skipped,
+          charged: charge.jobs.length - charge.refunded.length,
+          refunded: charge.refunded.length,
+        },
+        { status: 200 }
+      );
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error", code: "UNKNOWN" },
+      { status: 500 }
+    );
+  }
+}
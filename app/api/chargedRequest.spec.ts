@@ -0,0 +1,118 @@
+import { withChargedRequest } from "./chargedRequest";
+import {
+  request_lock_and_tokens,
+  set_request_lock_for_batch,
+  spend_request_token,
+  release_request_lock,
+  refund_request_token,
+} from "@/app/db/requestLock";
+
+jest.mock("@/app/db/requestLock", () => ({
+  request_lock_and_tokens: jest.fn(),
+  set_request_lock_for_batch: jest.fn(),
+  spend_request_token: jest.fn(),
+  release_request_lock: jest.fn(),
+  refund_request_token: jest.fn(),
+}));
+
+const lockState = jest.mocked(request_lock_and_tokens);
+const takeLock = jest.mocked(set_request_lock_for_batch);
+const release = jest.mocked(release_request_lock);
+const refund = jest.mocked(refund_request_token);
+
+const ok = () => new Response("ok", { status: 200 });
+
+describe("withChargedRequest", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockState.mockResolvedValue({ is_available: true, tokens: 3 });
+    takeLock.mockResolvedValue(true);
+    release.mockResolvedValue(undefined);
+    refund.mockResolvedValue(true);
+  });
+
+  it("turns a missing balance or a held lock into 429/409 without charging", async () => {
+    lockState.mockResolvedValueOnce({ is_available: true, tokens: 0 });
+    expect((await withChargedRequest("u1", ["https://a.example/1"], async () => ok())).status).toBe(429);
+
+    lockState.mockResolvedValueOnce({ is_available: false, tokens: 3 });
+    expect((await withChargedRequest("u1", ["https://a.example/1"], async () => ok())).status).toBe(409);
+
+    takeLock.mockResolvedValueOnce(false); // lost the race for the lock
+    expect((await withChargedRequest("u1", ["https://a.example/1"], async () => ok())).status).toBe(409);
+
+    lockState.mockRejectedValueOnce(new Error("db down"));
+    expect((await withChargedRequest("u1", ["https://a.example/1"], async () => ok())).status).toBe(500);
+
+    expect(release).not.toHaveBeenCalled();
+    expect(refund).not.toHaveBeenCalled();
+  });
+
+  it("keeps the token for a result and releases the lock", async () => {
+    const res = await withChargedRequest("u1", ["https://a.example/1"], async (charge) => {
+      charge.keep("https://a.example/1");
+      return ok();
+    });
+
+    expect(res.status).toBe(200);
+    expect(takeLock).toHaveBeenCalledWith("u1", ["https://a.example/1"]);
+    expect(refund).not.toHaveBeenCalled();
+    expect(release).toHaveBeenCalledWith("u1");
+  });
+
+  it("refunds what the handler didn't settle when it throws", async () => {
+    const run = withChargedRequest("u1", [null], async () => {
+      throw new Error("LLM exploded");
+    });
+
+    await expect(run).rejects.toThrow("LLM exploded");
+    expect(refund).toHaveBeenCalledWith("u1", undefined, "UNKNOWN");
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it("pays for more jobs as they start, until the balance runs out", async () => {
+    const spend = jest.mocked(spend_request_token);
+    spend.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await withChargedRequest("u1", ["https://a.example/1"], async (charge) => {
+      expect(await charge.add("https://a.example/2")).toBe(true);
+      expect(await charge.add("https://a.example/3")).toBe(false);
+      expect(charge.jobs).toEqual(["https://a.example/1", "https://a.example/2"]);
+      await charge.refund("https://a.example/1", "FETCH_FAILED");
+      return ok();
+    });
+
+    expect(takeLock).toHaveBeenCalledWith("u1", ["https://a.example/1"]);
+    expect(spend).toHaveBeenCalledWith("u1", "https://a.example/2");
+    // /2 was paid for but never settled: refunded on the way out
+    expect(refund).toHaveBeenCalledWith("u1", "https://a.example/1", "FETCH_FAILED");
+    expect(refund).toHaveBeenCalledWith("u1", "https://a.example/2", "UNKNOWN");
+    expect(refund).not.toHaveBeenCalledWith("u1", "https://a.example/3", expect.anything());
+  });
+
+  it("retries a refund that failed inside the handler", async () => {
+    refund.mockResolvedValueOnce(false);
+
+    await withChargedRequest("u1", ["https://a.example/1"], async (charge) => {
+      expect(await charge.refund("https://a.example/1", "FETCH_FAILED")).toBe(false);
+      return ok();
+    });
+
+    expect(refund).toHaveBeenLastCalledWith("u1", "https://a.example/1", "UNKNOWN");
+    expect(refund).toHaveBeenCalledTimes(2);
+  });
+
+  it("only refunds what it charged, once, and lists what it gave back", async () => {
+    await withChargedRequest("u1", ["https://a.example/1", "https://a.example/2"], async (charge) => {
+      expect(await charge.refund("https://a.example/1", "TIME_LIMIT")).toBe(true);
+      expect(await charge.refund("https://a.example/1", "TIME_LIMIT")).toBe(false);
+      expect(await charge.refund("https://a.example/3", "TIME_LIMIT")).toBe(false);
+      charge.keep("https://a.example/2");
+      expect(charge.refunded).toEqual(["https://a.example/1"]);
+      return ok();
+    });
+
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(refund).toHaveBeenCalledWith("u1", "https://a.example/1", "TIME_LIMIT");
+  });
+});
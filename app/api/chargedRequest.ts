@@ -0,0 +1,110 @@
+// Lock + token handling shared by the analysis routes (get_score, analyze-text,
+// analyze-document, batch): take the user's request lock, spend one token per job,
+// refund what didn't produce a result, and always release the lock.
+
+import { NextResponse } from "next/server";
+import { safe } from "@/lib/safe";
+import {
+  request_lock_and_tokens,
+  set_request_lock_for_batch,
+  spend_request_token,
+  release_request_lock,
+  refund_request_token,
+} from "@/app/db/requestLock";
+
+/** A URL paid for by this request, or null for a job without one (pasted text, uploads). */
+export type ChargedJob = string | null;
+
+export type ChargedRequest = {
+  /** What was paid for so far, one token each */
+  jobs: ChargedJob[];
+  /** Pay for one more job while the lock is held. returns: false if the balance ran out */
+  add(job: ChargedJob): Promise<boolean>;
+  /** The job's token bought a result: keep it */
+  keep(job: ChargedJob): void;
+  /**
+   * The job produced nothing: give its token back. A job that isn't charged or is
+   * settled already is left alone.
+   * returns: false if nothing was refunded
+   */
+  refund(job: ChargedJob, note?: string): Promise<boolean>;
+  /** What was given back so far; `jobs` minus these is what the request cost */
+  refunded: ChargedJob[];
+};
+
+/**
+ * Run `handler` with the lock held and `jobs` paid for; a batch pays for the rest with
+ * add() as each one starts, so jobs it never gets to cost nothing. Any job neither kept
+ * nor refunded when the handler returns or throws is refunded, so a crash doesn't cost
+ * the user.
+ * returns: the handler's response, or the 429/409/500 for a lock that couldn't be taken
+ */
+export async function withChargedRequest(
+  userId: string,
+  jobs: ChargedJob[],
+  handler: (charge: ChargedRequest) => Promise<Response>
+): Promise<Response> {
+  // check lock + tokens
+  const lockInit = await safe(() => request_lock_and_tokens(userId));
+  if (!lockInit.success)
+    return NextResponse.json({ error: "Lock failed", code: "LOCK_FAILED" }, { status: 500 });
+
+  const { is_available, tokens } = lockInit.data;
+  if (tokens < jobs.length || jobs.length === 0)
+    return NextResponse.json({ error: "Out of tokens", code: "OUT_OF_TOKENS" }, { status: 429 });
+  if (!is_available)
+    return NextResponse.json(
+      { error: "Already processing", code: "ALREADY_PROCESSING" },
+      { status: 409 }
+    );
+
+  // set lock + pay for the jobs up front
+  const gotLock = await set_request_lock_for_batch(userId, jobs);
+  if (!gotLock)
+    return NextResponse.json(
+      { error: "Already processing", code: "ALREADY_PROCESSING" },
+      { status: 409 }
+    );
+
+  const charged = [...jobs];
+  // charged jobs with no result or refund yet
+  const unsettled = [...jobs];
+  const refunded: ChargedJob[] = [];
+  const settle = (job: ChargedJob) => {
+    const i = unsettled.indexOf(job);
+    if (i >= 0) unsettled.splice(i, 1);
+  };
+
+  try {
+    return await handler({
+      jobs: charged,
+      async add(job) {
+        if (!(await spend_request_token(userId, job ?? undefined))) return false;
+        charged.push(job);
+        unsettled.push(job);
+        return true;
+      },
+      keep: settle,
+      async refund(job, note) {
+        if (!unsettled.includes(job)) return false;
+        const ok = await refund_request_token(userId, job ?? undefined, note);
+        if (ok) {
+          settle(job);
+          refunded.push(job);
+        }
+        return ok;
+      },
+      refunded,
+    });
+  } finally {
+    for (const job of unsettled) {
+      const refund = await safe(() => refund_request_token(userId, job ?? undefined, "UNKNOWN"));
+      if (refund.success && refund.data) refunded.push(job);
+      else console.error("[token refund error]", refund.success ? job : refund.error);
+    }
+
+    // release lock
+    const rel = await safe(() => release_request_lock(userId));
+    if (!rel.success) console.error("[lock release error]", rel.error);
+  }
+}
@@ -1,18 +1,68 @@
-// Single "barrel" for adapter jobs--will grow as number of adapters grows
-import { greenhouseAdapter } from "./adapters/greenhouse";
+// Adapter registry: the scraper and orchestrator dispatch through this list, so a new
+// ATS only needs its adapter file (with a definition) plus an entry here.
+import { greenhouseAdapter, greenhouseDefinition } from "./adapters/greenhouse";
+import { leverAdapter, leverDefinition } from "./adapters/lever";
+import { ashbyAdapter, ashbyDefinition } from "./adapters/ashby";
+import { workdayAdapter, workdayDefinition } from "./adapters/workday";
+import { smartRecruitersAdapter, smartRecruitersDefinition } from "./adapters/smartrecruiters";
+import { icimsAdapter, icimsDefinition } from "./adapters/icims";
 import { webAdapter } from "./adapters/web";
+import type {
+  AdapterCapabilities,
+  AtsAdapterDefinition,
+  AtsAdapterProvider,
+  AtsJobKey,
+  AtsProvider,
+} from "./adapters/types";
 
-type GreenhouseFn = (tenant_slug: string, external_job_id: string) => Promise<any>;
-type WebFn = (url: string) => Promise<any>;
+/** Checked in order; the first definition that matches and parses a key wins. */
+export const ATS_ADAPTERS: readonly AtsAdapterDefinition[] = [
+  greenhouseDefinition,
+  leverDefinition,
+  ashbyDefinition,
+  workdayDefinition,
+  smartRecruitersDefinition,
+  icimsDefinition,
+];
 
-export type AdaptersRegistry = {
-  greenhouse?: GreenhouseFn;
-  web?: WebFn;
-};
+/** Generic web pages have no stable key, so results are ephemeral. */
+const WEB_CAPABILITIES: AdapterCapabilities = { persistable: false, hasUpdatedAt: false };
 
-export const adapters: AdaptersRegistry = {
-  greenhouse: greenhouseAdapter,
-  web: webAdapter,
-};
+export function getAdapter(provider: AtsAdapterProvider): AtsAdapterDefinition | undefined {
+  return ATS_ADAPTERS.find(a => a.provider === provider);
+}
+
+export function getAdapterCapabilities(provider: AtsProvider): AdapterCapabilities {
+  if (provider === "web") return WEB_CAPABILITIES;
+  return getAdapter(provider)?.capabilities ?? WEB_CAPABILITIES;
+}
 
-export { greenhouseAdapter, webAdapter };
\ No newline at end of file
+export function getProviderDisplayName(provider: AtsProvider): string {
+  if (provider === "web") return "the job page";
+  return getAdapter(provider)?.displayName ?? provider;
+}
+
+/**
+ * Find the adapter for a job URL along with its composite key.
+ * Returns null when no ATS claims the URL (or it's a board index / unknown path).
+ */
+export function resolveAtsAdapter(
+  url: URL
+): { adapter: AtsAdapterDefinition; key: AtsJobKey } | null {
+  for (const adapter of ATS_ADAPTERS) {
+    if (!adapter.matches(url)) continue;
+    const key = adapter.parseKey(url);
+    if (key) return { adapter, key };
+  }
+  return null;
+}
+
+export {
+  greenhouseAdapter,
+  leverAdapter,
+  ashbyAdapter,
+  workdayAdapter,
+  smartRecruitersAdapter,
+  icimsAdapter,
+  webAdapter,
+};
@@ -0,0 +1,297 @@
+import { z } from "zod";
+import type { AdapterJob, AtsAdapterDefinition, BoardPosting } from "./types";
+import { fetchWithRetry, hostOf, JobNotFoundError, parseAshbyBoardAndJob, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { extractSalaryFromText, finalizeSalary, type GHCanon } from "@/lib/normalizers/greenhouse";
+
+/** Zod schema for the Ashby public posting API (keep permissive). */
+const ZAshbyCompComponent = z
+  .object({
+    compensationType: z.string().nullable().optional(), // "Salary", "EquityPercentage", "Bonus", ...
+    interval: z.string().nullable().optional(), // e.g. "1 YEAR", "1 HOUR"
+    currencyCode: z.string().nullable().optional(),
+    minValue: z.number().nullable().optional(),
+    maxValue: z.number().nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+const ZAshbyCompensation = z
+  .object({
+    compensationTierSummary: z.string().nullable().optional(),
+    scrapeableCompensationSalarySummary: z.string().nullable().optional(),
+    compensationTiers: z
+      .array(
+        z
+          .object({
+            title: z.string().nullable().optional(),
+            components: z.array(ZAshbyCompComponent).default([]),
+          })
+          .catchall(z.unknown())
+      )
+      .nullable()
+      .optional(),
+    summaryComponents: z.array(ZAshbyCompComponent).nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+const ZAshbyJob = z
+  .object({
+    id: z.string(),
+    title: z.string().default(""),
+    department: z.string().nullable().optional(),
+    team: z.string().nullable().optional(),
+    employmentType: z.string().nullable().optional(), // "FullTime", "PartTime", "Contract", ...
+    location: z.string().nullable().optional(),
+    isRemote: z.boolean().nullable().optional(),
+    isListed: z.boolean().nullable().optional(),
+    publishedAt: z.string().nullable().optional(),
+    updatedAt: z.string().nullable().optional(),
+    jobUrl: z.string().url().optional(),
+    applyUrl: z.string().url().optional(),
+    descriptionHtml: z.string().nullable().optional(),
+    descriptionPlain: z.string().nullable().optional(),
+    compensation: ZAshbyCompensation.nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+const ZAshbyBoard = z
+  .object({
+    jobs: z.array(z.unknown()).default([]),
+  })
+  .catchall(z.unknown());
+
+type AshbyJob = z.infer<typeof ZAshbyJob>;
+type AshbyCompComponent = z.infer<typeof ZAshbyCompComponent>;
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  fulltime: "Full-time",
+  parttime: "Part-time",
+  contract: "Contract",
+  intern: "Intern",
+  temporary: "Temporary",
+};
+
+/** Ashby intervals look like "1 YEAR" / "1 HOUR"; only hour/year map onto our periods. */
+function compPeriodFromInterval(interval?: string | null): "hour" | "year" | null {
+  const s = (interval ?? "").toUpperCase();
+  if (s.includes("HOUR")) return "hour";
+  if (s.includes("YEAR")) return "year";
+  return null;
+}
+
+/**
+ * Collapse Ashby's compensation tiers (often one per location band) into a single
+ * base-salary range: lowest min and highest max across Salary components that share
+ * the first tier's currency. Equity, bonus and commission components are ignored.
+ */
+function extractAshbyCompensation(comp: AshbyJob["compensation"]): GHCanon {
+  const features: GHCanon = {};
+  if (!comp) return features;
+
+  const components: AshbyCompComponent[] = [
+    ...(comp.compensationTiers ?? []).flatMap(t => t.components ?? []),
+    ...(comp.summaryComponents ?? []),
+  ].filter(c => (c.compensationType ?? "").toLowerCase() === "salary");
+
+  if (components.length === 0) return features;
+
+  const currency = components.find(c => c.currencyCode)?.currencyCode?.toUpperCase() ?? null;
+  let min: number | undefined;
+  let max: number | undefined;
+  let period: "hour" | "year" | null = null;
+
+  for (const c of components) {
+    if (currency && c.currencyCode && c.currencyCode.toUpperCase() !== currency) continue;
+    if (typeof c.minValue === "number") min = min === undefined ? c.minValue : Math.min(min, c.minValue);
+    if (typeof c.maxValue === "number") max = max === undefined ? c.maxValue : Math.max(max, c.maxValue);
+    period ??= compPeriodFromInterval(c.interval);
+  }
+
+  if (min === undefined && max === undefined) return features;
+
+  if (min !== undefined) features.salary_min = min;
+  if (max !== undefined) features.salary_max = max;
+  if (currency) features.currency = currency;
+  if (period) features.comp_period = period;
+  features.salary_source = "metadata";
+
+  finalizeSalary(features);
+  return features;
+}
+
+/**
+ * Ashby's public posting API only lists a whole job board, so fetch the board
+ * (with compensation) and pick the posting by ID.
+ */
+export async function ashbyAdapter(
+  tenant_slug: string,
+  external_job_id: string
+): Promise<AdapterJob | null> {
+  const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(tenant_slug)}?includeCompensation=true`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, url);
+  if (!res.ok) return null;
+
+  const board = ZAshbyBoard.safeParse(await res.json());
+  if (!board.success) return null;
+
+  // Find the posting in the board; a missing posting means it was unlisted or closed.
+  const payloadUnknown = board.data.jobs.find(
+    j => typeof j === "object" && j !== null && (j as { id?: unknown }).id === external_job_id
+  );
+  if (!payloadUnknown) throw new JobNotFoundError(url, res.status);
+
+  const parsed = ZAshbyJob.safeParse(payloadUnknown);
+  const p = parsed.success ? parsed.data : ({} as AshbyJob);
+
+  const contentHtml = p.descriptionHtml ?? "";
+  const buf = Buffer.from(contentHtml, "utf8");
+
+  const absoluteUrl = p.jobUrl ?? `https://jobs.ashbyhq.com/${tenant_slug}/${external_job_id}`;
+
+  const normalized: AdapterJob = {
+    ats_provider: "ashby",
+    tenant_slug,
+    external_job_id: p.id ?? external_job_id,
+
+    title: p.title ?? "",
+    // The posting API has no organization name; the board slug is the best we have.
+    company_name: tenant_slug,
+    location: p.location ?? (p.isRemote ? "Remote" : ""),
+    absolute_url: absoluteUrl,
+
+    first_published: p.publishedAt ?? null,
+    // Never fall back to fetch time: that would log a fake update on every scrape.
+    updated_at: p.updatedAt ?? p.publishedAt ?? finished.toISOString(),
+
+    requisition_id: null,
+
+    content: contentHtml || null,
+
+    raw_json: {
+      ...(payloadUnknown as object),
+
+      canonical_candidate: {
+        ats: "ashby",
+        tenant_slug,
+        external_job_id: p.id ?? external_job_id,
+        absolute_url: absoluteUrl,
+        provenance: "api",
+      },
+
+      fetch: {
+        status: res.status,
+        ok: res.ok,
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
+      },
+
+      content_metrics: {
+        length_bytes: buf.byteLength,
+        sha1: sha1Hex(buf),
+      },
+
+      _ingest: { needsnlp: true },
+    },
+  };
+
+  // Extract features from compensation tiers + job fields
+  try {
+    const featuresWithSource = extractAshbyCompensation(p.compensation);
+
+    const employmentType = (p.employmentType ?? "").toLowerCase();
+    if (EMPLOYMENT_TYPES[employmentType]) featuresWithSource.time_type = EMPLOYMENT_TYPES[employmentType];
+    if (p.department || p.team) featuresWithSource.department = p.department ?? p.team ?? null;
+
+    // If no structured salary, fall back to the compensation summary / description text
+    if (!featuresWithSource.salary_min && !featuresWithSource.salary_max) {
+      const salaryText =
+        p.compensation?.scrapeableCompensationSalarySummary ||
+        p.compensation?.compensationTierSummary ||
+        contentHtml;
+      if (salaryText) {
+        const contentFeatures: GHCanon = {};
+        extractSalaryFromText(salaryText, contentFeatures);
+        if (contentFeatures.salary_min || contentFeatures.salary_max) {
+          Object.assign(featuresWithSource, contentFeatures);
+          featuresWithSource.salary_source = "content"; // Mark as ATS content source
+        }
+      }
+    }
+
+    normalized.features = featuresWithSource;
+  } catch (err) {
+    console.warn("Failed to extract Ashby features:", err);
+    // Continue without features - NLP layer will handle fallback
+  }
+
+  return normalized;
+}
+
+/** Every listed posting on an Ashby job board (without compensation). */
+export async function ashbyBoardListing(tenant_slug: string): Promise<BoardPosting[] | null> {
+  const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(tenant_slug)}`;
+
+  try {
+    const res = await fetchWithRetry(
+      url,
+      {
+        headers: {
+          "User-Agent": "jobbusters/0.1 (+https://example.com)",
+          Accept: "application/json",
+        },
+      },
+      { retries: 1, baseDelayMs: 300, timeoutMs: 12_000 }
+    );
+    if (!res.ok) return null;
+
+    const board = ZAshbyBoard.safeParse(await res.json());
+    if (!board.success) return null;
+
+    return board.data.jobs.flatMap(payload => {
+      const p = ZAshbyJob.safeParse(payload);
+      if (!p.success || p.data.isListed === false) return [];
+      return [{
+        external_job_id: p.data.id,
+        title: p.data.title,
+        absolute_url: p.data.jobUrl ?? `https://jobs.ashbyhq.com/${tenant_slug}/${p.data.id}`,
+        location: p.data.location ?? "",
+      }];
+    });
+  } catch (err) {
+    console.warn(`[ashbyBoardListing] ${tenant_slug} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export const ashbyDefinition: AtsAdapterDefinition = {
+  provider: "ashby",
+  displayName: "Ashby",
+  matches: url => hostOf(url) === "jobs.ashbyhq.com",
+  parseKey: url => {
+    const parsed = parseAshbyBoardAndJob(url);
+    return parsed ? { tenant_slug: parsed.board, external_job_id: parsed.jobId } : null;
+  },
+  fetchJob: (_url, key) => ashbyAdapter(key.tenant_slug, key.external_job_id),
+  listBoard: ashbyBoardListing,
+  capabilities: { persistable: true, hasUpdatedAt: true },
+};
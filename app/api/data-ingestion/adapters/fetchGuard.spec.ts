@@ -0,0 +1,188 @@
+import dns from "dns/promises";
+import dnsCallback from "dns";
+import { assertPublicUrl, FetchGuardError, guardedFetch, isReservedAddress, publicOnlyLookup } from "./fetchGuard";
+
+// Names the specs resolve; anything else fails like NXDOMAIN
+const ZONE: Record<string, string> = {
+  "jobs.example.com": "93.184.216.34",
+  "next.example.com": "93.184.216.35",
+  "intranet.example.com": "10.0.0.5",
+  "rebind.example.com": "127.0.0.1",
+};
+
+const guardCode = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (err) {
+    if (err instanceof FetchGuardError) return err.code;
+    throw err;
+  }
+  return null;
+};
+
+describe("isReservedAddress", () => {
+  it.each([
+    ["127.0.0.1", true],
+    ["10.1.2.3", true],
+    ["172.16.0.1", true],
+    ["172.32.0.1", false],
+    ["192.168.1.1", true],
+    ["169.254.169.254", true],
+    ["100.64.0.1", true],
+    ["0.0.0.0", true],
+    ["224.0.0.1", true],
+    ["93.184.216.34", false],
+    ["8.8.8.8", false],
+    ["::", true],
+    ["::1", true],
+    ["fe80::1", true],
+    ["fd12:3456::1", true],
+    ["2001:db8::1", true],
+    ["2606:4700::1111", false],
+    ["::ffff:127.0.0.1", true],
+    ["::ffff:7f00:1", true],
+    ["::ffff:8.8.8.8", false],
+    ["64:ff9b::a9fe:a9fe", true],
+    ["2002:0a00:0001::", true],
+    ["2002:0808:0808::", false],
+    ["::127.0.0.1", true],
+    ["::169.254.169.254", true],
+    ["::a9fe:a9fe", true],
+    ["::8.8.8.8", false],
+    ["metadata.internal", true],
+  ])("%s -> %s", (ip, expected) => {
+    expect(isReservedAddress(ip)).toBe(expected);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  beforeEach(() => {
+    jest.spyOn(dns, "lookup").mockImplementation((async (host: string) => {
+      if (!ZONE[host]) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: "ENOTFOUND" });
+      return [{ address: ZONE[host], family: 4 }];
+    }) as unknown as typeof dns.lookup);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ["ftp://jobs.example.com/", "BLOCKED_SCHEME"],
+    ["file:///etc/passwd", "BLOCKED_SCHEME"],
+    ["https://jobs.example.com:8443/", "BLOCKED_PORT"],
+    ["http://localhost/", "BLOCKED_ADDRESS"],
+    ["http://admin.localhost/", "BLOCKED_ADDRESS"],
+    ["http://169.254.169.254/latest/meta-data/", "BLOCKED_ADDRESS"],
+    ["http://[::ffff:127.0.0.1]/", "BLOCKED_ADDRESS"],
+    ["https://intranet.example.com/", "BLOCKED_ADDRESS"],
+    ["https://nowhere.example.com/", "DNS_FAILED"],
+    ["https://jobs.example.com/careers/1", null],
+    ["http://jobs.example.com:80/", null],
+  ])("%s -> %s", async (url, code) => {
+    expect(await guardCode(assertPublicUrl(new URL(url)))).toBe(code);
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  const lookup = (host: string, all: boolean) =>
+    new Promise<unknown>((resolve, reject) =>
+      publicOnlyLookup(host, { all }, (err, address, family) => (err ? reject(err) : resolve(all ? address : { address, family })))
+    );
+
+  it("refuses names that resolve to a private address", async () => {
+    expect(await guardCode(lookup("127.0.0.1", false))).toBe("BLOCKED_ADDRESS");
+    expect(await guardCode(lookup("10.0.0.5", true))).toBe("BLOCKED_ADDRESS");
+  });
+
+  it("answers in the shape the caller asked for", async () => {
+    expect(await lookup("93.184.216.34", false)).toEqual({ address: "93.184.216.34", family: 4 });
+    expect(await lookup("93.184.216.34", true)).toEqual([{ address: "93.184.216.34", family: 4 }]);
+  });
+});
+
+describe("guardedFetch", () => {
+  let fetchSpy: jest.SpyInstance;
+
+  const respond = (status: number, headers: Record<string, string> = {}, body: string | null = null) =>
+    new Response(body, { status, headers });
+
+  beforeEach(() => {
+    jest.spyOn(dns, "lookup").mockImplementation((async (host: string) => {
+      if (!ZONE[host]) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: "ENOTFOUND" });
+      return [{ address: ZONE[host], family: 4 }];
+    }) as unknown as typeof dns.lookup);
+    fetchSpy = jest.spyOn(globalThis, "fetch");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("connects through the address-checking dispatcher", async () => {
+    fetchSpy.mockResolvedValueOnce(respond(200, { "content-type": "text/html" }, "<html></html>"));
+    await guardedFetch("https://jobs.example.com/careers/1");
+    expect(fetchSpy.mock.calls[0][1]).toHaveProperty("dispatcher");
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+  });
+
+  it("re-checks every redirect target before requesting it", async () => {
+    fetchSpy.mockResolvedValueOnce(respond(302, { location: "http://169.254.169.254/latest/meta-data/" }));
+    expect(await guardCode(guardedFetch("https://jobs.example.com/apply"))).toBe("BLOCKED_ADDRESS");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockClear();
+    fetchSpy.mockResolvedValueOnce(respond(301, { location: "https://intranet.example.com/admin" }));
+    expect(await guardCode(guardedFetch("https://jobs.example.com/apply"))).toBe("BLOCKED_ADDRESS");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows public redirects and reports the final URL", async () => {
+    fetchSpy
+      .mockResolvedValueOnce(respond(302, { location: "https://next.example.com/job/1" }))
+      .mockResolvedValueOnce(respond(200, { "content-type": "text/html; charset=utf-8" }, "<html>ok</html>"));
+    const res = await guardedFetch("https://jobs.example.com/r/abc");
+    expect(res.url).toBe("https://next.example.com/job/1");
+    expect(await res.text()).toBe("<html>ok</html>");
+  });
+
+  it("hands redirects back when the caller follows them itself", async () => {
+    fetchSpy.mockResolvedValueOnce(respond(302, { location: "http://169.254.169.254/" }));
+    const res = await guardedFetch("https://jobs.example.com/r/abc", { redirect: "manual" });
+    expect(res.status).toBe(302);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up on redirect loops", async () => {
+    fetchSpy.mockImplementation(async () => respond(302, { location: "https://jobs.example.com/loop" }));
+    expect(await guardCode(guardedFetch("https://jobs.example.com/loop"))).toBe("TOO_MANY_REDIRECTS");
+  });
+
+  it("rejects content types that aren't pages or APIs", async () => {
+    fetchSpy.mockResolvedValueOnce(respond(200, { "content-type": "application/octet-stream" }, "binary"));
+    expect(await guardCode(guardedFetch("https://jobs.example.com/file"))).toBe("UNSUPPORTED_CONTENT_TYPE");
+  });
+
+  it("cuts off bodies past the size limit", async () => {
+    fetchSpy.mockResolvedValueOnce(respond(200, { "content-type": "text/html", "content-length": "100" }, "x".repeat(100)));
+    expect(await guardCode(guardedFetch("https://jobs.example.com/big", {}, { maxBytes: 10 }))).toBe("BODY_TOO_LARGE");
+
+    fetchSpy.mockResolvedValueOnce(respond(200, { "content-type": "text/html" }, "x".repeat(100)));
+    const res = await guardedFetch("https://jobs.example.com/big", {}, { maxBytes: 10 });
+    expect(await guardCode(res.text())).toBe("BODY_TOO_LARGE");
+  });
+
+  it("refuses to connect when the name resolves to a private address at connect time", async () => {
+    // assertPublicUrl sees a public answer; the socket's own lookup gets loopback (DNS rebinding)
+    fetchSpy.mockRestore();
+    jest.spyOn(dns, "lookup").mockImplementation((async () => [{ address: "93.184.216.34", family: 4 }]) as unknown as typeof dns.lookup);
+    jest.spyOn(dnsCallback, "lookup").mockImplementation(((host: string, _options: unknown, callback: (err: null, addresses: { address: string; family: number }[]) => void) =>
+      callback(null, [{ address: ZONE[host] ?? "127.0.0.1", family: 4 }])) as unknown as typeof dnsCallback.lookup);
+
+    // Under jest, Node's fetch re-wraps the cause as a plain Error (another realm), so
+    // match on the message rather than the FetchGuardError code
+    const failure = await guardedFetch("http://rebind.example.com/").catch((err: unknown) => err);
+    const chain = failure instanceof FetchGuardError ? failure.message : String((failure as { cause?: unknown }).cause);
+    expect(chain).toMatch(/rebind\.example\.com points to a private or reserved address/);
+  });
+});
@@ -0,0 +1,228 @@
+// Guarded fetch for URLs users hand us. A pasted link must not reach our own network
+// (localhost, cloud metadata at 169.254.169.254, internal hosts) or stream gigabytes
+// into memory, so every hop is resolved and checked before it's requested, and the
+// body is cut off at a size limit.
+//
+// The connection itself goes through an undici Agent whose DNS lookup applies the same
+// address check, so the socket only ever opens to an address that passed it: a name
+// that resolves differently the second time (DNS rebinding) is refused, not followed.
+
+import dns from "dns/promises";
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from "dns";
+import net from "net";
+import { Agent } from "undici";
+
+export type FetchGuardErrorCode =
+  | "BLOCKED_SCHEME"        // not http/https
+  | "BLOCKED_PORT"          // anything but the scheme's standard port
+  | "BLOCKED_ADDRESS"       // resolves to a private, loopback or reserved address
+  | "DNS_FAILED"            // the name doesn't resolve
+  | "TOO_MANY_REDIRECTS"
+  | "BODY_TOO_LARGE"
+  | "UNSUPPORTED_CONTENT_TYPE";
+
+export class FetchGuardError extends Error {
+  constructor(
+    public code: FetchGuardErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FetchGuardError';
+  }
+}
+
+export const MAX_REDIRECTS = 5;
+export const DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// Postings and ATS APIs: HTML, XML and JSON. A missing Content-Type is let through.
+export const DEFAULT_CONTENT_TYPES: readonly string[] = [
+  "text/html",
+  "application/xhtml+xml",
+  "application/xml",
+  "text/xml",
+  "application/json",
+  "application/ld+json",
+  "text/plain",
+];
+
+const STANDARD_PORTS: Record<string, string> = { "http:": "80", "https:": "443" };
+
+// Everything that isn't the public internet (IANA special-purpose registries)
+const RESERVED = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.88.99.0", 24], ["192.168.0.0", 16],
+  ["198.18.0.0", 15], ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  RESERVED.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128], ["::1", 128], ["100::", 64], ["2001::", 23], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const) {
+  RESERVED.addSubnet(prefix, bits, "ipv6");
+}
+
+/** IPv4 carried inside an IPv6 address (mapped, compatible, NAT64, 6to4), which must be checked as IPv4. */
+function embeddedIPv4(ip: string): string | null {
+  const lower = ip.toLowerCase();
+  // "::" alone is IPv4-compatible (::a.b.c.d, deprecated but still routed by some stacks)
+  const dotted = /^(?:::ffff:|64:ff9b::|::)(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (dotted) return dotted[1];
+
+  const hex = /^(?:::ffff:|64:ff9b::|::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower)
+    ?? /^2002:([0-9a-f]{1,4}):([0-9a-f]{1,4})(?::|$)/.exec(lower);
+  if (!hex) return null;
+  const hi = parseInt(hex[1], 16);
+  const lo = parseInt(hex[2], 16);
+  return [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join(".");
+}
+
+/** Whether an IP literal is private, loopback, link-local or otherwise not publicly routable. */
+export function isReservedAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 4) return RESERVED.check(ip, "ipv4");
+  if (family === 6) {
+    const v4 = embeddedIPv4(ip);
+    return v4 ? RESERVED.check(v4, "ipv4") : RESERVED.check(ip, "ipv6");
+  }
+  return true; // not an IP at all: refuse rather than guess
+}
+
+/**
+ * Throw a FetchGuardError unless the URL is http(s) on a standard port and every
+ * address its host resolves to is public.
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  const standardPort = STANDARD_PORTS[url.protocol];
+  if (!standardPort) {
+    throw new FetchGuardError("BLOCKED_SCHEME", `Only http and https links can be fetched (got ${url.protocol})`);
+  }
+  if (url.port && url.port !== standardPort) {
+    throw new FetchGuardError("BLOCKED_PORT", `Links on port ${url.port} can't be fetched`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new FetchGuardError("BLOCKED_ADDRESS", `${url.hostname} is a local address`);
+  }
+
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.lookup(host, { all: true, verbatim: true })).map(a => a.address);
+    } catch {
+      throw new FetchGuardError("DNS_FAILED", `Couldn't find the site ${url.hostname}`);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isReservedAddress)) {
+    throw new FetchGuardError("BLOCKED_ADDRESS", `${url.hostname} points to a private or reserved address`);
+  }
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup for sockets: resolves like the system resolver, then fails unless every
+ * address is public. Used by the guarded Agent, so the address connected to is one
+ * that was checked.
+ */
+export function publicOnlyLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (addresses.length === 0 || addresses.some(a => isReservedAddress(a.address))) {
+      return callback(new FetchGuardError("BLOCKED_ADDRESS", `${hostname} points to a private or reserved address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const guardedAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+/** Pass the body through, failing the stream once it passes maxBytes. */
+function limitBody(body: ReadableStream<Uint8Array>, maxBytes: number, host: string): ReadableStream<Uint8Array> {
+  let size = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > maxBytes) {
+          controller.error(new FetchGuardError("BODY_TOO_LARGE", `Response from ${host} is larger than ${maxBytes} bytes`));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+export type GuardOptions = {
+  maxBytes?: number;
+  /** Content types accepted on 2xx responses (no parameters, lower-case) */
+  allowedContentTypes?: readonly string[];
+};
+
+/**
+ * fetch with SSRF checks on every hop. Redirects are followed here (unless the caller
+ * asked for redirect: "manual"), so each target is checked before it's requested.
+ * The returned response keeps the final URL in `url` and its body is size-limited.
+ */
+export async function guardedFetch(
+  input: string | URL,
+  init: RequestInit = {},
+  { maxBytes = DEFAULT_MAX_BODY_BYTES, allowedContentTypes = DEFAULT_CONTENT_TYPES }: GuardOptions = {}
+): Promise<Response> {
+  const manual = init.redirect === "manual";
+  let url = new URL(input);
+  let res: Response;
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(url);
+    try {
+      // `dispatcher` is undici's extension to RequestInit, honoured by Node's fetch
+      res = await fetch(url, { ...init, redirect: "manual", dispatcher: guardedAgent } as RequestInit);
+    } catch (err) {
+      // A refusal from publicOnlyLookup arrives wrapped in fetch's "fetch failed"
+      const cause = (err as { cause?: unknown } | null)?.cause;
+      if (cause instanceof FetchGuardError) throw cause;
+      throw err;
+    }
+
+    const location = res.headers.get("location");
+    if (manual || res.status < 300 || res.status >= 400 || !location) break;
+
+    await res.body?.cancel();
+    if (hop >= MAX_REDIRECTS) {
+      throw new FetchGuardError("TOO_MANY_REDIRECTS", `${input} redirects more than ${MAX_REDIRECTS} times`);
+    }
+    url = new URL(location, url);
+  }
+
+  if (res.ok) {
+    const type = (res.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+    if (type && !allowedContentTypes.includes(type)) {
+      await res.body?.cancel();
+      throw new FetchGuardError("UNSUPPORTED_CONTENT_TYPE", `${url.hostname} returned ${type}, not a web page`);
+    }
+  }
+
+  const declared = Number(res.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body?.cancel();
+    throw new FetchGuardError("BODY_TOO_LARGE", `Response from ${url.hostname} is larger than ${maxBytes} bytes`);
+  }
+
+  // 204/304 etc. can't carry a body, even an empty stream
+  const body = res.body && ![101, 204, 205, 304].includes(res.status) ? limitBody(res.body, maxBytes, url.hostname) : null;
+  const limited = new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+  Object.defineProperty(limited, "url", { value: url.toString() });
+  return limited;
+}
@@ -0,0 +1,31 @@
+import { greenhouseAdapter } from "./greenhouse";
+import { loadFixtures } from "@/test/http/fixtures";
+import { startReplayServer, type ReplayServer } from "@/test/http/replayServer";
+import { expectFetchToMatch } from "@/test/http/assertions";
+
+const fixtures = loadFixtures(f => f.target.kind === "greenhouse");
+
+describe("greenhouseAdapter (replayed fixtures)", () => {
+  let server: ReplayServer;
+
+  beforeAll(async () => {
+    server = await startReplayServer();
+    server.load(fixtures);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it.each(fixtures.map(f => [f.name, f] as const))("%s", async (_name, fixture) => {
+    if (fixture.target.kind !== "greenhouse") throw new Error("not a Greenhouse fixture");
+    await expectFetchToMatch(greenhouseAdapter(fixture.target.tenant, fixture.target.jobId), fixture.expect);
+  });
+
+  it("keeps the API payload and fetch metadata on raw_json", async () => {
+    const job = await greenhouseAdapter("northwind", "5012345");
+    expect(job?.raw_json.canonical_candidate).toMatchObject({ ats: "greenhouse", tenant_slug: "northwind", provenance: "api" });
+    expect(job?.raw_json.fetch).toMatchObject({ status: 200, ok: true, not_modified: false });
+    expect(server.misses).toEqual([]);
+  });
+});
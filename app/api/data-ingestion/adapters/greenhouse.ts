@@ -1,6 +1,7 @@
 import { z } from "zod";
-import type { AdapterJob } from "./types";
-import { fetchWithRetry, sha1Hex } from "./util";
+import type { AdapterJob, AtsAdapterDefinition, BoardPosting, FetchMeta } from "./types";
+import { fetchWithRetry, hostOf, parseGreenhouseEmbedUrl, parseGreenhouseTenantAndJob, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
 import { extractGhFeaturesFromMetadata, extractSalaryFromText, type GHCanon } from "@/lib/normalizers/greenhouse";
 
 /** Some tenants put placeholder text in requisition_id. Normalize to null. */
@@ -57,32 +58,16 @@ const ZGreenhouseJob = z
   })
   .catchall(z.unknown());
 
-export async function greenhouseAdapter(
+/**
+ * Normalize one Greenhouse job payload (from the single-job or board endpoint) into an
+ * AdapterJob. `fetchMeta` describes the HTTP call the payload came from.
+ */
+export function normalizeGreenhouseJob(
   tenant_slug: string,
-  external_job_id: string
-): Promise<AdapterJob | null> {
-  const url = `https://boards-api.greenhouse.io/v1/boards/${tenant_slug}/jobs/${external_job_id}`;
-
-  const started = new Date();
-  const res = await fetchWithRetry(
-    url,
-    {
-      headers: {
-        "User-Agent": "jobbusters/0.1 (+https://example.com)",
-        Accept: "application/json",
-      },
-    },
-    {
-      retries: 2,
-      baseDelayMs: 300,
-      timeoutMs: 12_000,
-    }
-  );
-  const finished = new Date();
-
-  if (!res.ok) return null;
-
-  const payloadUnknown: unknown = await res.json();
+  external_job_id: string,
+  payloadUnknown: unknown,
+  fetchMeta: FetchMeta
+): AdapterJob {
   const parsed = ZGreenhouseJob.safeParse(payloadUnknown);
 
   // If parse fails, preserve raw_json, but be defensive pulling fields
@@ -108,14 +93,14 @@ if (!contentHtml) {
     external_job_id: String(p.id ?? external_job_id),
 
     title: p.title ?? "",
-    company_name: p.company_name ?? tenant_slug,
+    company_name: p.company_name || tenant_slug, // schema defaults a missing name to ""
     location: p.location?.name ?? "",
     absolute_url:
       p.absolute_url ??
       `https://boards.greenhouse.io/${tenant_slug}/jobs/${external_job_id}`,
 
     first_published: p.first_published ?? p.updated_at ?? null,
-    updated_at: p.updated_at ?? finished.toISOString(),
+    updated_at: p.updated_at ?? fetchMeta.finished_at,
 
     requisition_id: isPlaceholderReqId(p.requisition_id) ? null : (p.requisition_id ?? null),
 
@@ -134,13 +119,7 @@ if (!contentHtml) {
         provenance: "api",
       },
 
-      fetch: {
-        status: res.status,
-        ok: res.ok,
-        started_at: started.toISOString(),
-        finished_at: finished.toISOString(),
-        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
-      },
+      fetch: fetchMeta,
 
       content_metrics: {
         length_bytes: buf.byteLength,
@@ -184,3 +163,152 @@ if (!contentHtml) {
 
   return normalized;
 }
+
+export async function greenhouseAdapter(
+  tenant_slug: string,
+  external_job_id: string
+): Promise<AdapterJob | null> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${tenant_slug}/jobs/${external_job_id}`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, url);
+  if (!res.ok) return null;
+
+  const payloadUnknown: unknown = await res.json();
+
+  return normalizeGreenhouseJob(tenant_slug, external_job_id, payloadUnknown, {
+    status: res.status,
+    ok: res.ok,
+    started_at: started.toISOString(),
+    finished_at: finished.toISOString(),
+    elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+    not_modified: isRevalidatedResponse(res),
+  });
+}
+
+const ZGreenhouseBoard = z
+  .object({
+    jobs: z.array(z.unknown()).default([]),
+  })
+  .catchall(z.unknown());
+
+/**
+ * Every open job on a tenant's board, with content, in one call.
+ * Returns null when the board can't be fetched (unknown tenant, outage) so callers
+ * can tell "board unavailable" apart from "board is empty".
+ */
+export async function greenhouseBoardAdapter(tenant_slug: string): Promise<AdapterJob[] | null> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${tenant_slug}/jobs?content=true`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 30_000, // whole boards with content can run to several MB
+    }
+  );
+  const finished = new Date();
+
+  if (!res.ok) return null;
+
+  const board = ZGreenhouseBoard.safeParse(await res.json());
+  if (!board.success) return null;
+
+  const fetchMeta: FetchMeta = {
+    status: res.status,
+    ok: res.ok,
+    started_at: started.toISOString(),
+    finished_at: finished.toISOString(),
+    elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+    not_modified: isRevalidatedResponse(res),
+  };
+
+  const jobs: AdapterJob[] = [];
+  for (const payload of board.data.jobs) {
+    const id = (payload as { id?: unknown } | null)?.id;
+    if (typeof id !== "number" && typeof id !== "string") continue;
+    jobs.push(normalizeGreenhouseJob(tenant_slug, String(id), payload, fetchMeta));
+  }
+  return jobs;
+}
+
+/** Titles and links of every open job on a board (the listing without content). */
+export async function greenhouseBoardListing(tenant_slug: string): Promise<BoardPosting[] | null> {
+  const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(tenant_slug)}/jobs`;
+
+  try {
+    const res = await fetchWithRetry(
+      url,
+      {
+        headers: {
+          "User-Agent": "jobbusters/0.1 (+https://example.com)",
+          Accept: "application/json",
+        },
+      },
+      { retries: 1, baseDelayMs: 300, timeoutMs: 12_000 }
+    );
+    if (!res.ok) return null;
+
+    const board = ZGreenhouseBoard.safeParse(await res.json());
+    if (!board.success) return null;
+
+    return board.data.jobs.flatMap(payload => {
+      const p = ZGreenhouseJob.safeParse(payload);
+      if (!p.success) return [];
+      return [{
+        external_job_id: String(p.data.id),
+        title: p.data.title,
+        absolute_url: p.data.absolute_url ?? `https://boards.greenhouse.io/${tenant_slug}/jobs/${p.data.id}`,
+        location: p.data.location?.name ?? "",
+      }];
+    });
+  } catch (err) {
+    console.warn(`[greenhouseBoardListing] ${tenant_slug} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export const greenhouseDefinition: AtsAdapterDefinition = {
+  provider: "greenhouse",
+  displayName: "Greenhouse",
+  matches: url => {
+    const h = hostOf(url);
+    return (
+      h === "boards.greenhouse.io" ||
+      h.endsWith(".boards.greenhouse.io") ||
+      h === "job-boards.greenhouse.io" ||
+      h.endsWith(".job-boards.greenhouse.io")
+    );
+  },
+  parseKey: url => {
+    const parsed = parseGreenhouseTenantAndJob(url) ?? parseGreenhouseEmbedUrl(url);
+    return parsed ? { tenant_slug: parsed.tenant, external_job_id: parsed.jobId } : null;
+  },
+  fetchJob: (_url, key) => greenhouseAdapter(key.tenant_slug, key.external_job_id),
+  listBoard: greenhouseBoardListing,
+  capabilities: { persistable: true, hasUpdatedAt: true },
+};
@@ -0,0 +1,202 @@
+// Outbound politeness: every request to a third-party host waits its turn here, so
+// several users (or one batch) hitting the same careers site or ATS API share one budget
+// for that host instead of each backing off on its own.
+//
+// Per host: a concurrency cap, a token bucket for the request rate, robots.txt
+// Crawl-delay spacing, and a 429 circuit that, once a host tells us to slow down, holds
+// back every caller until it reopens. State lives in the server process; separate
+// instances each keep their own.
+
+export class HostRateLimitedError extends Error {
+  constructor(
+    public host: string,
+    public retryAfterMs: number
+  ) {
+    super(`${host} is rate limiting requests; try again in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'HostRateLimitedError';
+  }
+}
+
+type HostLimits = {
+  /** Requests in flight at once */
+  concurrency: number;
+  /** Sustained requests per second (token refill rate) */
+  ratePerSec: number;
+  /** Requests allowed back-to-back after an idle spell (bucket size) */
+  burst: number;
+};
+
+// Careers sites: a couple of requests at a time, about one a second
+const DEFAULT_LIMITS: HostLimits = { concurrency: 2, ratePerSec: 1, burst: 3 };
+
+// Public ATS APIs are built for crawler traffic, but a board crawl still shouldn't flood them
+const API_LIMITS: HostLimits = { concurrency: 4, ratePerSec: 5, burst: 10 };
+const HOST_LIMITS: Record<string, HostLimits> = {
+  "boards-api.greenhouse.io": API_LIMITS,
+  "api.lever.co": API_LIMITS,
+  "api.eu.lever.co": API_LIMITS,
+  "api.ashbyhq.com": API_LIMITS,
+  "api.smartrecruiters.com": API_LIMITS,
+};
+
+// 429 without Retry-After: hold the host for 30s, doubling per repeat, up to 10 minutes
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+// Callers wait out a circuit that reopens this soon; otherwise they fail fast
+const MAX_CIRCUIT_WAIT_MS = 5_000;
+// Idle host entries are dropped once there are this many
+const MAX_TRACKED_HOSTS = 500;
+
+type Waiter = { resolve: () => void; reject: (err: Error) => void };
+
+type HostState = {
+  limits: HostLimits;
+  active: number;
+  waiting: Waiter[];
+  tokens: number;
+  refilledAt: number;
+  /** robots.txt Crawl-delay: minimum gap between request starts */
+  crawlDelayMs: number;
+  nextStartAt: number;
+  /** 429 circuit: closed when openUntil has passed */
+  openUntil: number;
+  strikes: number;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+const hosts = new Map<string, HostState>();
+const crawlDelays = new Map<string, number>();
+
+function stateFor(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    if (hosts.size >= MAX_TRACKED_HOSTS) pruneIdleHosts();
+    const limits = HOST_LIMITS[host] ?? DEFAULT_LIMITS;
+    state = {
+      limits,
+      active: 0,
+      waiting: [],
+      tokens: limits.burst,
+      refilledAt: Date.now(),
+      crawlDelayMs: crawlDelays.get(host) ?? 0,
+      nextStartAt: 0,
+      openUntil: 0,
+      strikes: 0,
+      timer: null,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function pruneIdleHosts(): void {
+  const now = Date.now();
+  for (const [host, s] of hosts) {
+    if (s.active === 0 && s.waiting.length === 0 && s.openUntil <= now && s.nextStartAt <= now) hosts.delete(host);
+  }
+}
+
+function refill(s: HostState, now: number): void {
+  s.tokens = Math.min(s.limits.burst, s.tokens + ((now - s.refilledAt) / 1000) * s.limits.ratePerSec);
+  s.refilledAt = now;
+}
+
+function wakeLater(host: string, s: HostState, ms: number): void {
+  if (s.timer) return;
+  s.timer = setTimeout(() => {
+    s.timer = null;
+    pump(host);
+  }, Math.ceil(ms));
+}
+
+/** Start as many waiting requests as the host's limits allow right now. */
+function pump(host: string): void {
+  const s = hosts.get(host);
+  if (!s) return;
+  // With a Crawl-delay the site asked for one request at a time
+  const concurrency = s.crawlDelayMs > 0 ? 1 : s.limits.concurrency;
+
+  while (s.waiting.length > 0 && s.active < concurrency) {
+    const now = Date.now();
+
+    if (s.openUntil > now) {
+      const remaining = s.openUntil - now;
+      if (remaining > MAX_CIRCUIT_WAIT_MS) {
+        for (const w of s.waiting.splice(0)) w.reject(new HostRateLimitedError(host, remaining));
+        return;
+      }
+      wakeLater(host, s, remaining);
+      return;
+    }
+
+    refill(s, now);
+    const tokenWait = s.tokens >= 1 ? 0 : ((1 - s.tokens) / s.limits.ratePerSec) * 1000;
+    const blockedFor = Math.max(tokenWait, s.nextStartAt - now);
+    if (blockedFor > 0) {
+      wakeLater(host, s, blockedFor);
+      return;
+    }
+
+    s.tokens -= 1;
+    s.active++;
+    s.nextStartAt = s.crawlDelayMs > 0 ? now + s.crawlDelayMs : 0;
+    s.waiting.shift()!.resolve();
+  }
+}
+
+function parseRetryAfterMs(value: string | null): number | null {
+  if (!value) return null;
+  const sec = Number(value);
+  if (Number.isFinite(sec)) return Math.max(0, sec * 1000);
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/** Note a response: 429 opens the host's circuit, anything else below 400 resets it. */
+function record(host: string, s: HostState, res: Response): void {
+  if (res.status === 429) {
+    s.strikes++;
+    const backoff = Math.min(BASE_COOLDOWN_MS * 2 ** (s.strikes - 1), MAX_COOLDOWN_MS);
+    const retryAfter = parseRetryAfterMs(res.headers.get("retry-after"));
+    s.openUntil = Math.max(s.openUntil, Date.now() + Math.min(retryAfter ?? backoff, MAX_COOLDOWN_MS));
+    console.warn(`[hostScheduler] 429 from ${host}; holding requests for ${Math.round((s.openUntil - Date.now()) / 1000)}s`);
+  } else if (res.status < 400) {
+    s.strikes = 0;
+  }
+}
+
+/**
+ * robots.txt Crawl-delay for a host, in ms (0 clears it). Set by the robots fetcher
+ * whenever it parses a profile.
+ */
+export function setHostCrawlDelay(host: string, delayMs: number): void {
+  const key = host.toLowerCase();
+  if (delayMs > 0) crawlDelays.set(key, delayMs);
+  else crawlDelays.delete(key);
+  const s = hosts.get(key);
+  if (s) s.crawlDelayMs = Math.max(0, delayMs);
+}
+
+/**
+ * Run a request once the host has room for it. The slot is held until the response
+ * headers arrive (bodies are read afterwards). Throws HostRateLimitedError when the
+ * host's 429 circuit is open for longer than callers should wait.
+ */
+export async function scheduledFetch(url: URL, run: () => Promise<Response>): Promise<Response> {
+  const host = url.hostname.toLowerCase();
+  const s = stateFor(host);
+
+  await new Promise<void>((resolve, reject) => {
+    s.waiting.push({ resolve, reject });
+    pump(host);
+  });
+
+  try {
+    const res = await run();
+    record(host, s, res);
+    return res;
+  } finally {
+    s.active--;
+    pump(host);
+  }
+}
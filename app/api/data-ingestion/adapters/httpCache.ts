@@ -0,0 +1,119 @@
+// Conditional-request cache for fetchWithRetry. Responses that carry an ETag or
+// Last-Modified are kept per URL; the next GET sends If-None-Match / If-Modified-Since,
+// and a 304 is answered from the stored body instead of downloading it again.
+//
+// In-memory and per server process, bounded by total bytes and a one-day lifetime:
+// enough for re-analysis and recrawls within a day without a storage table.
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHE_BYTES = 64 * 1024 * 1024;
+// Bigger bodies (whole boards with content) aren't worth evicting everything else for
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+
+export type CachedResponse = {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+  status: number;
+  headers: [string, string][];
+  body: Buffer;
+  storedAt: number;
+};
+
+// Map iteration order is insertion order: re-inserting on use keeps the oldest first
+const entries = new Map<string, CachedResponse>();
+let totalBytes = 0;
+
+// Responses rebuilt from a 304, so callers can tell "unchanged" from a fresh 200
+const revalidated = new WeakSet<Response>();
+
+function evict(key: string): void {
+  const entry = entries.get(key);
+  if (!entry) return;
+  totalBytes -= entry.body.byteLength;
+  entries.delete(key);
+}
+
+/** Stored response for a URL, if it's still within its lifetime. */
+export function getCachedResponse(url: string): CachedResponse | null {
+  const entry = entries.get(url);
+  if (!entry) return null;
+  if (Date.now() - entry.storedAt > CACHE_TTL_MS) {
+    evict(url);
+    return null;
+  }
+  entries.delete(url);
+  entries.set(url, entry);
+  return entry;
+}
+
+/** Validators to send with a request for a URL we hold a copy of. */
+export function conditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+  return headers;
+}
+
+function toResponse(entry: CachedResponse, body: Buffer): Response {
+  const res = new Response(new Uint8Array(body), { status: entry.status, headers: entry.headers });
+  Object.defineProperty(res, "url", { value: entry.url });
+  return res;
+}
+
+/**
+ * Keep a 200 that has validators, returning an equivalent response (the original's
+ * body is read here). Responses without validators come back untouched.
+ */
+export async function storeResponse(key: string, res: Response): Promise<Response> {
+  const etag = res.headers.get("etag");
+  const lastModified = res.headers.get("last-modified");
+  const noStore = /no-store/i.test(res.headers.get("cache-control") ?? "");
+  if (res.status !== 200 || (!etag && !lastModified) || noStore) return res;
+
+  const body = Buffer.from(await res.arrayBuffer());
+  const entry: CachedResponse = {
+    url: res.url || key,
+    etag,
+    lastModified,
+    status: res.status,
+    headers: [...res.headers.entries()],
+    body,
+    storedAt: Date.now(),
+  };
+
+  if (body.byteLength <= MAX_ENTRY_BYTES) {
+    evict(key);
+    entries.set(key, entry);
+    totalBytes += body.byteLength;
+    while (totalBytes > MAX_CACHE_BYTES) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      evict(oldest);
+    }
+  }
+  return toResponse(entry, body);
+}
+
+/**
+ * Answer a 304 from the stored copy. The entry's lifetime restarts, and new
+ * validators sent with the 304 replace the old ones.
+ */
+export function reviveResponse(key: string, entry: CachedResponse, notModified: Response): Response {
+  entry.etag = notModified.headers.get("etag") ?? entry.etag;
+  entry.lastModified = notModified.headers.get("last-modified") ?? entry.lastModified;
+  entry.storedAt = Date.now();
+  if (!entries.has(key)) {
+    entries.set(key, entry);
+    totalBytes += entry.body.byteLength;
+  }
+
+  const res = toResponse(entry, entry.body);
+  revalidated.add(res);
+  return res;
+}
+
+/** Whether a response came from the cache after the server answered 304 Not Modified. */
+export function isRevalidatedResponse(res: Response): boolean {
+  return revalidated.has(res);
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import type { AdapterJob, AtsAdapterDefinition } from "./types";
+import { fetchWithRetry, findJsonLdJobPosting, hostOf, parseIcimsJobUrl, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { extractWebFeaturesFromJsonLd } from "@/lib/normalizers/web";
+import { extractSalaryFromText, type GHCanon } from "@/lib/normalizers/greenhouse";
+
+/**
+ * iCIMS has no public job API. Its iframe view (`?in_iframe=1`) is server-rendered
+ * and carries a schema.org JobPosting block, which is as structured as it gets.
+ */
+const ZIcimsJobPosting = z
+  .object({
+    title: z.string().default(""),
+    description: z.string().nullable().optional(), // HTML
+    datePosted: z.string().nullable().optional(),
+    dateModified: z.string().nullable().optional(),
+    validThrough: z.string().nullable().optional(),
+    employmentType: z.union([z.string(), z.array(z.string())]).nullable().optional(),
+    hiringOrganization: z
+      .object({ name: z.string().nullable().optional() })
+      .catchall(z.unknown())
+      .nullable()
+      .optional(),
+    identifier: z
+      .union([
+        z.object({ value: z.union([z.string(), z.number()]).optional() }).catchall(z.unknown()),
+        z.string(),
+      ])
+      .nullable()
+      .optional(),
+    jobLocation: z.unknown().optional(),
+  })
+  .catchall(z.unknown());
+
+type IcimsJobPosting = z.infer<typeof ZIcimsJobPosting>;
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: "Full-time",
+  PART_TIME: "Part-time",
+  CONTRACTOR: "Contract",
+  TEMPORARY: "Temporary",
+  INTERN: "Intern",
+};
+
+/** schema.org jobLocation may be one Place or an array; flatten to "City, Region, Country". */
+function formatJobLocation(raw: unknown): string {
+  const places = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const out: string[] = [];
+  for (const place of places) {
+    const addr = (place as { address?: Record<string, unknown> } | null)?.address;
+    if (!addr || typeof addr !== "object") continue;
+    const country = addr.addressCountry;
+    const parts = [
+      addr.addressLocality,
+      addr.addressRegion,
+      typeof country === "object" && country !== null ? (country as { name?: unknown }).name : country,
+    ].filter((v): v is string => typeof v === "string" && v.trim().length > 0);
+    if (parts.length > 0) out.push(parts.join(", "));
+  }
+  return out.join("; ");
+}
+
+function requisitionFrom(p: IcimsJobPosting): string | null {
+  if (!p.identifier) return null;
+  if (typeof p.identifier === "string") return p.identifier || null;
+  const v = p.identifier.value;
+  return v != null && String(v).trim() ? String(v) : null;
+}
+
+export async function icimsAdapter(
+  tenant_slug: string,
+  external_job_id: string
+): Promise<AdapterJob | null> {
+  const url = `https://${tenant_slug}.icims.com/jobs/${external_job_id}/job?in_iframe=1`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, url);
+  if (!res.ok) return null;
+
+  const html = await res.text();
+
+  // Without a JobPosting block the page is an error/search page, not a posting.
+  const jobPosting = findJsonLdJobPosting(html);
+  if (!jobPosting) return null;
+
+  const parsed = ZIcimsJobPosting.safeParse(jobPosting);
+  const p = parsed.success ? parsed.data : ({} as IcimsJobPosting);
+
+  const contentHtml = p.description ?? "";
+  const buf = Buffer.from(contentHtml, "utf8");
+
+  const absoluteUrl = `https://${tenant_slug}.icims.com/jobs/${external_job_id}/job`;
+
+  const normalized: AdapterJob = {
+    ats_provider: "icims",
+    tenant_slug,
+    external_job_id,
+
+    title: p.title ?? "",
+    company_name: p.hiringOrganization?.name ?? tenant_slug,
+    location: formatJobLocation(p.jobLocation),
+    absolute_url: absoluteUrl,
+
+    first_published: p.datePosted ?? null,
+    updated_at: p.dateModified ?? p.datePosted ?? finished.toISOString(),
+
+    requisition_id: requisitionFrom(p),
+
+    content: contentHtml || null,
+
+    raw_json: {
+      jsonld: [jobPosting],
+
+      canonical_candidate: {
+        ats: "icims",
+        tenant_slug,
+        external_job_id,
+        absolute_url: absoluteUrl,
+        provenance: "jsonld",
+      },
+
+      fetch: {
+        status: res.status,
+        ok: res.ok,
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
+      },
+
+      content_metrics: {
+        length_bytes: buf.byteLength,
+        sha1: sha1Hex(buf),
+      },
+
+      _ingest: { needsnlp: true },
+    },
+  };
+
+  // Salary from JSON-LD baseSalary first, then the description text
+  try {
+    const featuresWithSource: GHCanon = { ...extractWebFeaturesFromJsonLd(jobPosting) };
+
+    const employmentTypes = Array.isArray(p.employmentType) ? p.employmentType : p.employmentType ? [p.employmentType] : [];
+    const timeType = employmentTypes.map(t => EMPLOYMENT_TYPES[t.toUpperCase()]).find(Boolean);
+    if (timeType) featuresWithSource.time_type = timeType;
+
+    if (!featuresWithSource.salary_min && !featuresWithSource.salary_max && contentHtml) {
+      const contentFeatures: GHCanon = {};
+      extractSalaryFromText(contentHtml, contentFeatures);
+      if (contentFeatures.salary_min || contentFeatures.salary_max) {
+        Object.assign(featuresWithSource, contentFeatures);
+        featuresWithSource.salary_source = "content"; // Mark as ATS content source
+      }
+    }
+
+    normalized.features = featuresWithSource;
+  } catch (err) {
+    console.warn("Failed to extract iCIMS features:", err);
+    // Continue without features - NLP layer will handle fallback
+  }
+
+  return normalized;
+}
+
+export const icimsDefinition: AtsAdapterDefinition = {
+  provider: "icims",
+  displayName: "iCIMS",
+  matches: url => hostOf(url).endsWith(".icims.com"),
+  parseKey: url => {
+    const parsed = parseIcimsJobUrl(url);
+    return parsed ? { tenant_slug: parsed.portal, external_job_id: parsed.jobId } : null;
+  },
+  fetchJob: (_url, key) => icimsAdapter(key.tenant_slug, key.external_job_id),
+  capabilities: { persistable: true, hasUpdatedAt: true },
+};
@@ -0,0 +1,325 @@
+import { z } from "zod";
+import type { AdapterJob, AtsAdapterDefinition, BoardPosting } from "./types";
+import { decodeBasicEntities, fetchWithRetry, hostOf, parseLeverSiteAndPosting, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { extractSalaryFromText, finalizeSalary, type GHCanon } from "@/lib/normalizers/greenhouse";
+
+/** Lever hosts postings in two regions; EU tenants are only served by the EU API. */
+const LEVER_API_HOSTS = { global: "https://api.lever.co", eu: "https://api.eu.lever.co" } as const;
+type LeverRegion = keyof typeof LEVER_API_HOSTS;
+
+/** Region of a hosted job page: jobs.eu.lever.co postings live on the EU API. */
+const regionOfHost = (url: URL): LeverRegion => (hostOf(url) === "jobs.eu.lever.co" ? "eu" : "global");
+
+// Company names per site, read off hosted job pages (the postings API has none)
+const companyNames = new Map<string, string>();
+const MAX_COMPANY_NAMES = 1000;
+
+/** Zod schema for the Lever postings payload (keep permissive). */
+const ZLeverSalaryRange = z
+  .object({
+    currency: z.string().nullable().optional(),
+    interval: z.string().nullable().optional(), // e.g. "per-year-salary", "per-hour-wage"
+    min: z.number().nullable().optional(),
+    max: z.number().nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+const ZLeverList = z
+  .object({
+    text: z.string().default(""),
+    content: z.string().default(""),
+  })
+  .catchall(z.unknown());
+
+const ZLeverPosting = z
+  .object({
+    id: z.string(),
+    text: z.string().default(""),
+    createdAt: z.number().nullable().optional(), // epoch millis
+    updatedAt: z.number().nullable().optional(), // epoch millis, not sent by every tenant
+    categories: z
+      .object({
+        commitment: z.string().nullable().optional(),
+        department: z.string().nullable().optional(),
+        location: z.string().nullable().optional(),
+        team: z.string().nullable().optional(),
+        allLocations: z.array(z.string()).nullable().optional(),
+      })
+      .catchall(z.unknown())
+      .optional(),
+    description: z.string().nullable().optional(),
+    descriptionPlain: z.string().nullable().optional(),
+    lists: z.array(ZLeverList).nullable().optional(),
+    additional: z.string().nullable().optional(),
+    hostedUrl: z.string().url().optional(),
+    applyUrl: z.string().url().optional(),
+    workplaceType: z.string().nullable().optional(),
+    salaryRange: ZLeverSalaryRange.nullable().optional(),
+    salaryDescription: z.string().nullable().optional(),
+    salaryDescriptionPlain: z.string().nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+type LeverPosting = z.infer<typeof ZLeverPosting>;
+
+/** Map Lever's salary interval onto the hour/year periods the normalizers understand. */
+function compPeriodFromInterval(interval?: string | null): "hour" | "year" | null {
+  const s = (interval ?? "").toLowerCase();
+  if (s.includes("hour")) return "hour";
+  if (s.includes("year")) return "year";
+  return null;
+}
+
+/**
+ * Lever splits a posting into description + "lists" (Requirements, Responsibilities, ...)
+ * + closing text. Stitch them back together so NLP sees the whole posting.
+ */
+function buildLeverContent(p: LeverPosting): string {
+  const parts: string[] = [];
+  if (p.description) parts.push(p.description);
+  for (const list of p.lists ?? []) {
+    if (list.text) parts.push(`<h3>${list.text}</h3>`);
+    if (list.content) parts.push(`<ul>${list.content}</ul>`);
+  }
+  if (p.additional) parts.push(p.additional);
+  if (p.salaryDescription) parts.push(p.salaryDescription);
+  return parts.join("\n");
+}
+
+/** Structured features from Lever's categories + salaryRange. */
+function extractLeverFeatures(p: LeverPosting): GHCanon {
+  const features: GHCanon = {};
+
+  const range = p.salaryRange;
+  if (range && (typeof range.min === "number" || typeof range.max === "number")) {
+    if (typeof range.min === "number") features.salary_min = range.min;
+    if (typeof range.max === "number") features.salary_max = range.max;
+    if (range.currency) features.currency = range.currency.toUpperCase();
+    const period = compPeriodFromInterval(range.interval);
+    if (period) features.comp_period = period;
+    features.salary_source = "metadata";
+  }
+
+  if (p.categories?.commitment) features.time_type = p.categories.commitment;
+  if (p.categories?.department || p.categories?.team) {
+    features.department = p.categories.department ?? p.categories.team ?? null;
+  }
+
+  finalizeSalary(features);
+  return features;
+}
+
+/**
+ * Company name for a Lever site. Hosted job pages are titled "{Company} - {Posting title}";
+ * the name is cached per site, and null when the page can't be read.
+ */
+async function leverCompanyName(site: string, hostedUrl: string, postingTitle: string): Promise<string | null> {
+  const cached = companyNames.get(site);
+  if (cached) return cached;
+
+  try {
+    const res = await fetchWithRetry(
+      hostedUrl,
+      {
+        headers: {
+          "User-Agent": "jobbusters/0.1 (+https://example.com)",
+          Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+        },
+      },
+      { retries: 1, baseDelayMs: 300, timeoutMs: 8_000 }
+    );
+    if (!res.ok) {
+      await res.body?.cancel();
+      return null;
+    }
+    const raw = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(await res.text())?.[1] ?? "";
+    const title = decodeBasicEntities(raw).replace(/\s+/g, " ").trim();
+    const suffix = ` - ${postingTitle.trim()}`;
+    if (!postingTitle.trim() || !title.endsWith(suffix)) return null;
+    const name = title.slice(0, -suffix.length).trim();
+    if (!name) return null;
+
+    if (companyNames.size >= MAX_COMPANY_NAMES) companyNames.clear();
+    companyNames.set(site, name);
+    return name;
+  } catch (err) {
+    console.warn(`[leverCompanyName] ${site} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export async function leverAdapter(
+  tenant_slug: string,
+  external_job_id: string,
+  region: LeverRegion = "global"
+): Promise<AdapterJob | null> {
+  const started = new Date();
+
+  const url = `${LEVER_API_HOSTS[region]}/v0/postings/${tenant_slug}/${external_job_id}?mode=json`;
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, url);
+  if (!res.ok) return null;
+
+  const payloadUnknown: unknown = await res.json();
+  const parsed = ZLeverPosting.safeParse(payloadUnknown);
+
+  // If parse fails, preserve raw_json, but be defensive pulling fields
+  const p = parsed.success ? parsed.data : ({} as LeverPosting);
+
+  const contentHtml = buildLeverContent(p);
+  const buf = Buffer.from(contentHtml, "utf8");
+
+  const absoluteUrl = p.hostedUrl ?? `https://jobs.lever.co/${tenant_slug}/${external_job_id}`;
+  const epochToIso = (ms?: number | null) =>
+    typeof ms === "number" && Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+  const createdAt = epochToIso(p.createdAt);
+  const updatedAt = epochToIso(p.updatedAt);
+  const companyName = await leverCompanyName(tenant_slug, absoluteUrl, p.text ?? "");
+
+  const normalized: AdapterJob = {
+    ats_provider: "lever",
+    tenant_slug,
+    external_job_id: p.id ?? external_job_id,
+
+    title: p.text ?? "",
+    // The postings API doesn't carry the company name; the hosted page's title does
+    company_name: companyName ?? tenant_slug,
+    location: p.categories?.location ?? "",
+    absolute_url: absoluteUrl,
+
+    first_published: createdAt,
+    // updatedAt when the tenant sends it; otherwise fetch time stands in (capabilities
+    // keep it out of job_updates). createdAt would pass an old posting off as fresh.
+    updated_at: updatedAt ?? finished.toISOString(),
+
+    requisition_id: null,
+
+    content: contentHtml || null,
+
+    raw_json: {
+      ...(payloadUnknown as object),
+
+      canonical_candidate: {
+        ats: "lever",
+        tenant_slug,
+        external_job_id: p.id ?? external_job_id,
+        absolute_url: absoluteUrl,
+        provenance: "api",
+      },
+
+      fetch: {
+        status: res.status,
+        ok: res.ok,
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
+      },
+
+      content_metrics: {
+        length_bytes: buf.byteLength,
+        sha1: sha1Hex(buf),
+      },
+
+      _ingest: { needsnlp: true },
+    },
+  };
+
+  // Extract features from Lever's structured fields
+  try {
+    const featuresWithSource = extractLeverFeatures(p);
+
+    // If no structured salary, fall back to the salary description / posting text
+    if (!featuresWithSource.salary_min && !featuresWithSource.salary_max) {
+      const salaryText = p.salaryDescriptionPlain || p.salaryDescription || contentHtml;
+      if (salaryText) {
+        const contentFeatures: GHCanon = {};
+        extractSalaryFromText(salaryText, contentFeatures);
+        if (contentFeatures.salary_min || contentFeatures.salary_max) {
+          Object.assign(featuresWithSource, contentFeatures);
+          featuresWithSource.salary_source = "content"; // Mark as ATS content source
+        }
+      }
+    }
+
+    normalized.features = featuresWithSource;
+  } catch (err) {
+    console.warn("Failed to extract Lever features:", err);
+    // Continue without features - NLP layer will handle fallback
+  }
+
+  return normalized;
+}
+
+/** Every open posting of a Lever site, from whichever region serves it. */
+export async function leverBoardListing(tenant_slug: string): Promise<BoardPosting[] | null> {
+  try {
+    // Only the slug is known here (no hosted URL to read the region from): try both
+    for (const host of Object.values(LEVER_API_HOSTS)) {
+      const res = await fetchWithRetry(
+        `${host}/v0/postings/${encodeURIComponent(tenant_slug)}?mode=json`,
+        {
+          headers: {
+            "User-Agent": "jobbusters/0.1 (+https://example.com)",
+            Accept: "application/json",
+          },
+        },
+        { retries: 1, baseDelayMs: 300, timeoutMs: 12_000 }
+      );
+      if (res.status === 404) continue;
+      if (!res.ok) return null;
+
+      const list = z.array(z.unknown()).safeParse(await res.json());
+      if (!list.success) return null;
+
+      return list.data.flatMap(payload => {
+        const p = ZLeverPosting.safeParse(payload);
+        if (!p.success) return [];
+        return [{
+          external_job_id: p.data.id,
+          title: p.data.text,
+          absolute_url: p.data.hostedUrl ?? `https://jobs.lever.co/${tenant_slug}/${p.data.id}`,
+          location: p.data.categories?.location ?? "",
+        }];
+      });
+    }
+    return null;
+  } catch (err) {
+    console.warn(`[leverBoardListing] ${tenant_slug} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export const leverDefinition: AtsAdapterDefinition = {
+  provider: "lever",
+  displayName: "Lever",
+  // Hosted job pages, global or EU region.
+  matches: url => {
+    const h = hostOf(url);
+    return h === "jobs.lever.co" || h === "jobs.eu.lever.co";
+  },
+  parseKey: url => {
+    const parsed = parseLeverSiteAndPosting(url);
+    return parsed ? { tenant_slug: parsed.site, external_job_id: parsed.postingId } : null;
+  },
+  fetchJob: (url, key) => leverAdapter(key.tenant_slug, key.external_job_id, regionOfHost(url)),
+  listBoard: leverBoardListing,
+  // updatedAt is optional in the API, so updated_at is often a stand-in, see above
+  capabilities: { persistable: true, hasUpdatedAt: false },
+};
@@ -0,0 +1,241 @@
+import { z } from "zod";
+import type { AdapterJob, AtsAdapterDefinition, BoardPosting } from "./types";
+import { fetchWithRetry, hostOf, parseSmartRecruitersJobUrl, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { extractSalaryFromText, type GHCanon } from "@/lib/normalizers/greenhouse";
+
+/** Zod schema for the SmartRecruiters posting API payload (keep permissive). */
+const ZSRSection = z
+  .object({
+    title: z.string().nullable().optional(),
+    text: z.string().nullable().optional(), // HTML
+  })
+  .catchall(z.unknown());
+
+const ZSRPosting = z
+  .object({
+    id: z.string(),
+    name: z.string().default(""),
+    refNumber: z.string().nullable().optional(),
+    releasedDate: z.string().nullable().optional(),
+    company: z
+      .object({
+        identifier: z.string().optional(),
+        name: z.string().nullable().optional(),
+      })
+      .catchall(z.unknown())
+      .optional(),
+    location: z
+      .object({
+        city: z.string().nullable().optional(),
+        region: z.string().nullable().optional(),
+        country: z.string().nullable().optional(),
+        remote: z.boolean().nullable().optional(),
+        fullLocation: z.string().nullable().optional(),
+      })
+      .catchall(z.unknown())
+      .optional(),
+    department: z.object({ label: z.string().nullable().optional() }).catchall(z.unknown()).nullable().optional(),
+    typeOfEmployment: z.object({ label: z.string().nullable().optional() }).catchall(z.unknown()).nullable().optional(),
+    jobAd: z
+      .object({
+        sections: z.record(z.string(), ZSRSection).optional(),
+      })
+      .catchall(z.unknown())
+      .optional(),
+    postingUrl: z.string().url().optional(),
+  })
+  .catchall(z.unknown());
+
+type SRPosting = z.infer<typeof ZSRPosting>;
+
+/** Job ad sections in display order. */
+const SECTION_ORDER = ["companyDescription", "jobDescription", "qualifications", "additionalInformation"];
+
+function buildSmartRecruitersContent(p: SRPosting): string {
+  const sections = p.jobAd?.sections ?? {};
+  const parts: string[] = [];
+  for (const key of SECTION_ORDER) {
+    const sec = sections[key];
+    if (!sec?.text) continue;
+    if (sec.title) parts.push(`<h3>${sec.title}</h3>`);
+    parts.push(sec.text);
+  }
+  return parts.join("\n");
+}
+
+function formatLocation(loc: SRPosting["location"]): string {
+  if (!loc) return "";
+  if (loc.fullLocation) return loc.fullLocation;
+  const parts = [loc.city, loc.region, loc.country?.toUpperCase()].filter(Boolean);
+  if (parts.length === 0 && loc.remote) return "Remote";
+  return parts.join(", ");
+}
+
+export async function smartRecruitersAdapter(
+  tenant_slug: string,
+  external_job_id: string
+): Promise<AdapterJob | null> {
+  const url = `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(tenant_slug)}/postings/${external_job_id}`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, url);
+  if (!res.ok) return null;
+
+  const payloadUnknown: unknown = await res.json();
+  const parsed = ZSRPosting.safeParse(payloadUnknown);
+
+  // If parse fails, preserve raw_json, but be defensive pulling fields
+  const p = parsed.success ? parsed.data : ({} as SRPosting);
+
+  const contentHtml = buildSmartRecruitersContent(p);
+  const buf = Buffer.from(contentHtml, "utf8");
+
+  // Key on the identifier exactly as the API reports it so the composite key is stable
+  // regardless of how the user-pasted URL was cased.
+  const company = p.company?.identifier ?? tenant_slug;
+  const jobId = p.id ?? external_job_id;
+  const absoluteUrl = p.postingUrl ?? `https://jobs.smartrecruiters.com/${company}/${jobId}`;
+
+  const normalized: AdapterJob = {
+    ats_provider: "smartrecruiters",
+    tenant_slug: company,
+    external_job_id: jobId,
+
+    title: p.name ?? "",
+    company_name: p.company?.name ?? company,
+    location: formatLocation(p.location),
+    absolute_url: absoluteUrl,
+
+    first_published: p.releasedDate ?? null,
+    // No separate "last updated" field; releasedDate moves when a posting is re-released.
+    updated_at: p.releasedDate ?? finished.toISOString(),
+
+    requisition_id: p.refNumber ?? null,
+
+    content: contentHtml || null,
+
+    raw_json: {
+      ...(payloadUnknown as object),
+
+      canonical_candidate: {
+        ats: "smartrecruiters",
+        tenant_slug: company,
+        external_job_id: jobId,
+        absolute_url: absoluteUrl,
+        provenance: "api",
+      },
+
+      fetch: {
+        status: res.status,
+        ok: res.ok,
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
+      },
+
+      content_metrics: {
+        length_bytes: buf.byteLength,
+        sha1: sha1Hex(buf),
+      },
+
+      _ingest: { needsnlp: true },
+    },
+  };
+
+  // SmartRecruiters has structured employment type/department but no pay fields.
+  try {
+    const featuresWithSource: GHCanon = {};
+    if (p.typeOfEmployment?.label) featuresWithSource.time_type = p.typeOfEmployment.label;
+    if (p.department?.label) featuresWithSource.department = p.department.label;
+
+    if (contentHtml) {
+      extractSalaryFromText(contentHtml, featuresWithSource);
+      if (featuresWithSource.salary_min || featuresWithSource.salary_max) {
+        featuresWithSource.salary_source = "content"; // Mark as ATS content source
+      }
+    }
+
+    normalized.features = featuresWithSource;
+  } catch (err) {
+    console.warn("Failed to extract SmartRecruiters features:", err);
+    // Continue without features - NLP layer will handle fallback
+  }
+
+  return normalized;
+}
+
+const ZSRPostingList = z
+  .object({
+    content: z.array(z.unknown()).default([]),
+  })
+  .catchall(z.unknown());
+
+/** First page (up to 100) of a company's open postings. */
+export async function smartRecruitersBoardListing(tenant_slug: string): Promise<BoardPosting[] | null> {
+  const url = `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(tenant_slug)}/postings?limit=100`;
+
+  try {
+    const res = await fetchWithRetry(
+      url,
+      {
+        headers: {
+          "User-Agent": "jobbusters/0.1 (+https://example.com)",
+          Accept: "application/json",
+        },
+      },
+      { retries: 1, baseDelayMs: 300, timeoutMs: 12_000 }
+    );
+    if (!res.ok) return null;
+
+    const list = ZSRPostingList.safeParse(await res.json());
+    if (!list.success) return null;
+
+    return list.data.content.flatMap(payload => {
+      const p = ZSRPosting.safeParse(payload);
+      if (!p.success) return [];
+      return [{
+        external_job_id: p.data.id,
+        title: p.data.name,
+        absolute_url: p.data.postingUrl ?? `https://jobs.smartrecruiters.com/${tenant_slug}/${p.data.id}`,
+        location: formatLocation(p.data.location),
+      }];
+    });
+  } catch (err) {
+    console.warn(`[smartRecruitersBoardListing] ${tenant_slug} failed:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export const smartRecruitersDefinition: AtsAdapterDefinition = {
+  provider: "smartrecruiters",
+  displayName: "SmartRecruiters",
+  matches: url => {
+    const h = hostOf(url);
+    return h === "jobs.smartrecruiters.com" || h === "careers.smartrecruiters.com";
+  },
+  parseKey: url => {
+    const parsed = parseSmartRecruitersJobUrl(url);
+    return parsed ? { tenant_slug: parsed.company, external_job_id: parsed.postingId } : null;
+  },
+  fetchJob: (_url, key) => smartRecruitersAdapter(key.tenant_slug, key.external_job_id),
+  listBoard: smartRecruitersBoardListing,
+  capabilities: { persistable: true, hasUpdatedAt: true },
+};
@@ -1,10 +1,18 @@
-export type AtsProvider = "greenhouse" | "web";
+export type AtsProvider =
+  | "greenhouse"
+  | "lever"
+  | "ashby"
+  | "workday"
+  | "smartrecruiters"
+  | "icims"
+  | "web";
 
 export type Provenance =
   | "api"      // fetched from a provider API
   | "jsonld"   // parsed from JSON-LD on a web page
   | "text_only"// parsed only from visible text/HTML
-  | "mixed";   // combined/multiple sources
+  | "mixed"    // combined/multiple sources
+  | "document";// extracted from an uploaded PDF/DOCX file
 
 export type CanonicalCandidate = {
   ats: AtsProvider;
@@ -20,6 +28,8 @@ export type FetchMeta = {
   started_at: string;  
   finished_at: string; 
   elapsed_ms: number;
+  /** Server answered 304 and the body is our cached copy (see httpCache.ts) */
+  not_modified?: boolean;
 };
 
 export type ContentMetrics = {
@@ -76,13 +86,95 @@ export type AdapterJob = {
   features?: Record<string, unknown>;
 };
 
+/** ATS providers that have a dedicated adapter (everything except the generic web path). */
+export type AtsAdapterProvider = Exclude<AtsProvider, "web">;
+
+/** Composite key pieces an ATS adapter can read off a job URL without fetching it. */
+export type AtsJobKey = {
+  tenant_slug: string;
+  external_job_id: string;
+};
+
+export type AdapterCapabilities = {
+  /** Jobs have a stable composite key and are cached/persisted in the DB. */
+  persistable: boolean;
+  /**
+   * The provider reports a real "last updated" timestamp. When false, `updated_at`
+   * is a stand-in (posted date) and must not feed job_updates / update cadence.
+   */
+  hasUpdatedAt: boolean;
+};
+
+/** One open posting as listed on a tenant's board (no content). */
+export type BoardPosting = {
+  external_job_id: string;
+  title: string;
+  absolute_url: string;
+  location: string;
+};
+
+/**
+ * One entry in the adapter registry. The scraper picks the first definition whose
+ * `matches` accepts the URL and whose `parseKey` resolves a key, then calls `fetchJob`.
+ */
+export type AtsAdapterDefinition = {
+  provider: AtsAdapterProvider;
+  /** Human-readable name, e.g. for progress messages ("Fetched from Greenhouse"). */
+  displayName: string;
+  /** Cheap host-level check, e.g. "is this a jobs.lever.co URL". */
+  matches: (url: URL) => boolean;
+  /** Resolve tenant + job ID from the URL; null for board indexes/unknown paths. */
+  parseKey: (url: URL) => AtsJobKey | null;
+  /**
+   * Null when the job couldn't be fetched (outage, rate limit, unreadable payload);
+   * throws JobNotFoundError when the provider says it's gone.
+   */
+  fetchJob: (url: URL, key: AtsJobKey) => Promise<AdapterJob | null>;
+  /**
+   * Every open posting on a tenant's board, for finding a job seen elsewhere (e.g. on
+   * an aggregator). Null when the board can't be fetched; absent when the provider
+   * has no public board listing.
+   */
+  listBoard?: (tenant_slug: string) => Promise<BoardPosting[] | null>;
+  capabilities: AdapterCapabilities;
+};
+
 /** Concrete adapter function types */
 export type GreenhouseAdapter = (
   tenant_slug: string,
   external_job_id: string
 ) => Promise<AdapterJob | null>;
 
+export type LeverAdapter = (
+  tenant_slug: string,
+  external_job_id: string
+) => Promise<AdapterJob | null>;
+
+export type AshbyAdapter = (
+  tenant_slug: string,
+  external_job_id: string
+) => Promise<AdapterJob | null>;
+
+export type WorkdayAdapter = (url: string) => Promise<AdapterJob | null>;
+
+export type SmartRecruitersAdapter = (
+  tenant_slug: string,
+  external_job_id: string
+) => Promise<AdapterJob | null>;
+
+export type IcimsAdapter = (
+  tenant_slug: string,
+  external_job_id: string
+) => Promise<AdapterJob | null>;
+
 export type WebAdapter = (url: string) => Promise<AdapterJob | null>;
 
 /** Single “Adapter” union: */
-export type Adapter = GreenhouseAdapter | WebAdapter;
+export type Adapter =
+  | GreenhouseAdapter
+  | LeverAdapter
+  | AshbyAdapter
+  | WorkdayAdapter
+  | SmartRecruitersAdapter
+  | IcimsAdapter
+  | WebAdapter;
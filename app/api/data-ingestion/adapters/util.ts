@@ -1,4 +1,7 @@
 import crypto from "crypto";
+import { FetchGuardError, guardedFetch, type GuardOptions } from "./fetchGuard";
+import { HostRateLimitedError, scheduledFetch } from "./hostScheduler";
+import { conditionalHeaders, getCachedResponse, reviveResponse, storeResponse } from "./httpCache";
 
 export function sha1Hex(buf: Buffer | string): string {
   return crypto.createHash("sha1").update(buf).digest("hex");
@@ -13,12 +16,14 @@ export async function fetchWithRetry(
     userAgent = "JobBusters/0.1 (+contact@example.com)", // placeholder
     timeoutMs = 15_000,              
     maxBackoffMs = 10_000,           
+    guard = {},                      // body size / content-type limits (see fetchGuard.ts)
   }: {
     retries?: number;
     baseDelayMs?: number;
     userAgent?: string;
     timeoutMs?: number;
     maxBackoffMs?: number;
+    guard?: GuardOptions;
   } = {}
 ): Promise<Response> {
   // Normalize headers once; copy them per attempt so caller input doesn't mutate.
@@ -26,6 +31,11 @@ export async function fetchWithRetry(
   if (!baseHeaders.has("User-Agent")) baseHeaders.set("User-Agent", userAgent);
   if (!baseHeaders.has("Accept")) baseHeaders.set("Accept", "application/json,text/html;q=0.9,*/*;q=0.8");
 
+  // Plain GETs revalidate against the HTTP cache (see httpCache.ts) unless the caller
+  // sent its own validators
+  const method = (opts.method ?? "GET").toUpperCase();
+  const cacheable = method === "GET" && !baseHeaders.has("If-None-Match") && !baseHeaders.has("If-Modified-Since");
+
   // If caller passed a signal, race it with per-attempt timeout signals.
   const callerSignal: AbortSignal | null | undefined = opts.signal;
 
@@ -98,8 +108,13 @@ export async function fetchWithRetry(
     try {
       // Fresh headers object each attempt
       const headers = new Headers(baseHeaders);
+      const cached = cacheable ? getCachedResponse(url) : null;
+      if (cached) {
+        for (const [name, value] of Object.entries(conditionalHeaders(cached))) headers.set(name, value);
+      }
 
-      const res = await fetch(url, { ...opts, headers, signal });
+      // Waits for the host's turn (rate, Crawl-delay, 429 circuit), then SSRF checks every hop
+      const res = await scheduledFetch(new URL(url), () => guardedFetch(url, { ...opts, headers, signal }, guard));
 
       // Retry on 429 and 5xx (transient errors)
       const shouldRetry =
@@ -116,11 +131,23 @@ export async function fetchWithRetry(
         continue;
       }
 
+      // 304: unchanged since we stored it, so answer from the stored body
+      if (cached && res.status === 304) {
+        clearTimeout(timeoutId);
+        return reviveResponse(url, cached, res);
+      }
+
+      // Stored bodies are read here, while the attempt's timeout still applies
+      const out = cacheable ? await storeResponse(url, res) : res;
       clearTimeout(timeoutId);
-      return res;
+      return out;
     } catch (err: unknown) {
       clearTimeout(timeoutId);
 
+      // Blocked address, oversized body, wrong content type: retrying won't change it
+      // Same for a host that's rate limiting everyone
+      if (err instanceof FetchGuardError || err instanceof HostRateLimitedError) throw err;
+
       if (callerSignal?.aborted) {
         throw new Error("Request was cancelled");
       }
@@ -142,6 +169,27 @@ export async function fetchWithRetry(
   throw new Error("An unexpected error occurred. Please try again.");
 }
 
+/**
+ * The source says the posting is gone: a 404/410, or a board listing that answered
+ * without it. Adapters return null for every other failure (outage, 429, bad payload),
+ * which must not be taken as the job closing.
+ */
+export class JobNotFoundError extends Error {
+  constructor(
+    public url: string,
+    /** HTTP status that said so (200 for a board that no longer lists the posting) */
+    public status: number
+  ) {
+    super(`This job posting no longer exists (${url} answered ${status}).`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+/** Throw JobNotFoundError when the URL a posting is fetched from answers 404 or 410. */
+export function throwIfGone(res: Response, url: string): void {
+  if (res.status === 404 || res.status === 410) throw new JobNotFoundError(url, res.status);
+}
+
 export function isFiniteNumber(n: unknown): n is number {
   return typeof n === "number" && Number.isFinite(n);
 }
@@ -209,10 +257,11 @@ export function extractSalaryFromTextCore(text: string): {
   const s = String(text);
 
   // Priority 1: Annual salary ranges with "per year" context (most reliable)
-  const annualRange = /\$?\s?(\d{1,3}(?:,\d{3})*)\s*(?:-|–|&mdash;|to)\s*\$?\s?(\d{1,3}(?:,\d{3})*)\s*(?:per\s+year|annually|annual)/i;
+  const annualRange = /\$?\s?(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?)\s*(?:-|–|&mdash;|to)\s*\$?\s?(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?)\s*(?:per\s+year|annually|annual)/i;
   
   // Priority 2: General salary ranges (6-digit numbers, likely annual)
-  const dollarsRange = /\$?\s?(\d{1,3}(?:,\d{3})*)\s*(?:-|–|&mdash;|to)\s*\$?\s?(\d{1,3}(?:,\d{3})*)/i;
+  // (cents are part of the number: "$24.50 - $31.75" must not read as 50 to 31)
+  const dollarsRange = /\$?\s?(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?)\s*(?:-|–|&mdash;|to)\s*\$?\s?(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?)/i;
   
   // Priority 3: "170k - 250k" format
   const kRange = /\$?\s?(\d{1,3})\s*k\s*(?:-|–|to)\s*\$?\s?(\d{1,3})\s*k/i;
@@ -288,6 +337,11 @@ export function extractSalaryFromTextCore(text: string): {
   };
 }
 
+/** Normalize to lowercase host (strip a trailing dot if any). */
+export function hostOf(u: URL): string {
+  return u.hostname.toLowerCase().replace(/\.$/, "");
+}
+
 /**
  * Parse tenant + job ID from common Greenhouse board URL forms:
  *   - /{tenant}/jobs/{jobId}
@@ -300,3 +354,221 @@ export function parseGreenhouseTenantAndJob(url: URL): { tenant: string; jobId:
   return { tenant: m[1], jobId: m[2] };
 }
 
+/**
+ * Parse tenant + job ID from the Greenhouse embed URL used inside company iframes:
+ *   - /embed/job_app?for={tenant}&token={jobId}
+ * Returns null if not matched.
+ */
+export function parseGreenhouseEmbedUrl(url: URL): { tenant: string; jobId: string } | null {
+  if (!/^\/embed\/job_app\/?$/.test(url.pathname)) return null;
+  const tenant = url.searchParams.get("for");
+  const jobId = url.searchParams.get("token");
+  if (!tenant || !jobId || !/^\d+$/.test(jobId)) return null;
+  return { tenant, jobId };
+}
+
+/**
+ * Find a Greenhouse job embedded in a company career page:
+ *   1) a job_app iframe/link, which names both tenant and job
+ *   2) a `gh_jid` query param on the page URL, with the tenant taken from the
+ *      embedded board script (`embed/job_board/js?for=...`) or board API/links
+ * `pageUrl` should be the final URL after redirects (e.g. from a grnh.se short link).
+ * Returns null if the page doesn't look like an embedded Greenhouse job.
+ */
+export function findEmbeddedGreenhouseJob(
+  html: string,
+  pageUrl: URL
+): { tenant: string; jobId: string } | null {
+  // Attribute values are HTML-escaped, so "&" usually shows up as "&amp;"
+  const src = html.replace(/&amp;/gi, "&");
+
+  const appMatch = src.match(
+    /(?:job-)?boards(?:\.[a-z]+)?\.greenhouse\.io\/embed\/job_app\?[^"'\s<>]*/i
+  );
+  if (appMatch) {
+    try {
+      const embedded = parseGreenhouseEmbedUrl(new URL(`https://${appMatch[0]}`));
+      if (embedded) return embedded;
+    } catch {
+      // malformed URL in markup: keep looking
+    }
+  }
+
+  const jobId = pageUrl.searchParams.get("gh_jid");
+  if (!jobId || !/^\d+$/.test(jobId)) return null;
+
+  const tenantPatterns = [
+    /greenhouse\.io\/embed\/job_board(?:\/js)?\?(?:[^"'\s<>]*&)?for=([A-Za-z0-9_-]+)/i,
+    /boards-api\.greenhouse\.io\/v1\/boards\/([A-Za-z0-9_-]+)/i,
+    /(?:job-)?boards\.greenhouse\.io\/(?!embed\/)([A-Za-z0-9_-]+)\/jobs\//i,
+  ];
+  for (const re of tenantPatterns) {
+    const m = src.match(re);
+    if (m) return { tenant: m[1], jobId };
+  }
+  return null;
+}
+
+
+/**
+ * Parse site + posting ID from Lever hosted job URLs:
+ *   - /{site}/{postingId}
+ *   - /{site}/{postingId}/apply (extra segments ok)
+ * Posting IDs are UUIDs. Returns null if not matched.
+ */
+export function parseLeverSiteAndPosting(url: URL): { site: string; postingId: string } | null {
+  const m = url.pathname.match(/^\/([^/]+)\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:\/|$)/i);
+  if (!m) return null;
+  return { site: m[1], postingId: m[2].toLowerCase() };
+}
+
+/**
+ * Parse board name + job ID from Ashby hosted job URLs:
+ *   - /{board}/{jobId}
+ *   - /{board}/{jobId}/application (extra segments ok)
+ * Job IDs are UUIDs. Returns null if not matched.
+ */
+export function parseAshbyBoardAndJob(url: URL): { board: string; jobId: string } | null {
+  const m = url.pathname.match(/^\/([^/]+)\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:\/|$)/i);
+  if (!m) return null;
+  return { board: decodeURIComponent(m[1]), jobId: m[2].toLowerCase() };
+}
+
+/**
+ * Parse a Workday career-site job URL into the parts its JSON (CXS) endpoint needs:
+ *   - https://{tenant}.wd{N}.myworkdayjobs.com/[{locale}/]{site}/job/{location}/{slug}_{reqId}
+ *   - https://{tenant}.wd{N}.myworkdayjobs.com/[{locale}/]{site}/details/{slug}_{reqId}
+ *   - https://wd{N}.myworkdaysite.com/[{locale}/]recruiting/{tenant}/{site}/job/...
+ * `externalPath` always starts with "/job/" (the form CXS expects).
+ * Returns null if not matched.
+ */
+export function parseWorkdayJobUrl(url: URL): {
+  host: string;
+  tenant: string;
+  site: string;
+  externalPath: string;
+  jobReqId: string;
+} | null {
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  // Optional locale prefix, e.g. "en-US"
+  if (segments.length > 0 && /^[a-z]{2}-[A-Z]{2}$/.test(segments[0])) segments.shift();
+
+  let tenant: string;
+  if (/^[^.]+\.wd\d+\.myworkdayjobs\.com$/.test(host)) {
+    tenant = host.split(".")[0];
+  } else if (/^wd\d+\.myworkdaysite\.com$/.test(host) && segments[0] === "recruiting" && segments.length > 1) {
+    tenant = segments[1];
+    segments.splice(0, 2);
+  } else {
+    return null;
+  }
+
+  const [site, kind, ...rest] = segments;
+  if (!site || (kind !== "job" && kind !== "details") || rest.length === 0) return null;
+
+  const last = rest[rest.length - 1];
+  const underscore = last.lastIndexOf("_");
+  if (underscore < 0 || underscore === last.length - 1) return null;
+
+  return {
+    host,
+    tenant,
+    site,
+    externalPath: `/job/${rest.join("/")}`,
+    jobReqId: last.slice(underscore + 1),
+  };
+}
+
+/** Tiny helper to decode a few common HTML entities in <script> contents. */
+export function decodeBasicEntities(s: string): string {
+  return s
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+/** Extract all <script type="application/ld+json">...</script> blocks. */
+export function extractJsonLdBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const re =
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html)) !== null) {
+    const raw = (m[1] ?? "").trim();
+    if (raw) blocks.push(raw);
+  }
+  return blocks;
+}
+
+/** Best-effort JSON parse with very light cleanup. Returns undefined if it can’t parse. */
+export function safeParseJsonLd(s: string): unknown | undefined {
+  try {
+    // Some sites HTML-escape the JSON text inside the script tag.
+    const de = decodeBasicEntities(s.trim());
+    return JSON.parse(de);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the first schema.org JobPosting in a page's JSON-LD.
+ * Handles top-level arrays and `@graph` wrappers; `@type` may be a string or array.
+ */
+export function findJsonLdJobPosting(html: string): Record<string, unknown> | null {
+  const isJobPosting = (u: unknown): u is Record<string, unknown> => {
+    if (!u || typeof u !== "object" || Array.isArray(u)) return false;
+    const t = (u as Record<string, unknown>)["@type"];
+    return t === "JobPosting" || (Array.isArray(t) && t.includes("JobPosting"));
+  };
+
+  const queue: unknown[] = extractJsonLdBlocks(html)
+    .map(safeParseJsonLd)
+    .filter((v): v is unknown => v !== undefined);
+
+  while (queue.length > 0) {
+    const item = queue.shift();
+    if (Array.isArray(item)) {
+      queue.push(...item);
+    } else if (isJobPosting(item)) {
+      return item;
+    } else if (item && typeof item === "object" && Array.isArray((item as Record<string, unknown>)["@graph"])) {
+      queue.push(...((item as Record<string, unknown>)["@graph"] as unknown[]));
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse company identifier + posting ID from SmartRecruiters job URLs:
+ *   - https://jobs.smartrecruiters.com/{Company}/{postingId}-{slug}
+ *   - https://careers.smartrecruiters.com/{Company}/{postingId}
+ * Posting IDs are numeric. Returns null if not matched.
+ */
+export function parseSmartRecruitersJobUrl(url: URL): { company: string; postingId: string } | null {
+  const h = url.hostname.toLowerCase();
+  if (h !== "jobs.smartrecruiters.com" && h !== "careers.smartrecruiters.com") return null;
+  const m = url.pathname.match(/^\/([^/]+)\/(\d{6,})(?:-[^/]*)?(?:\/|$)/);
+  if (!m) return null;
+  return { company: decodeURIComponent(m[1]), postingId: m[2] };
+}
+
+/**
+ * Parse portal + job ID from iCIMS job URLs:
+ *   - https://{portal}.icims.com/jobs/{jobId}/{slug}/job
+ *   - https://{portal}.icims.com/jobs/{jobId}/job
+ * `portal` is the host's first label (e.g. "careers-acme"), which also rebuilds the host.
+ * Returns null if not matched.
+ */
+export function parseIcimsJobUrl(url: URL): { portal: string; jobId: string } | null {
+  const h = url.hostname.toLowerCase();
+  const hm = h.match(/^([a-z0-9-]+)\.icims\.com$/);
+  if (!hm || hm[1] === "www") return null;
+  const m = url.pathname.match(/^\/jobs\/(\d+)(?:\/|$)/);
+  if (!m) return null;
+  return { portal: hm[1], jobId: m[1] };
+}
@@ -0,0 +1,35 @@
+import { webAdapter } from "./web";
+import { loadFixtures } from "@/test/http/fixtures";
+import { startReplayServer, type ReplayServer } from "@/test/http/replayServer";
+import { expectFetchToMatch } from "@/test/http/assertions";
+
+// Pages the scraper refuses (robots.txt) never reach the adapter
+const fixtures = loadFixtures(f => f.target.kind === "web" && !f.expect.error);
+
+describe("webAdapter (replayed fixtures)", () => {
+  let server: ReplayServer;
+
+  beforeAll(async () => {
+    server = await startReplayServer();
+    server.load(fixtures);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it.each(fixtures.map(f => [f.name, f] as const))("%s", async (_name, fixture) => {
+    if (fixture.target.kind !== "web") throw new Error("not a web fixture");
+    await expectFetchToMatch(webAdapter(fixture.target.url), fixture.expect);
+  });
+
+  it("keeps parsed JSON-LD on raw_json and marks provenance", async () => {
+    const withLd = await webAdapter("https://bluefinrobotics.com/careers/controls-engineer/");
+    expect(withLd?.raw_json.canonical_candidate?.provenance).toBe("jsonld");
+    expect(withLd?.raw_json.jsonld).toHaveLength(1);
+
+    const bare = await webAdapter("https://www.smallbatchbakery.com/help-wanted");
+    expect(bare?.raw_json.canonical_candidate?.provenance).toBe("text_only");
+    expect(bare?.content).toContain("morning baker");
+  });
+});
@@ -1,47 +1,31 @@
 import { z } from "zod";
 import type { AdapterJob } from "./types";
-import { fetchWithRetry, sha1Hex } from "./util";
+import { extractJsonLdBlocks, fetchWithRetry, findEmbeddedGreenhouseJob, htmlToPlainText, JobNotFoundError, safeParseJsonLd, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { greenhouseAdapter, greenhouseDefinition } from "./greenhouse";
 import { extractWebFeaturesFromJsonLd, extractWebFeaturesFromText } from "@/lib/normalizers/web";
 
-/** Tiny helper to decode a few common HTML entities in <script> contents. */
-function decodeBasicEntities(s: string): string {
-  return s
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
+/** Zod: Don’t assume a specific JSON-LD shape; just ensure it’s JSON. */
+const ZJsonLdAny = z.unknown();
 
-/** Extract all <script type="application/ld+json">...</script> blocks. */
-function extractJsonLdBlocks(html: string): string[] {
-  const blocks: string[] = [];
-  const re =
-    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(html)) !== null) {
-    const raw = (m[1] ?? "").trim();
-    if (raw) blocks.push(raw);
-  }
-  return blocks;
-}
+/** Narrow provenance to the allowed union used elsewhere. */
+type Provenance = "jsonld" | "api" | "text_only" | "mixed";
 
-/** Best-effort JSON parse with very light cleanup. Returns undefined if it can’t parse. */
-function safeParseJsonLd(s: string): unknown | undefined {
+/** Greenhouse tenant + job for a fetched page, from its final URL or its markup. */
+function resolveGreenhouseFromPage(finalUrl: string, html: string): { tenant: string; jobId: string } | null {
+  let pageUrl: URL;
   try {
-    // Some sites HTML-escape the JSON text inside the script tag.
-    const de = decodeBasicEntities(s.trim());
-    return JSON.parse(de);
+    pageUrl = new URL(finalUrl);
   } catch {
-    return undefined;
+    return null;
   }
-}
 
-/** Zod: Don’t assume a specific JSON-LD shape; just ensure it’s JSON. */
-const ZJsonLdAny = z.unknown();
-
-/** Narrow provenance to the allowed union used elsewhere. */
-type Provenance = "jsonld" | "api" | "text_only" | "mixed";
+  if (greenhouseDefinition.matches(pageUrl)) {
+    const key = greenhouseDefinition.parseKey(pageUrl);
+    if (key) return { tenant: key.tenant_slug, jobId: key.external_job_id };
+  }
+  return findEmbeddedGreenhouseJob(html, pageUrl);
+}
 
 export async function webAdapter(url: string): Promise<AdapterJob | null> {
   // Validate URL early (throws if invalid)
@@ -69,9 +53,25 @@ export async function webAdapter(url: string): Promise<AdapterJob | null> {
   );
   const finished = new Date();
 
+  throwIfGone(res, url);
   if (!res.ok) return null;
 
   const html = await res.text();
+
+  // ---- Embedded Greenhouse ----
+  // Career pages often wrap a Greenhouse board (?gh_jid=..., job_app iframes), and grnh.se
+  // short links redirect to one of those or to a hosted board. Hand these to the Greenhouse
+  // adapter so they get the full ATS treatment; if that fails, carry on as a web page.
+  const embedded = resolveGreenhouseFromPage(res.url || url, html);
+  if (embedded) {
+    // A 404 from the board API here says nothing about the page we were given
+    const ghJob = await greenhouseAdapter(embedded.tenant, embedded.jobId).catch((err: unknown) => {
+      if (err instanceof JobNotFoundError) return null;
+      throw err;
+    });
+    if (ghJob) return ghJob;
+  }
+
   const htmlBuf = Buffer.from(html ?? "", "utf8");
 
   // ---- JSON-LD discovery ----
@@ -139,6 +139,7 @@ export async function webAdapter(url: string): Promise<AdapterJob | null> {
         started_at: started.toISOString(),
         finished_at: finished.toISOString(),
         elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
       },
 
       content_metrics: {
@@ -153,7 +154,7 @@ export async function webAdapter(url: string): Promise<AdapterJob | null> {
   // Extract features from web content with priority-based override logic
   try {
     // 1. Try JSON-LD extraction first (highest priority for web)
-    const jsonldFeatures = extractWebFeaturesFromJsonLd(html);
+    const jsonldFeatures = extractWebFeaturesFromJsonLd(validatedJsonLd);
     const featuresWithSource = { ...jsonldFeatures };
     
     // Mark JSON-LD features with highest priority
@@ -162,8 +163,9 @@ export async function webAdapter(url: string): Promise<AdapterJob | null> {
     }
     
     // 2. If no salary found in JSON-LD, try text extraction as fallback
-    if (!featuresWithSource.salary_min && !featuresWithSource.salary_max) {
-      const textFeatures = extractWebFeaturesFromText(html);
+    //    (on the visible text: scripts and JSON-LD dates look like number ranges)
+    if (!featuresWithSource.salary_source) {
+      const textFeatures = extractWebFeaturesFromText(htmlToPlainText(html));
       if (textFeatures.salary_min || textFeatures.salary_max) {
         // Merge text features, but mark as text source (lower priority)
         Object.assign(featuresWithSource, textFeatures);
@@ -0,0 +1,216 @@
+import { z } from "zod";
+import type { AdapterJob, AtsAdapterDefinition } from "./types";
+import { fetchWithRetry, hostOf, parseWorkdayJobUrl, sha1Hex, throwIfGone } from "./util";
+import { isRevalidatedResponse } from "./httpCache";
+import { extractSalaryFromText, type GHCanon } from "@/lib/normalizers/greenhouse";
+
+/** Zod schema for the Workday career-site (CXS) job payload (keep permissive). */
+const ZWorkdayPostingInfo = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().default(""),
+    jobDescription: z.string().nullable().optional(), // HTML
+    location: z.string().nullable().optional(),
+    additionalLocations: z.array(z.string()).nullable().optional(),
+    postedOn: z.string().nullable().optional(), // relative, e.g. "Posted 3 Days Ago"
+    startDate: z.string().nullable().optional(), // "YYYY-MM-DD"
+    timeType: z.string().nullable().optional(), // "Full time", "Part time"
+    jobReqId: z.string().nullable().optional(),
+    jobPostingId: z.string().nullable().optional(),
+    externalUrl: z.string().url().optional(),
+    remoteType: z.string().nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+const ZWorkdayJob = z
+  .object({
+    jobPostingInfo: ZWorkdayPostingInfo,
+    hiringOrganization: z
+      .object({ name: z.string().nullable().optional() })
+      .catchall(z.unknown())
+      .nullable()
+      .optional(),
+  })
+  .catchall(z.unknown());
+
+type WorkdayPostingInfo = z.infer<typeof ZWorkdayPostingInfo>;
+
+/** Workday spells time types "Full time"/"Part time"; align with the rest of the pipeline. */
+function normalizeTimeType(raw?: string | null): string | null {
+  const s = (raw ?? "").trim().toLowerCase();
+  if (!s) return null;
+  if (s.startsWith("full")) return "Full-time";
+  if (s.startsWith("part")) return "Part-time";
+  return raw!.trim();
+}
+
+/**
+ * Best-effort posted date. Prefer the absolute `startDate`; otherwise turn the
+ * relative "Posted N Days Ago" label into a date relative to fetch time.
+ * "30+ Days Ago" is a floor, so it yields the most recent date it could be.
+ */
+function derivePostedDate(info: WorkdayPostingInfo, fetchedAt: Date): string | null {
+  if (info.startDate) {
+    const d = new Date(info.startDate);
+    if (Number.isFinite(d.getTime())) return d.toISOString();
+  }
+
+  const label = (info.postedOn ?? "").toLowerCase();
+  if (!label) return null;
+
+  let daysAgo: number | null = null;
+  if (label.includes("today")) daysAgo = 0;
+  else if (label.includes("yesterday")) daysAgo = 1;
+  else {
+    const m = label.match(/(\d+)\+?\s*days?\s+ago/);
+    if (m) daysAgo = parseInt(m[1], 10);
+  }
+  if (daysAgo == null) return null;
+
+  return new Date(fetchedAt.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Workday career sites render client-side, so the HTML page has no job content.
+ * The site itself loads the posting from /wday/cxs/{tenant}/{site}/job/...,
+ * which returns JSON — call that directly.
+ */
+export async function workdayAdapter(url: string): Promise<AdapterJob | null> {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const ref = parseWorkdayJobUrl(parsedUrl);
+  if (!ref) return null;
+
+  const { host, tenant, site, externalPath, jobReqId } = ref;
+  const apiUrl = `https://${host}/wday/cxs/${tenant}/${site}${externalPath}`;
+
+  const started = new Date();
+  const res = await fetchWithRetry(
+    apiUrl,
+    {
+      headers: {
+        "User-Agent": "jobbusters/0.1 (+https://example.com)",
+        Accept: "application/json",
+      },
+    },
+    {
+      retries: 2,
+      baseDelayMs: 300,
+      timeoutMs: 12_000,
+    }
+  );
+  const finished = new Date();
+
+  throwIfGone(res, apiUrl);
+  if (!res.ok) return null;
+
+  const payloadUnknown: unknown = await res.json();
+  const parsed = ZWorkdayJob.safeParse(payloadUnknown);
+  if (!parsed.success) return null;
+
+  const info = parsed.data.jobPostingInfo;
+
+  const contentHtml = info.jobDescription ?? "";
+  const buf = Buffer.from(contentHtml, "utf8");
+
+  const externalJobId = info.jobReqId ?? jobReqId;
+  const absoluteUrl = info.externalUrl ?? parsedUrl.toString();
+  const postedAt = derivePostedDate(info, finished);
+
+  const location = [info.location, ...(info.additionalLocations ?? [])]
+    .filter((l): l is string => !!l && l.trim().length > 0)
+    .join("; ");
+
+  const normalized: AdapterJob = {
+    ats_provider: "workday",
+    tenant_slug: tenant,
+    external_job_id: externalJobId,
+
+    title: info.title ?? "",
+    company_name: parsed.data.hiringOrganization?.name ?? tenant,
+    location,
+    absolute_url: absoluteUrl,
+
+    first_published: postedAt,
+    // Workday exposes no "last updated" timestamp; reuse the posted date so
+    // re-scrapes don't register as updates.
+    updated_at: postedAt ?? finished.toISOString(),
+
+    requisition_id: info.jobReqId ?? null,
+
+    content: contentHtml || null,
+
+    raw_json: {
+      ...(payloadUnknown as object),
+
+      workday: { host, site, external_path: externalPath },
+
+      canonical_candidate: {
+        ats: "workday",
+        tenant_slug: tenant,
+        external_job_id: externalJobId,
+        absolute_url: absoluteUrl,
+        provenance: "api",
+      },
+
+      fetch: {
+        status: res.status,
+        ok: res.ok,
+        started_at: started.toISOString(),
+        finished_at: finished.toISOString(),
+        elapsed_ms: Math.max(0, finished.getTime() - started.getTime()),
+        not_modified: isRevalidatedResponse(res),
+      },
+
+      content_metrics: {
+        length_bytes: buf.byteLength,
+        sha1: sha1Hex(buf),
+      },
+
+      _ingest: { needsnlp: true },
+    },
+  };
+
+  // Workday has no structured pay fields; time type is structured, salary comes from text.
+  try {
+    const featuresWithSource: GHCanon = {};
+    const timeType = normalizeTimeType(info.timeType);
+    if (timeType) featuresWithSource.time_type = timeType;
+
+    if (contentHtml) {
+      extractSalaryFromText(contentHtml, featuresWithSource);
+      if (featuresWithSource.salary_min || featuresWithSource.salary_max) {
+        featuresWithSource.salary_source = "content"; // Mark as ATS content source
+      }
+    }
+
+    normalized.features = featuresWithSource;
+  } catch (err) {
+    console.warn("Failed to extract Workday features:", err);
+    // Continue without features - NLP layer will handle fallback
+  }
+
+  return normalized;
+}
+
+export const workdayDefinition: AtsAdapterDefinition = {
+  provider: "workday",
+  displayName: "Workday",
+  matches: url => {
+    const h = hostOf(url);
+    return h.endsWith(".myworkdayjobs.com") || h.endsWith(".myworkdaysite.com");
+  },
+  parseKey: url => {
+    const parsed = parseWorkdayJobUrl(url);
+    return parsed ? { tenant_slug: parsed.tenant, external_job_id: parsed.jobReqId } : null;
+  },
+  // The CXS endpoint needs host/site/path, not just the key, so hand over the full URL.
+  fetchJob: url => workdayAdapter(url.toString()),
+  // updated_at is the posted date, see above
+  capabilities: { persistable: true, hasUpdatedAt: false },
+};
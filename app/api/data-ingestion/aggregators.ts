@@ -0,0 +1,145 @@
+// Aggregator listings (LinkedIn, Indeed, Glassdoor, ZipRecruiter) are never fetched.
+// What they tell us comes from the URL itself and, optionally, page HTML the user
+// pasted: enough to look the job up on the employer's own board.
+
+import { findJsonLdJobPosting } from "./adapters/util";
+
+export type AggregatorHints = {
+  /** e.g. "LinkedIn" */
+  source: string;
+  company: string | null;
+  title: string | null;
+};
+
+const AGGREGATOR_NAMES: Array<[RegExp, string]> = [
+  [/(^|\.)linkedin\.com$/i, "LinkedIn"],
+  [/(^|\.)indeed\.com$/i, "Indeed"],
+  [/(^|\.)glassdoor\.[a-z.]+$/i, "Glassdoor"],
+  [/(^|\.)ziprecruiter\.com$/i, "ZipRecruiter"],
+  [/(^|\.)monster\.com$/i, "Monster"],
+  [/(^|\.)careerbuilder\.com$/i, "CareerBuilder"],
+];
+
+const clean = (s: string | null | undefined): string | null => {
+  const out = (s ?? "")
+    .replace(/&amp;/g, "&")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+  return out || null;
+};
+
+// Lower-case slugs ("acme-robotics") are title-cased for display; mixed case is kept as written
+const fromSlug = (slug: string): string => {
+  const words = decodeURIComponent(slug).replace(/[-_+]+/g, " ").trim();
+  return words === words.toLowerCase() ? words.replace(/\b[a-z]/g, c => c.toUpperCase()) : words;
+};
+
+/** Title and company readable from the URL path alone. */
+function hintsFromUrl(url: URL): { company: string | null; title: string | null } {
+  const path = url.pathname;
+
+  // linkedin.com/jobs/view/{title}-at-{company}-{id}
+  const linkedIn = /\/jobs\/view\/(.+)-at-(.+)-\d+\/?$/.exec(path);
+  if (linkedIn) return { title: fromSlug(linkedIn[1]), company: fromSlug(linkedIn[2]) };
+
+  // glassdoor.com/job-listing/{slug}-JV_..._KO{a},{b}_KE{c},{d}.htm: KO/KE are offsets into slug
+  const glassdoor = /\/job-listing\/(.+?)-JV_.*?_KO(\d+),(\d+)_KE(\d+),(\d+)/.exec(path);
+  if (glassdoor) {
+    const slug = glassdoor[1];
+    const [ko0, ko1, ke0, ke1] = glassdoor.slice(2).map(Number);
+    return { title: fromSlug(slug.slice(ko0, ko1)), company: fromSlug(slug.slice(ke0, ke1)) };
+  }
+
+  // ziprecruiter.com/c/{Company}/Job/{Title}/...
+  const zip = /\/c\/([^/]+)\/Job\/([^/]+)/.exec(path);
+  if (zip) return { company: fromSlug(zip[1]), title: fromSlug(zip[2]) };
+
+  // indeed.com/cmp/{Company}/jobs/{Title}-{hex}
+  const indeed = /\/cmp\/([^/]+)\/jobs\/(.+)-[0-9a-f]{16}$/i.exec(path);
+  if (indeed) return { company: fromSlug(indeed[1]), title: fromSlug(indeed[2]) };
+
+  return { company: null, title: null };
+}
+
+/** Title and company from pasted page HTML: JSON-LD first, then the page title. */
+function hintsFromHtml(html: string): { company: string | null; title: string | null } {
+  const posting = findJsonLdJobPosting(html);
+  if (posting) {
+    const org = posting["hiringOrganization"];
+    const company = typeof org === "string" ? org : (org as { name?: unknown } | null)?.name;
+    const title = clean(typeof posting["title"] === "string" ? posting["title"] : null);
+    if (title) return { title, company: clean(typeof company === "string" ? company : null) };
+  }
+
+  const og = /<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i.exec(html)?.[1];
+  const pageTitle = clean(og ?? /<title[^>]*>([^<]+)<\/title>/i.exec(html)?.[1]);
+  if (!pageTitle) return { company: null, title: null };
+
+  // "Acme hiring Senior Engineer in Austin, TX | LinkedIn"
+  const linkedIn = /^(.+?) hiring (.+?)(?: in .+?)?(?: \| LinkedIn)?$/i.exec(pageTitle);
+  if (linkedIn) return { company: linkedIn[1], title: linkedIn[2] };
+
+  // "Senior Engineer job in Austin at Acme | Glassdoor"
+  const glassdoor = /^(.+?) job in .+? at (.+?) \| Glassdoor/i.exec(pageTitle);
+  if (glassdoor) return { title: glassdoor[1], company: glassdoor[2] };
+
+  // "Senior Engineer - Acme - Austin, TX | Indeed.com"
+  const parts = pageTitle.replace(/\s*\|\s*Indeed(\.com)?$/i, "").split(" - ");
+  if (parts.length >= 2) return { title: parts[0], company: parts[1] };
+
+  return { company: null, title: null };
+}
+
+/** Display name of the aggregator a URL belongs to, or null if it isn't one. */
+export function aggregatorName(url: URL): string | null {
+  return AGGREGATOR_NAMES.find(([re]) => re.test(url.hostname))?.[1] ?? null;
+}
+
+/** Company and title for an aggregator URL; pasted HTML wins over the URL slug. */
+export function extractAggregatorHints(url: URL, pageHtml?: string | null): AggregatorHints {
+  const fromUrl = hintsFromUrl(url);
+  const fromHtml = pageHtml ? hintsFromHtml(pageHtml) : { company: null, title: null };
+
+  return {
+    source: aggregatorName(url) ?? url.hostname,
+    company: clean(fromHtml.company ?? fromUrl.company),
+    title: clean(fromHtml.title ?? fromUrl.title),
+  };
+}
+
+// Words that vary between an aggregator's copy of a title and the employer's
+const TITLE_SYNONYMS: Record<string, string> = { sr: "senior", jr: "junior", eng: "engineer", mgr: "manager", dev: "developer" };
+const TITLE_NOISE = new Set(["remote", "hybrid", "onsite", "the", "a", "an", "of", "and", "f", "m", "w", "d", "x"]);
+
+export function titleTokens(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .split(/[^a-z0-9+#]+/)
+    .map(t => TITLE_SYNONYMS[t] ?? t)
+    .filter(t => t && !TITLE_NOISE.has(t));
+}
+
+/** Dice coefficient over normalized title words: 1 = same title. */
+export function titleSimilarity(a: string, b: string): number {
+  const ta = new Set(titleTokens(a));
+  const tb = new Set(titleTokens(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+/** Board slugs a company is likely to use: "Acme Robotics, Inc." → acmerobotics, acme-robotics, acme. */
+export function guessTenantSlugs(company: string): string[] {
+  const words = company
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\b(inc|llc|ltd|corp|corporation|co|gmbh|plc|company|technologies|labs?)\b\.?/g, " ")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  if (words.length === 0) return [];
+  return [...new Set([words.join(""), words.join("-"), words[0]])];
+}
@@ -0,0 +1,39 @@
+// Uploaded job descriptions: pick the extractor from the file's magic bytes (not its
+// name or declared type) and return plain text for the text analysis path.
+import { extractPdfText } from "./documents/pdf";
+import { extractDocxText } from "./documents/docx";
+import { AnalysisError } from "@/app/orchestrator/errors";
+
+export type DocumentFormat = "pdf" | "docx";
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export type ExtractedDocument = {
+  format: DocumentFormat;
+  text: string;
+  /** Page count, for PDFs */
+  pages: number | null;
+};
+
+export function detectDocumentFormat(buf: Buffer): DocumentFormat | null {
+  if (buf.subarray(0, 1024).toString("latin1").includes("%PDF-")) return "pdf";
+  // DOCX is a zip; extractDocxText checks it holds word/document.xml
+  if (buf.length >= 4 && buf.readUInt32LE(0) === 0x04034b50) return "docx";
+  return null;
+}
+
+/** Extract plain text from an uploaded PDF or DOCX, locally. Throws AnalysisError. */
+export function extractDocumentText(buf: Buffer): ExtractedDocument {
+  if (buf.length > MAX_DOCUMENT_BYTES) {
+    throw new AnalysisError("UNSUPPORTED_DOCUMENT", `Files up to ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB are supported.`);
+  }
+
+  const format = detectDocumentFormat(buf);
+  if (format === "pdf") {
+    const { text, pages } = extractPdfText(buf);
+    return { format, text, pages };
+  }
+  if (format === "docx") return { format, text: extractDocxText(buf), pages: null };
+
+  throw new AnalysisError("UNSUPPORTED_DOCUMENT", "Only PDF and Word (.docx) files are supported.");
+}
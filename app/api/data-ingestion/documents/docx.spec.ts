@@ -0,0 +1,82 @@
+import { extractDocxText, wordXmlToText } from "./docx";
+import { AnalysisError } from "@/app/orchestrator/errors";
+import { corruptedCopies, loadDocumentFixture } from "@/test/documents/fixtures";
+
+const POSTING_TEXT = [
+  "Product Designer",
+  "Team:\tR&D <Design Systems>",
+  "You’ll own our “design tokens” work.",
+  "Hybrid, 3 days on site.",
+  "Location\tSalary",
+  "Austin, TX\t$95k – $115k",
+  "Apply by 30 November.",
+].join("\n");
+
+const unreadable = (run: () => unknown, reason: RegExp) => {
+  expect(run).toThrow(AnalysisError);
+  expect(run).toThrow(reason);
+};
+
+describe("extractDocxText (fixtures)", () => {
+  it("reads the body of a deflated document: paragraphs, tabs, breaks, a table", () => {
+    const text = extractDocxText(loadDocumentFixture("posting.docx"));
+    expect(text).toBe(POSTING_TEXT);
+    expect(text).not.toContain("CONFIDENTIAL"); // page header
+  });
+
+  it("reads stored (uncompressed) entries the same way", () => {
+    expect(extractDocxText(loadDocumentFixture("posting-stored.docx"))).toBe(POSTING_TEXT);
+  });
+
+  it("rejects zips that aren't Word documents, and files that aren't zips", () => {
+    unreadable(() => extractDocxText(loadDocumentFixture("spreadsheet.docx")), /no word\/document\.xml/);
+    unreadable(() => extractDocxText(loadDocumentFixture("posting-standard-font.pdf")), /not a zip archive/);
+    unreadable(() => extractDocxText(Buffer.alloc(0)), /not a zip archive/);
+  });
+
+  it("stops inflating an entry past the size limit", () => {
+    unreadable(() => extractDocxText(loadDocumentFixture("zip-bomb.docx")), /couldn't decompress word\/document\.xml/);
+  });
+});
+
+describe("extractDocxText (malformed input)", () => {
+  const docx = loadDocumentFixture("posting.docx");
+
+  it("turns a truncated file into an unreadable-document error", () => {
+    // The central directory is at the end, so any cut loses it
+    for (let length = 0; length < docx.length; length += 211) {
+      unreadable(() => extractDocxText(docx.subarray(0, length)), /not a zip archive|corrupt/);
+    }
+  });
+
+  it("reports a damaged compressed entry", () => {
+    const copy = Buffer.from(docx);
+    const at = copy.indexOf("word/document.xml");
+    // the entry's data follows its local header name; scramble the start of it
+    copy.fill(0xff, at + "word/document.xml".length, at + "word/document.xml".length + 64);
+    unreadable(() => extractDocxText(copy), /word\/document\.xml/);
+  });
+
+  it("never fails with anything but an unreadable-document error on damaged bytes", () => {
+    for (const copy of [...corruptedCopies(docx, 150), ...corruptedCopies(loadDocumentFixture("posting-stored.docx"), 150)]) {
+      try {
+        extractDocxText(copy);
+      } catch (err) {
+        expect(err).toMatchObject({ code: "UNSUPPORTED_DOCUMENT" });
+      }
+    }
+  });
+});
+
+describe("wordXmlToText", () => {
+  it("decodes entities and separates table cells with tabs", () => {
+    const xml =
+      "<w:body><w:p><w:r><w:t>Pay &amp; perks: &#x20AC;50k&#8211;&#8364;60k</w:t></w:r></w:p>" +
+      "<w:tbl><w:tr><w:tc><w:p><w:r><w:t>A</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>B</w:t></w:r></w:p></w:tc></w:tr></w:tbl></w:body>";
+    expect(wordXmlToText(xml)).toBe("Pay & perks: €50k–€60k\nA\tB");
+  });
+
+  it("drops character references past the last Unicode code point", () => {
+    expect(wordXmlToText("<w:p><w:r><w:t>a&#x110000;b&#1114112;c</w:t></w:r></w:p>")).toBe("abc");
+  });
+});
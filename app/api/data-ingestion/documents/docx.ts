@@ -0,0 +1,122 @@
+// DOCX text extraction with no dependencies: a .docx is a zip archive, and the body
+// text lives in word/document.xml as <w:t> runs grouped into <w:p> paragraphs.
+
+import zlib from "zlib";
+import { AnalysisError } from "@/app/orchestrator/errors";
+
+const EOCD_SIGNATURE = 0x06054b50;   // end of central directory
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// Guards against zip bombs: the body of a job description is a few hundred KB at most
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+function unreadable(reason: string): AnalysisError {
+  return new AnalysisError("UNSUPPORTED_DOCUMENT", `Couldn't read this Word document (${reason}).`);
+}
+
+/** List entries from the zip central directory (zip64 archives aren't supported). */
+function readZipEntries(buf: Buffer): ZipEntry[] {
+  // The EOCD record is 22 bytes plus an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw unreadable("not a zip archive");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buf.length || buf.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw unreadable("corrupt zip directory");
+    }
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localHeaderOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries.push({ name, method, compressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipEntry(buf: Buffer, entry: ZipEntry): Buffer {
+  const at = entry.localHeaderOffset;
+  if (at + 30 > buf.length || buf.readUInt32LE(at) !== LOCAL_SIGNATURE) {
+    throw unreadable(`corrupt entry ${entry.name}`);
+  }
+  // Sizes in the local header may be zero (data descriptor); the central directory's are reliable
+  const start = at + 30 + buf.readUInt16LE(at + 26) + buf.readUInt16LE(at + 28);
+  const data = buf.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) {
+    try {
+      return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+    } catch {
+      throw unreadable(`couldn't decompress ${entry.name}`);
+    }
+  }
+  throw unreadable(`unsupported compression method ${entry.method}`);
+}
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, ent: string) => {
+    const lower = ent.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const code = lower.startsWith("#x") ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+  });
+}
+
+/** Plain text of a WordprocessingML part: one line per paragraph, tabs between table cells. */
+export function wordXmlToText(xml: string): string {
+  const out: string[] = [];
+  const token = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:(p|tc|tr)>/g;
+
+  for (let m = token.exec(xml); m; m = token.exec(xml)) {
+    if (m[1] !== undefined) out.push(decodeXmlEntities(m[1]));
+    else if (m[2] === "tab") out.push("\t");
+    else if (m[2] || m[3] === "p" || m[3] === "tr") out.push("\n");
+    else {
+      // A cell's last paragraph break becomes the cell separator
+      if (out[out.length - 1] === "\n") out.pop();
+      out.push("\t");
+    }
+  }
+
+  return out.join("").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Extract the body text of a .docx file. Headers and footers are skipped:
+ * postings keep their content in the body.
+ */
+export function extractDocxText(buf: Buffer): string {
+  const entries = readZipEntries(buf);
+  const body = entries.find(e => e.name === "word/document.xml");
+  if (!body) throw unreadable("no word/document.xml; legacy .doc files aren't supported");
+
+  return wordXmlToText(readZipEntry(buf, body).toString("utf8"));
+}
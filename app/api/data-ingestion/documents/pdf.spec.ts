@@ -0,0 +1,117 @@
+import { contentStreamToText, extractPdfText, parseToUnicodeCMap } from "./pdf";
+import { AnalysisError } from "@/app/orchestrator/errors";
+import { corruptedCopies, loadDocumentFixture } from "@/test/documents/fixtures";
+
+const unreadable = (run: () => unknown, reason: RegExp) => {
+  expect(run).toThrow(AnalysisError);
+  expect(run).toThrow(reason);
+};
+
+describe("extractPdfText (fixtures)", () => {
+  it("reads compressed content streams in a standard font, page by page", () => {
+    const { text, pages } = extractPdfText(loadDocumentFixture("posting-standard-font.pdf"));
+
+    expect(pages).toBe(2);
+    expect(text.split("\n").slice(0, 3)).toEqual([
+      "Senior Data Engineer",
+      "Northwind Logistics – Remote (US)",
+      "Salary: $120,000 – $150,000 per year",
+    ]);
+    // WinAnsi quotes and bullets, not their Latin-1 control codes
+    expect(text).toContain("We’re looking for an engineer to build “boring”, reliable pipelines.");
+    expect(text).toContain("• 5+ years of Python and SQL");
+    expect(text).toMatch(/per year\n[\s\S]*\n\nHow to apply\nSend your résumé/);
+  });
+
+  it("maps an embedded Type0 font back to Unicode through its ToUnicode CMap", () => {
+    const { text } = extractPdfText(loadDocumentFixture("posting-embedded-font.pdf"));
+    expect(text).toBe(
+      "Backend Engineer — Zürich\nGehalt: €90.000–€110.000 pro Jahr\nΕλληνικά welcome, as are ½-time applicants"
+    );
+  });
+
+  it("finds pages and fonts packed in an object stream", () => {
+    expect(extractPdfText(loadDocumentFixture("object-stream.pdf")).text).toBe(
+      "Warehouse Associate\nNight shift, $21/hour\nForklift certification a plus"
+    );
+  });
+
+  it("reads the latest revision of an incrementally updated file", () => {
+    const { text } = extractPdfText(loadDocumentFixture("incremental-update.pdf"));
+    expect(text).toBe("Account Manager\nSalary: $70,000 - $85,000");
+  });
+
+  it("keeps what inflates from a content stream that was cut off", () => {
+    const { text } = extractPdfText(loadDocumentFixture("truncated-stream.pdf"));
+    expect(text.startsWith("Line cook\nFull time, tips shared")).toBe(true);
+    expect(text).not.toContain("Filler line 39");
+  });
+
+  it("rejects encrypted files and scans", () => {
+    unreadable(() => extractPdfText(loadDocumentFixture("encrypted.pdf")), /encrypted or password-protected/);
+    unreadable(() => extractPdfText(loadDocumentFixture("scanned.pdf")), /no selectable text/);
+  });
+
+  it("rejects files that aren't PDFs", () => {
+    unreadable(() => extractPdfText(loadDocumentFixture("posting.docx")), /not a PDF file/);
+    unreadable(() => extractPdfText(Buffer.alloc(0)), /not a PDF file/);
+  });
+});
+
+describe("extractPdfText (malformed input)", () => {
+  const pdf = loadDocumentFixture("posting-standard-font.pdf");
+
+  it("turns a truncated file into an unreadable-document error", () => {
+    for (let length = 0; length < pdf.length; length += 97) {
+      try {
+        extractPdfText(pdf.subarray(0, length));
+      } catch (err) {
+        expect(err).toBeInstanceOf(AnalysisError);
+        expect(err).toMatchObject({ code: "UNSUPPORTED_DOCUMENT" });
+      }
+    }
+  });
+
+  it("never fails with anything but an unreadable-document error on damaged bytes", () => {
+    for (const copy of [
+      ...corruptedCopies(pdf, 150),
+      ...corruptedCopies(loadDocumentFixture("posting-embedded-font.pdf"), 150),
+    ]) {
+      try {
+        extractPdfText(copy);
+      } catch (err) {
+        expect(err).toMatchObject({ code: "UNSUPPORTED_DOCUMENT" });
+      }
+    }
+  });
+});
+
+describe("parseToUnicodeCMap", () => {
+  it("reads bfchar entries, bfrange runs and bfrange arrays", () => {
+    const { codeBytes, map } = parseToUnicodeCMap(`
+      1 begincodespacerange <0000> <FFFF> endcodespacerange
+      2 beginbfchar <0003> <0020> <0011> <00E9> endbfchar
+      2 beginbfrange <0024> <0026> <0041> <0030> <0031> [<FB01> <0066006C>] endbfrange
+    `);
+
+    expect(codeBytes).toBe(2);
+    expect([0x03, 0x11, 0x24, 0x25, 0x26, 0x30, 0x31].map(code => map.get(code))).toEqual([" ", "é", "A", "B", "C", "ﬁ", "fl"]);
+  });
+
+  it("refuses a map that expands past what any font needs", () => {
+    const ranges = Array.from({ length: 3 }, () => "<0000> <FFFF> <0041>").join("\n");
+    const cmap = `1 begincodespacerange <0000> <FFFF> endcodespacerange\n3 beginbfrange\n${ranges}\nendbfrange`;
+    unreadable(() => parseToUnicodeCMap(cmap), /character map is too large/);
+  });
+});
+
+describe("contentStreamToText", () => {
+  it("skips comments and inline image data", () => {
+    const src = [
+      "BT /F1 12 Tf 72 720 Td (Picker) Tj ET % (not this) Tj",
+      "BI /W 2 /H 2 /BPC 8 /CS /G ID \x00(Nope) Tj\xff EI",
+      "BT 72 700 Td (Packer) Tj ET",
+    ].join("\n");
+    expect(contentStreamToText(src, new Map()).trim()).toMatch(/^Picker\s+Packer$/);
+  });
+});
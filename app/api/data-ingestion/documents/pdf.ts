@@ -0,0 +1,479 @@
+// PDF text extraction with no dependencies. Covers what recruiters' PDFs are made of:
+// Flate-compressed page content streams, simple fonts and Type0 fonts with a
+// ToUnicode map. Scans (images only) and encrypted files are rejected, not OCR'd.
+
+import zlib from "zlib";
+import { AnalysisError } from "@/app/orchestrator/errors";
+
+const MAX_STREAM_BYTES = 20 * 1024 * 1024;
+const MAX_PAGES = 100;
+// Codes one ToUnicode CMap may map: two-byte codes top out at 65536, so more is a crafted file
+const MAX_CMAP_CODES = 0x10000;
+
+type PdfObject = { dict: string; stream: Buffer | null };
+
+type PdfFont = {
+  /** Bytes per character code in shown strings (2 for Type0/CID fonts) */
+  codeBytes: number;
+  /** From the font's ToUnicode CMap, when it has one */
+  toUnicode: Map<number, string> | null;
+};
+
+type Operand = number | string | Buffer | Operand[] | null;
+
+// WinAnsi codes that differ from Latin-1 and turn up in prose (quotes, dashes, bullets)
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: "€", 0x85: "…", 0x91: "‘", 0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—",
+};
+
+function unreadable(reason: string): AnalysisError {
+  return new AnalysisError("UNSUPPORTED_DOCUMENT", `Couldn't read this PDF (${reason}).`);
+}
+
+// ---------------------- object parsing ----------------------
+
+/** Text between balanced open/close markers starting at `from` (inclusive). */
+function balanced(s: string, from: number, open: string, close: string): string {
+  let depth = 0;
+  for (let i = from; i < s.length; i++) {
+    if (s.startsWith(open, i)) {
+      depth++;
+      i += open.length - 1;
+    } else if (s.startsWith(close, i)) {
+      depth--;
+      i += close.length - 1;
+      if (depth === 0) return s.slice(from, i + 1);
+    }
+  }
+  return s.slice(from);
+}
+
+/** Raw value of `/key` in a dictionary: a nested dict/array, an `N G R` reference or a single token. */
+function dictValue(dict: string, key: string): string | null {
+  const m = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!m) return null;
+  const at = m.index + m[0].length;
+
+  if (dict.startsWith("<<", at)) return balanced(dict, at, "<<", ">>");
+  if (dict[at] === "[") return balanced(dict, at, "[", "]");
+  const rest = dict.slice(at);
+  return /^\d+\s+\d+\s+R/.exec(rest)?.[0] ?? /^\/?[^\s/<>[\]()]+/.exec(rest)?.[0] ?? null;
+}
+
+const refNumber = (value: string | null): number | null => {
+  const m = value ? /^(\d+)\s+\d+\s+R$/.exec(value.trim()) : null;
+  return m ? Number(m[1]) : null;
+};
+
+const allRefs = (value: string | null): number[] =>
+  [...(value ?? "").matchAll(/(\d+)\s+\d+\s+R/g)].map(m => Number(m[1]));
+
+function decodeStream(dict: string, raw: Buffer): Buffer | null {
+  const filter = dictValue(dict, "Filter") ?? "";
+  const filters = filter.match(/\/\w+/g) ?? [];
+  if (filters.length === 0) return raw;
+  if (!filters.every(f => f === "/FlateDecode" || f === "/Fl")) return null; // images etc.
+
+  let out = raw;
+  for (let i = 0; i < filters.length; i++) {
+    try {
+      // Sync flush tolerates a truncated or badly terminated stream
+      out = zlib.inflateSync(out, { finishFlush: zlib.constants.Z_SYNC_FLUSH, maxOutputLength: MAX_STREAM_BYTES });
+    } catch {
+      return null;
+    }
+  }
+  return out;
+}
+
+/** Every `N G obj ... endobj` in the file, plus objects packed in object streams. */
+function parseObjects(pdf: Buffer): Map<number, PdfObject> {
+  const src = pdf.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  for (let m = header.exec(src); m; m = header.exec(src)) {
+    const start = m.index + m[0].length;
+    const marker = /\bstream\r?\n|endobj/g;
+    marker.lastIndex = start;
+    const hit = marker.exec(src);
+    if (!hit) break;
+
+    let end = hit.index;
+    let obj: PdfObject = { dict: src.slice(start, hit.index).trim(), stream: null };
+
+    if (hit[0] !== "endobj") {
+      const dataStart = hit.index + hit[0].length;
+      // Trust a direct /Length when endstream follows it; indirect lengths mean scanning
+      const lengthValue = dictValue(obj.dict, "Length") ?? "";
+      const length = /^\d+$/.test(lengthValue) ? Number(lengthValue) : -1;
+      let dataEnd: number;
+      if (length >= 0 && /^\s*endstream/.test(src.slice(dataStart + length, dataStart + length + 16))) {
+        dataEnd = dataStart + length;
+      } else {
+        dataEnd = src.indexOf("endstream", dataStart);
+        if (dataEnd < 0) break;
+        if (src[dataEnd - 1] === "\n") dataEnd--;
+        if (src[dataEnd - 1] === "\r") dataEnd--;
+      }
+
+      obj = { dict: obj.dict, stream: pdf.subarray(dataStart, dataEnd) };
+      end = dataEnd;
+    }
+
+    // Later definitions win: incremental updates append replacement objects
+    objects.set(Number(m[1]), obj);
+    header.lastIndex = end;
+  }
+
+  // Unpack object streams (PDF 1.5+ keeps most dictionaries in these)
+  for (const obj of [...objects.values()]) {
+    if (!obj.stream || !/\/Type\s*\/ObjStm/.test(obj.dict)) continue;
+    const data = decodeStream(obj.dict, obj.stream);
+    const first = Number(dictValue(obj.dict, "First"));
+    if (!data || !Number.isFinite(first)) continue;
+
+    const text = data.toString("latin1");
+    const nums = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < nums.length; i += 2) {
+      const from = first + nums[i + 1];
+      const to = i + 3 < nums.length ? first + nums[i + 3] : text.length;
+      if (!objects.has(nums[i])) objects.set(nums[i], { dict: text.slice(from, to).trim(), stream: null });
+    }
+  }
+
+  return objects;
+}
+
+// ---------------------- fonts ----------------------
+
+/** UTF-16BE hex (as used in ToUnicode CMaps) to a string. */
+function utf16Hex(hex: string): string {
+  let s = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) s += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length === 2) s = String.fromCharCode(parseInt(hex, 16));
+  return s;
+}
+
+export function parseToUnicodeCMap(cmap: string): { codeBytes: number; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  const space = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeBytes = space ? Math.max(1, space[1].length / 2) : 1;
+
+  // Counted per entry, so overlapping ranges can't slip past the cap
+  let mapped = 0;
+  const set = (code: number, value: string) => {
+    if (++mapped > MAX_CMAP_CODES) throw unreadable("a font's character map is too large");
+    map.set(code, value);
+  };
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      set(parseInt(src, 16), utf16Hex(dst));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, lo, hi, dst] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const from = parseInt(lo, 16);
+      const to = Math.min(parseInt(hi, 16), from + 0xffff);
+
+      if (dst.startsWith("[")) {
+        const targets = [...dst.matchAll(/<([0-9a-fA-F]*)>/g)].map(t => utf16Hex(t[1]));
+        targets.forEach((t, i) => from + i <= to && set(from + i, t));
+      } else {
+        // Consecutive codes map to consecutive values of the last UTF-16 unit
+        const base = utf16Hex(dst.slice(1, -1));
+        const head = base.slice(0, -1);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = from; code <= to; code++) set(code, head + String.fromCharCode(last + code - from));
+      }
+    }
+  }
+
+  return { codeBytes, map };
+}
+
+function loadFont(objects: Map<number, PdfObject>, fontDict: string): PdfFont {
+  const isType0 = /\/Subtype\s*\/Type0/.test(fontDict);
+  const cmapObj = objects.get(refNumber(dictValue(fontDict, "ToUnicode")) ?? -1);
+  const cmapData = cmapObj?.stream ? decodeStream(cmapObj.dict, cmapObj.stream) : null;
+
+  if (!cmapData) return { codeBytes: isType0 ? 2 : 1, toUnicode: null };
+  const { codeBytes, map } = parseToUnicodeCMap(cmapData.toString("latin1"));
+  return { codeBytes: isType0 ? Math.max(2, codeBytes) : codeBytes, toUnicode: map };
+}
+
+/** Resolve a dictionary value that may be inline or an indirect reference. */
+function resolveDict(objects: Map<number, PdfObject>, value: string | null): string | null {
+  const ref = refNumber(value);
+  return ref === null ? value : objects.get(ref)?.dict ?? null;
+}
+
+/** A page's fonts by resource name. `loaded` caches fonts by object number across pages. */
+function loadPageFonts(
+  objects: Map<number, PdfObject>,
+  resources: string | null,
+  loaded: Map<number, PdfFont>
+): Map<string, PdfFont> {
+  const fonts = new Map<string, PdfFont>();
+  const fontMap = resolveDict(objects, resources ? dictValue(resources, "Font") : null);
+  if (!fontMap) return fonts;
+
+  for (const [, name, ref] of fontMap.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const num = Number(ref);
+    let font = loaded.get(num);
+    if (!font) {
+      const fontDict = objects.get(num)?.dict;
+      if (!fontDict) continue;
+      font = loadFont(objects, fontDict);
+      loaded.set(num, font);
+    }
+    fonts.set(name, font);
+  }
+  return fonts;
+}
+
+// ---------------------- content streams ----------------------
+
+function decodeShown(bytes: Buffer, font: PdfFont | undefined): string {
+  const codeBytes = font?.codeBytes ?? 1;
+  let s = "";
+  for (let i = 0; i + codeBytes <= bytes.length; i += codeBytes) {
+    const code = codeBytes === 1 ? bytes[i] : bytes.readUIntBE(i, codeBytes);
+    const mapped = font?.toUnicode?.get(code);
+    if (mapped !== undefined) s += mapped;
+    else if (codeBytes === 1) s += WIN_ANSI_EXTRAS[code] ?? String.fromCharCode(code);
+    // multi-byte codes without a ToUnicode map can't be decoded honestly: drop them
+  }
+  return s;
+}
+
+function readLiteralString(src: string, from: number): { value: Buffer; end: number } {
+  const out: number[] = [];
+  let depth = 0;
+  let i = from;
+  for (; i < src.length; i++) {
+    const c = src[i];
+    if (c === "\\") {
+      const n = src[++i];
+      if (n === undefined) break;
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+      if (n in escapes) out.push(escapes[n]);
+      else if (n >= "0" && n <= "7") {
+        const oct = /^[0-7]{1,3}/.exec(src.slice(i, i + 3))![0];
+        out.push(parseInt(oct, 8) & 0xff);
+        i += oct.length - 1;
+      } else if (n === "\r") {
+        if (src[i + 1] === "\n") i++;
+      } else if (n !== "\n") out.push(n.charCodeAt(0));
+      continue;
+    }
+    if (c === "(") depth++;
+    if (c === ")" && --depth === 0) break;
+    if (depth > 0 && !(c === "(" && depth === 1)) out.push(c.charCodeAt(0));
+  }
+  return { value: Buffer.from(out), end: i + 1 };
+}
+
+/** Tokenize one operand starting at `i`; returns null at an operator or end of input. */
+function readOperand(src: string, i: number): { value: Operand; end: number } | null {
+  const c = src[i];
+  if (c === "(") return readLiteralString(src, i);
+  if (c === "<" && src[i + 1] === "<") {
+    const dict = balanced(src, i, "<<", ">>");
+    return { value: null, end: i + dict.length };
+  }
+  if (c === "<") {
+    const close = src.indexOf(">", i);
+    const hex = src.slice(i + 1, close < 0 ? src.length : close).replace(/\s+/g, "");
+    return { value: Buffer.from(hex.length % 2 ? hex + "0" : hex, "hex"), end: close < 0 ? src.length : close + 1 };
+  }
+  if (c === "[") {
+    const items: Operand[] = [];
+    let j = i + 1;
+    while (j < src.length) {
+      while (/\s/.test(src[j] ?? "")) j++;
+      if (src[j] === "]" || j >= src.length) return { value: items, end: j + 1 };
+      const next = readOperand(src, j);
+      if (!next) {
+        j++; // stray operator inside an array: skip it
+        continue;
+      }
+      items.push(next.value);
+      j = next.end;
+    }
+    return { value: items, end: j };
+  }
+  if (c === "/") {
+    const m = /^\/[^\s/<>[\]()]*/.exec(src.slice(i, i + 128))!;
+    return { value: m[0], end: i + m[0].length };
+  }
+  const num = /^[+-]?(\d+\.?\d*|\.\d+)/.exec(src.slice(i, i + 32));
+  if (num) return { value: Number(num[0]), end: i + num[0].length };
+  return null;
+}
+
+const EOL = /[\r\n]/g;
+const INLINE_IMAGE_END = /\sEI(\s|$)/g;
+
+/** Text drawn by one content stream, with line breaks where the text position moves down. */
+export function contentStreamToText(src: string, fonts: Map<string, PdfFont>): string {
+  const out: string[] = [];
+  const operands: Operand[] = [];
+  let font: PdfFont | undefined;
+  let lastY: number | null = null;
+
+  const newline = () => out.length && !out[out.length - 1].endsWith("\n") && out.push("\n");
+  const space = () => out.length && !/\s$/.test(out[out.length - 1]) && out.push(" ");
+  const show = (value: Operand) => {
+    if (Buffer.isBuffer(value)) out.push(decodeShown(value, font));
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    if (/\s/.test(src[i])) {
+      i++;
+      continue;
+    }
+    if (src[i] === "%") {
+      // lastIndex searches in place; slicing the rest of the stream would copy it each time
+      EOL.lastIndex = i;
+      i = EOL.exec(src)?.index ?? src.length;
+      continue;
+    }
+
+    const operand = readOperand(src, i);
+    if (operand) {
+      operands.push(operand.value);
+      i = operand.end;
+      continue;
+    }
+
+    const op = /^[^\s/<>[\]()%]+/.exec(src.slice(i, i + 16))?.[0] ?? src[i];
+    i += op.length;
+    const num = (k: number) => Number(operands[operands.length - k]) || 0;
+
+    switch (op) {
+      case "Tf": {
+        const name = operands[operands.length - 2];
+        font = typeof name === "string" ? fonts.get(name.slice(1)) : undefined;
+        break;
+      }
+      case "Tj":
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case '"':
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case "TJ": {
+        const items = operands[operands.length - 1];
+        for (const item of Array.isArray(items) ? items : []) {
+          // Kerning past ~0.2em is a word gap
+          if (typeof item === "number" && item < -200) space();
+          else show(item);
+        }
+        break;
+      }
+      case "Td":
+      case "TD":
+        if (num(1) !== 0) newline();
+        else space();
+        break;
+      case "T*":
+        newline();
+        break;
+      case "Tm": {
+        const y = num(1);
+        if (lastY !== null && y !== lastY) newline();
+        else space();
+        lastY = y;
+        break;
+      }
+      case "ET":
+        space();
+        break;
+      case "BI": {
+        // Inline image data is binary: skip to its end marker
+        INLINE_IMAGE_END.lastIndex = i;
+        const ei = INLINE_IMAGE_END.exec(src);
+        i = ei ? ei.index + 3 : src.length;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  return out.join("");
+}
+
+// ---------------------- pages ----------------------
+
+type PdfPage = { contents: number[]; resources: string | null };
+
+function collectPages(objects: Map<number, PdfObject>): PdfPage[] {
+  const pages: PdfPage[] = [];
+  const seen = new Set<number>();
+
+  const walk = (num: number, inherited: string | null) => {
+    const node = objects.get(num);
+    if (!node || seen.has(num) || pages.length >= MAX_PAGES) return;
+    seen.add(num);
+
+    const resources = resolveDict(objects, dictValue(node.dict, "Resources")) ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+      for (const kid of allRefs(dictValue(node.dict, "Kids"))) walk(kid, resources);
+    } else if (/\/Type\s*\/Page\b/.test(node.dict)) {
+      pages.push({ contents: allRefs(dictValue(node.dict, "Contents")), resources });
+    }
+  };
+
+  for (const [num, obj] of objects) {
+    if (/\/Type\s*\/Pages\b/.test(obj.dict) && !/\/Parent\s/.test(obj.dict)) walk(num, null);
+  }
+  return pages;
+}
+
+function tidy(text: string): string {
+  return text
+    .split("\n")
+    .map(line => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract the text of a PDF, page by page in page-tree order.
+ * Text inside form XObjects and annotations is not read.
+ */
+export function extractPdfText(buf: Buffer): { text: string; pages: number } {
+  if (!buf.subarray(0, 1024).toString("latin1").includes("%PDF-")) throw unreadable("not a PDF file");
+  if (/\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(buf.toString("latin1"))) {
+    throw unreadable("it's encrypted or password-protected");
+  }
+
+  const objects = parseObjects(buf);
+  const pages = collectPages(objects);
+
+  const loadedFonts = new Map<number, PdfFont>();
+  const pageTexts = pages.map(page => {
+    const fonts = loadPageFonts(objects, page.resources, loadedFonts);
+    return page.contents
+      .map(ref => {
+        const obj = objects.get(ref);
+        const data = obj?.stream ? decodeStream(obj.dict, obj.stream) : null;
+        return data ? contentStreamToText(data.toString("latin1"), fonts) : "";
+      })
+      .join("\n");
+  });
+
+  const text = tidy(pageTexts.join("\n\n"));
+  if (!text) throw unreadable("no selectable text; scanned PDFs aren't supported");
+  return { text, pages: pages.length };
+}
@@ -0,0 +1,185 @@
+// Job links in alert emails: pull them out of the message, strip click tracking, and
+// follow redirects until we reach a URL we can analyze directly (or an aggregator we won't).
+
+import type { MimeTextPart } from "./mime";
+import { resolveAtsAdapter } from "@/app/api/data-ingestion/adapters";
+import { isDeniedHost } from "@/app/other/scraper";
+import { guardedFetch } from "@/app/api/data-ingestion/adapters/fetchGuard";
+import { scheduledFetch } from "@/app/api/data-ingestion/adapters/hostScheduler";
+
+const MAX_REDIRECT_HOPS = 5;
+const HOP_TIMEOUT_MS = 8_000;
+
+// Query parameters trackers and link wrappers (Outlook SafeLinks, Google, ESPs) use for the target
+const WRAPPED_URL_PARAMS = ["url", "u", "q", "dest", "destination", "redirect", "redirect_url", "redirectUrl", "target", "link", "r"];
+
+// Links every alert email has that never point at a job. Matched on whole path
+// segments so job slugs like "customer-support-lead" survive.
+const NOT_A_JOB_PATH = /\/(unsubscribe|opt-?out|preferences|settings|privacy|terms|help|support|feedback|login|sign-?in|sign-?up)(\/|$)|\.(png|jpe?g|gif|svg)$/i;
+const NOT_A_JOB_HOST = /(^|\.)(apps\.apple\.com|play\.google\.com|facebook\.com|twitter\.com|x\.com|instagram\.com|youtube\.com)$/i;
+
+// Paths that look like a single posting (or a careers page that redirects to one)
+const JOB_PATH = /job|career|position|opening|vacanc|requisition|apply|posting|opportunit/i;
+
+// Click-tracking hosts/paths that need a request to reveal where they go
+const TRACKER = /^(click|clicks|links?|email|mail|trk|track|t|go|url\d*)\.|\/(ls\/click|click|track|redirect|r)\b|lnkd\.in|grnh\.se/i;
+
+export type ResolvedJobLink = {
+  /** Link as it appeared in the email */
+  link: string;
+  /** Where it ends up; null if it couldn't be followed */
+  url: string | null;
+  status: "direct" | "aggregator" | "unresolved";
+  reason?: string;
+};
+
+const decodeHtmlAttr = (s: string) =>
+  s.replace(/&amp;/gi, "&").replace(/&#0*38;/g, "&").replace(/&quot;/gi, '"').replace(/&#x?0*27;|&apos;/gi, "'");
+
+/**
+ * Every http(s) link in the message, de-duplicated, in order. Plain-text alternatives
+ * mostly repeat the HTML part's links; callers collapse those by canonical form.
+ */
+export function extractEmailLinks(parts: MimeTextPart[]): string[] {
+  const seen = new Set<string>();
+  const links: string[] = [];
+
+  for (const part of parts) {
+    const found = part.contentType === "text/html"
+      ? [...part.text.matchAll(/href\s*=\s*["']([^"']+)["']/gi)].map(m => decodeHtmlAttr(m[1].trim()))
+      : [...part.text.matchAll(/https?:\/\/[^\s<>"')\]]+/gi)].map(m => m[0].replace(/[.,;:]+$/, ""));
+
+    for (const candidate of found) {
+      try {
+        const u = new URL(candidate);
+        if (u.protocol !== "http:" && u.protocol !== "https:") continue;
+        const key = u.toString();
+        if (!seen.has(key)) {
+          seen.add(key);
+          links.push(key);
+        }
+      } catch {
+        // relative or malformed href
+      }
+    }
+  }
+  return links;
+}
+
+/** Peel off wrapper/tracking layers that carry the target in a query parameter. */
+export function unwrapTrackingUrl(url: URL): URL {
+  let current = url;
+  for (let depth = 0; depth < 4; depth++) {
+    let inner: URL | null = null;
+    for (const param of WRAPPED_URL_PARAMS) {
+      const value = current.searchParams.get(param);
+      if (!value || !/^https?:\/\//i.test(value)) continue;
+      try {
+        inner = new URL(value);
+        break;
+      } catch {
+        // not a URL after all
+      }
+    }
+    if (!inner) break;
+    current = inner;
+  }
+  return current;
+}
+
+/** The canonical page of a LinkedIn/Indeed job, or null if the link isn't one. */
+function aggregatorJobLink(u: URL): URL | null {
+  const linkedIn = /linkedin\.com$/i.test(u.hostname) && /\/jobs\/view\/(?:[^/]*-)?(\d+)/.exec(u.pathname);
+  if (linkedIn) return new URL(`https://www.linkedin.com/jobs/view/${linkedIn[1]}`);
+
+  const indeedKey = /indeed\.com$/i.test(u.hostname) && (u.searchParams.get("jk") || u.searchParams.get("vjk"));
+  if (indeedKey) return new URL(`https://www.indeed.com/viewjob?jk=${encodeURIComponent(indeedKey)}`);
+
+  return null;
+}
+
+/**
+ * Collapse aggregator job links to one form so the same job linked from its title,
+ * logo and "View job" button counts once. Other URLs only lose tracking params.
+ */
+export function canonicalJobLink(url: URL): URL {
+  const aggregator = aggregatorJobLink(url);
+  if (aggregator) return aggregator;
+
+  const u = new URL(url.toString());
+  u.hash = "";
+  for (const key of [...u.searchParams.keys()]) {
+    if (/^(utm_|mc_|trk|ref|src|source$|gh_src$)/i.test(key)) u.searchParams.delete(key);
+  }
+  return u;
+}
+
+/** Whether a (unwrapped) link is worth resolving at all. */
+export function isCandidateJobLink(url: URL): boolean {
+  if (NOT_A_JOB_PATH.test(url.pathname) || NOT_A_JOB_HOST.test(url.hostname)) return false;
+  if (resolveAtsAdapter(url) || aggregatorJobLink(url) || JOB_PATH.test(url.pathname + url.search)) return true;
+  // Aggregator redirects aren't followed, so only their job pages are of interest
+  return !isDeniedHost(url) && TRACKER.test(url.hostname + url.pathname);
+}
+
+/**
+ * Follow redirects by hand (never into a denylisted host or a private address) until
+ * the URL stops moving.
+ * returns: the final URL, or null if a hop failed
+ */
+async function followRedirects(start: URL): Promise<URL | null> {
+  let current = start;
+  for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+    if (isDeniedHost(current) || resolveAtsAdapter(current)) return current;
+
+    try {
+      const target = current;
+      const res = await scheduledFetch(target, () => guardedFetch(target, {
+        method: "GET",
+        redirect: "manual",
+        headers: { "User-Agent": "jobbusters/0.1 (+https://example.com)" },
+        signal: AbortSignal.timeout(HOP_TIMEOUT_MS),
+      }));
+      await res.body?.cancel();
+
+      const location = res.headers.get("location");
+      if (res.status < 300 || res.status >= 400 || !location) return current;
+      current = unwrapTrackingUrl(new URL(location, current));
+    } catch (err) {
+      console.warn(`[followRedirects] ${current.host} failed:`, err instanceof Error ? err.message : err);
+      return null;
+    }
+  }
+  return current;
+}
+
+/**
+ * Turn an email link into something the analysis queue can take: a direct ATS or
+ * careers URL ("direct"), or an aggregator page we don't fetch ("aggregator").
+ */
+export async function resolveJobLink(link: string): Promise<ResolvedJobLink> {
+  const unwrapped = unwrapTrackingUrl(new URL(link));
+
+  // Already where we need to be, or somewhere we must not go: no request needed
+  if (resolveAtsAdapter(unwrapped)) return { link, url: canonicalJobLink(unwrapped).toString(), status: "direct" };
+  if (isDeniedHost(unwrapped)) {
+    return {
+      link,
+      url: canonicalJobLink(unwrapped).toString(),
+      status: "aggregator",
+      reason: "Aggregator listing; open it and use the employer's Apply link",
+    };
+  }
+
+  const final = await followRedirects(unwrapped);
+  if (!final) return { link, url: null, status: "unresolved", reason: "Link couldn't be followed" };
+
+  const url = canonicalJobLink(final).toString();
+  if (isDeniedHost(final)) {
+    return { link, url, status: "aggregator", reason: "Redirects to an aggregator listing" };
+  }
+  if (!resolveAtsAdapter(final) && !JOB_PATH.test(final.pathname + final.search)) {
+    return { link, url, status: "unresolved", reason: "Doesn't lead to a job posting" };
+  }
+  return { link, url, status: "direct" };
+}
@@ -0,0 +1,135 @@
+// Minimal MIME reader for job-alert emails (.eml / raw RFC 822). Only what link
+// extraction needs: headers, nested multiparts, forwarded messages, base64 and
+// quoted-printable bodies, and charsets.
+
+export type MimeTextPart = {
+  /** "text/html" or "text/plain" */
+  contentType: string;
+  text: string;
+};
+
+export type ParsedEmail = {
+  subject: string;
+  from: string;
+  date: string | null;
+  /** Every text part, in message order (forwarded messages included) */
+  parts: MimeTextPart[];
+};
+
+const MAX_DEPTH = 8;
+
+type Headers = Map<string, string>;
+
+/** Split at the first blank line; headers are unfolded and keyed lower-case (first wins). */
+function splitMessage(raw: string): { headers: Headers; body: string } {
+  const m = /\r?\n\r?\n/.exec(raw);
+  const head = m ? raw.slice(0, m.index) : raw;
+  const body = m ? raw.slice(m.index + m[0].length) : "";
+
+  const headers: Headers = new Map();
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+/** `type/subtype; key=value; ...` → lower-cased type plus parameters. */
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || "text/plain").split(";");
+  const params: Record<string, string> = {};
+  for (const p of rest) {
+    const eq = p.indexOf("=");
+    if (eq < 0) continue;
+    params[p.slice(0, eq).trim().toLowerCase()] = p.slice(eq + 1).trim().replace(/^"|"$/g, "");
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeQuotedPrintable(s: string): Buffer {
+  const bytes: number[] = [];
+  const src = s.replace(/=\r?\n/g, "");
+  for (let i = 0; i < src.length; i++) {
+    if (src[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(src.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(src.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(src.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    return bytes.toString("utf8"); // unknown charset label
+  }
+}
+
+/** RFC 2047 encoded-words, e.g. =?UTF-8?Q?New_jobs_for_you?= */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?") // whitespace between encoded-words is dropped
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, enc: string, text: string) => {
+      const bytes = enc.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function collectParts(raw: string, out: MimeTextPart[], depth: number): void {
+  if (depth > MAX_DEPTH) return;
+  const { headers, body } = splitMessage(raw);
+  const { type, params } = parseContentType(headers.get("content-type"));
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+    // sections[0] is the preamble; a section starting with "--" follows the closing delimiter
+    for (const section of sections.slice(1)) {
+      if (section.startsWith("--")) break;
+      collectParts(section.replace(/^[ \t]*\r?\n/, ""), out, depth + 1);
+    }
+    return;
+  }
+
+  if (type === "message/rfc822") {
+    collectParts(body, out, depth + 1);
+    return;
+  }
+
+  if (type !== "text/html" && type !== "text/plain") return; // attachments, images, calendars
+
+  const encoding = (headers.get("content-transfer-encoding") || "7bit").toLowerCase();
+  const bytes = encoding === "base64"
+    ? Buffer.from(body.replace(/\s+/g, ""), "base64")
+    : encoding === "quoted-printable"
+      ? decodeQuotedPrintable(body)
+      : Buffer.from(body, "latin1");
+
+  out.push({ contentType: type, text: decodeCharset(bytes, params.charset) });
+}
+
+// Raw 8-bit headers are almost always UTF-8; encoded-words cover the rest
+const headerText = (value: string | undefined) =>
+  decodeEncodedWords(Buffer.from(value ?? "", "latin1").toString("utf8"));
+
+/** Parse a raw message. The input is read byte-for-byte, so any charset survives. */
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const source = raw.toString("latin1");
+  const { headers } = splitMessage(source);
+  const parts: MimeTextPart[] = [];
+  collectParts(source, parts, 0);
+
+  return {
+    subject: headerText(headers.get("subject")),
+    from: headerText(headers.get("from")),
+    date: headers.get("date") ?? null,
+    parts,
+  };
+}
@@ -26,7 +26,7 @@ function getOpenAIClient(): OpenAI {
 type DBFeatures = dbJobFeatures;
 
 // Custom error class for LLM analysis failures
-class LLMAnalysisError extends Error {
+export class LLMAnalysisError extends Error {
   constructor(
     message: string,
     public firstAttemptError: unknown,
@@ -1,40 +1,64 @@
 "use server";
 
 import { createClient } from '@/utils/supabase/server';
-import { createClient as createAdminClient } from '@supabase/supabase-js';
-import { analyzeJob } from '@/app/orchestrator/analyzeJob';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { enqueueChargedIngestionJob } from '@/app/db/ingestionQueue';
+import { request_lock_and_tokens } from '@/app/db/requestLock';
+import { safe } from '@/lib/safe';
+import { drainIngestionQueue, newWorkerId } from '@/app/orchestrator/ingestionWorker';
+import { resolveIfAggregator } from '@/app/orchestrator/resolveAggregatorJob';
+import { after } from 'next/server';
 
 
-// The function that runs on the server and handles the database work
-export async function saveJobCheck(jobUrl: string) {
-    // 1. Get User
-    const supabaseUserClient = await createClient(); 
+// Queue an analysis instead of running it inline; the UI polls
+// /api/ingestion-jobs/{queueId} for the result. Aggregator links are swapped for the
+// employer's own posting when we can find it (pageHtml: optional pasted page source).
+export async function enqueueJobCheck(jobUrl: string, pageHtml?: string) {
+    const supabaseUserClient = await createClient();
     const { data: { user }, error: authError } = await supabaseUserClient.auth.getUser();
 
     if (authError || !user) {
-        console.error("DEBUG: Authentication Failed. Session invalid or user not logged in.");
         return { success: false, error: "Authentication required." };
     }
-    const userId = user.id;
 
-    // 2. Create ADMIN CLIENT
-    const supabaseAdmin = createAdminClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    );
+    const supabaseAdmin = createAdminClient();
 
-    // 3. Call orchestrator to analyze job
-    const result = await analyzeJob(jobUrl, userId, supabaseAdmin);
+    const aggregator = await resolveIfAggregator(jobUrl, supabaseAdmin, pageHtml?.slice(0, 2_000_000));
+    if (aggregator && !aggregator.match) {
+      return { success: false, error: aggregator.reason };
+    }
+    const targetUrl = aggregator?.match?.url ?? jobUrl;
+
+    // Paid for as it's queued; the worker refunds it if the analysis ends up dead.
+    // Reading the balance first creates it for a new user and applies a due refill.
+    const balance = await safe(() => request_lock_and_tokens(user.id));
+    if (!balance.success) {
+      return { success: false, error: "Couldn't check your balance. Please try again." };
+    }
+    if (balance.data.tokens < 1) {
+      return { success: false, error: "You're out of checks for now.", code: "OUT_OF_TOKENS" };
+    }
 
-    if (!result.success) {
-      return { success: false, error: result.error };
+    const enqueued = await safe(() => enqueueChargedIngestionJob(supabaseAdmin, user.id, targetUrl));
+    if (!enqueued.success) {
+      return { success: false, error: "Couldn't queue this job for analysis. Please try again." };
+    }
+    // spent elsewhere since the balance was read
+    const queued = enqueued.data;
+    if (!queued) {
+      return { success: false, error: "You're out of checks for now.", code: "OUT_OF_TOKENS" };
     }
 
+    // Work the queue in-process once the response is sent, so local dev needs no
+    // separate worker. Dedicated workers (npm run worker) share the queue safely.
+    after(async () => {
+      await drainIngestionQueue(supabaseAdmin, { workerId: newWorkerId("request"), maxJobs: 5 });
+    });
+
     return {
       success: true,
-      jobId: result.jobId,
-      score: result.score,
-      features: result.features,
-      nlpAnalysis: result.nlpAnalysis
+      queueId: queued.id,
+      status: queued.status,
+      resolved: aggregator?.match ? { url: targetUrl, message: aggregator.match.message } : null,
     };
-}
\ No newline at end of file
+}
@@ -1,62 +1,87 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { safe } from "@/lib/safe";
-import {
-  getUser,
-  request_lock_and_tokens,
-  set_request_lock,
-  release_request_lock,
-} from "@/utils/supabase/action";
+import { getUser, InsertIntoUserJobCheckTable } from "@/utils/supabase/action";
+import { withChargedRequest } from "@/app/api/chargedRequest";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { analyzeJob } from "@/app/orchestrator/analyzeJob";
+import { ANALYSIS_ERROR_STATUS } from "@/app/orchestrator/errors";
+import { resolveIfAggregator } from "@/app/orchestrator/resolveAggregatorJob";
 
 export const runtime = "nodejs";
 
-export async function POST(req: Request) {
-  let userId: string | null = null;
-  let lockHeld = false;
+const ZGetScoreBody = z.object({
+  url: z.string().trim().url(),
+  // page source pasted for an aggregator link (LinkedIn etc.), to find the employer's posting
+  pageHtml: z.string().max(2_000_000).optional(),
+});
 
+export async function POST(req: Request) {
   try {
+    // validate body before touching locks/tokens
+    const body = await safe(() => req.json());
+    const parsed = ZGetScoreBody.safeParse(body.success ? body.data : null);
+    if (!parsed.success)
+      return NextResponse.json(
+        { error: "Body must be JSON with a valid job `url`", code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+    const { url, pageHtml } = parsed.data;
+
     // get user
     const user = await getUser();
     if ("error" in user || !user?.id)
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    userId = user.id;
-
-    // check lock + tokens
-    const lockInit = await safe(() => request_lock_and_tokens(userId!));
-    if (!lockInit.success)
-      return NextResponse.json({ error: "Lock failed" }, { status: 500 });
-
-    const { is_available, tokens } = lockInit.data;
-    if (tokens <= 0)
-      return NextResponse.json({ error: "Out of tokens" }, { status: 429 });
-    if (!is_available)
-      return NextResponse.json(
-        { error: "Already processing" },
-        { status: 409 }
-      );
+      return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+    const userId = user.id;
 
-    // set lock
-    const gotLock = await set_request_lock(userId!);
-    if (!gotLock)
-      return NextResponse.json(
-        { error: "Already processing" },
-        { status: 409 }
-      );
-    lockHeld = true;
+    return await withChargedRequest(userId, [url], async (charge) => {
+      // analyzeJob writes to jobs/job_features/etc, which needs the admin client
+      const supabaseAdmin = createAdminClient();
+
+      const aggregator = await resolveIfAggregator(url, supabaseAdmin, pageHtml);
+      if (aggregator && !aggregator.match) {
+        await charge.refund(url, "DENYLISTED_HOST");
+        return NextResponse.json(
+          { error: aggregator.reason, code: "DENYLISTED_HOST", retryable: false },
+          { status: ANALYSIS_ERROR_STATUS.DENYLISTED_HOST }
+        );
+      }
+
+      const result = await analyzeJob(aggregator?.match?.url ?? url, userId, supabaseAdmin);
 
-    // ---------------------- MAIN DATA LOGIC ----------------------
-    
+      if (!result.success) {
+        await charge.refund(url, result.errorCode);
+        const code = result.errorCode ?? "UNKNOWN";
+        return NextResponse.json(
+          { error: result.error || "Analysis failed", code, retryable: !!result.retryable },
+          { status: ANALYSIS_ERROR_STATUS[code] }
+        );
+      }
 
-    return NextResponse.json({ success: true }, { status: 200 });
+      // link the job to the user so it shows up in My Jobs (web jobs aren't stored)
+      if (result.persisted && result.jobId) {
+        const linked = await InsertIntoUserJobCheckTable(supabaseAdmin, userId, result.jobId, result.atsUpdatedAt ?? null);
+        if (!linked) console.error("[get_score] Failed to link job to user:", result.jobId);
+      }
+
+      charge.keep(url);
+      return NextResponse.json(
+        {
+          success: true,
+          jobId: result.jobId,
+          score: result.score,
+          features: result.features,
+          nlpAnalysis: result.nlpAnalysis,
+          lifecycle: result.lifecycle ?? null,
+          resolved: aggregator?.match ? { url: aggregator.match.url, message: aggregator.match.message } : null,
+        },
+        { status: 200 }
+      );
+    });
   } catch (err: any) {
     return NextResponse.json(
-      { error: err?.message || "Server error" },
+      { error: err?.message || "Server error", code: "UNKNOWN" },
       { status: 500 }
     );
-  } finally {
-    // release lock
-    if (lockHeld && userId) {
-      const rel = await safe(() => release_request_lock(userId!));
-      if (!rel.success) console.error("[lock release error]", rel.error);
-    }
   }
 }
@@ -0,0 +1,75 @@
+import { NextResponse, after } from "next/server";
+import { safe } from "@/lib/safe";
+import { getUser } from "@/utils/supabase/action";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { request_lock_and_tokens } from "@/app/db/requestLock";
+import { ingestJobAlertEmail } from "@/app/orchestrator/ingestEmail";
+import { drainIngestionQueue, newWorkerId } from "@/app/orchestrator/ingestionWorker";
+
+export const runtime = "nodejs";
+// Following every tracking link can take a while on a long alert
+export const maxDuration = 60;
+
+const MAX_EMAIL_BYTES = 5 * 1024 * 1024;
+
+// The raw message: a form with an .eml `file`, or the message itself as the body
+async function readRawEmail(req: Request): Promise<Buffer | null> {
+  const contentType = req.headers.get("content-type") ?? "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") return null;
+    return Buffer.from(await file.arrayBuffer());
+  }
+
+  const raw = Buffer.from(await req.arrayBuffer());
+  return raw.length ? raw : null;
+}
+
+// Queue every job linked from a job-alert email (LinkedIn, Indeed, Greenhouse, ...)
+export async function POST(req: Request) {
+  try {
+    // get user
+    const user = await getUser();
+    if ("error" in user || !user?.id)
+      return NextResponse.json({ error: "Unauthorized", code: "UNAUTHORIZED" }, { status: 401 });
+
+    const raw = await safe(() => readRawEmail(req));
+    if (!raw.success || !raw.data)
+      return NextResponse.json(
+        { error: "Upload an .eml `file`, or send the raw message as the body", code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+    if (raw.data.length > MAX_EMAIL_BYTES)
+      return NextResponse.json({ error: "Email is too large", code: "INVALID_REQUEST" }, { status: 413 });
+
+    // Each queued link costs a token; reading the balance first creates it for a new
+    // user and applies a due refill
+    const balance = await safe(() => request_lock_and_tokens(user.id));
+    if (!balance.success)
+      return NextResponse.json({ error: "Lock failed", code: "LOCK_FAILED" }, { status: 500 });
+    if (balance.data.tokens < 1)
+      return NextResponse.json({ error: "Out of tokens", code: "OUT_OF_TOKENS" }, { status: 429 });
+
+    const supabaseAdmin = createAdminClient();
+    const result = await ingestJobAlertEmail(raw.data, user.id, supabaseAdmin);
+
+    if (result.jobs.length === 0)
+      return NextResponse.json({ error: "No job links found in this email", code: "NO_JOB_LINKS" }, { status: 422 });
+
+    // Same as a single queued check: work the queue once the response is sent
+    if (result.queuedCount > 0) {
+      after(async () => {
+        await drainIngestionQueue(supabaseAdmin, { workerId: newWorkerId("email"), maxJobs: result.queuedCount });
+      });
+    }
+
+    return NextResponse.json({ success: true, ...result }, { status: 200 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Server error", code: "UNKNOWN" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+// app/api/ingestion-jobs/[id]/events/route.ts
+
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getIngestionJobForUser, toIngestionJobStatus, type dbIngestionJob } from "@/app/db/ingestionQueue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The worker may run in another process, so the stream follows the queue row
+const POLL_INTERVAL_MS = 500;
+const STREAM_TIMEOUT_MS = 3 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Server-Sent Events for a queued analysis:
+//   progress  one stage event (see app/orchestrator/progress.ts)
+//   reset     a retry started; drop the progress shown so far
+//   status    queue status / attempt changed
+//   done      finished (succeeded or dead), same payload as GET /api/ingestion-jobs/{id}
+//   timeout   stopped following; the client should fall back to polling
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return Response.json({ success: false, error: "Not authenticated" }, { status: 401 });
+  }
+
+  const admin = createAdminClient();
+  const initial = await getIngestionJobForUser(admin, id, user.id);
+  if (!initial) {
+    return Response.json({ success: false, error: "Not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      const deadline = Date.now() + STREAM_TIMEOUT_MS;
+      let job: dbIngestionJob | null = initial;
+      let sentProgress = 0;
+      let lastStatusKey = "";
+
+      try {
+        while (!req.signal.aborted) {
+          if (job) {
+            const { progress, result, ...status } = toIngestionJobStatus(job);
+
+            if (progress.length < sentProgress) {
+              send("reset", {});
+              sentProgress = 0;
+            }
+            for (const event of progress.slice(sentProgress)) send("progress", event);
+            sentProgress = progress.length;
+
+            const statusKey = `${status.status}:${status.attempts}:${status.last_error ?? ""}`;
+            if (statusKey !== lastStatusKey) {
+              send("status", status);
+              lastStatusKey = statusKey;
+            }
+
+            if (status.status === "succeeded" || status.status === "dead") {
+              send("done", { ...status, progress, result });
+              break;
+            }
+          }
+
+          if (Date.now() > deadline) {
+            send("timeout", {});
+            break;
+          }
+
+          await sleep(POLL_INTERVAL_MS);
+          job = await getIngestionJobForUser(admin, id, user.id);
+        }
+      } catch (err) {
+        console.error(`[ingestion-jobs/events] Stream for ${id} failed:`, err);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // client already went away
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,28 @@
+// app/api/ingestion-jobs/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { getIngestionJobForUser, toIngestionJobStatus } from "@/app/db/ingestionQueue";
+
+// poll the status (and, once done, the result) of a queued analysis
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const supabase = await createClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ success: false, error: "Not authenticated" }, { status: 401 });
+  }
+
+  const job = await getIngestionJobForUser(createAdminClient(), id, user.id);
+  if (!job) {
+    return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, job: toIngestionJobStatus(job) });
+}
@@ -0,0 +1,16 @@
+// app/api/usage/route.ts
+
+import { NextResponse } from "next/server";
+import { getUsageForCurrentUser } from "@/utils/supabase/action";
+
+// remaining quota, refill schedule and token history for the current user
+export async function GET() {
+  const result = await getUsageForCurrentUser();
+
+  if (!result.success) {
+    const status = result.error === "Not authenticated" ? 401 : 500;
+    return NextResponse.json(result, { status });
+  }
+
+  return NextResponse.json(result);
+}
@@ -2,7 +2,7 @@
 "use client";
 
 import Link from "next/link";
-import { X, Home, Briefcase, User } from "lucide-react";
+import { X, Home, Briefcase, User, ListChecks } from "lucide-react";
 import { SidebarFooter } from "@/app/components/sidebar/SideBarFooter";
 import { usePathname } from "next/navigation";
 
@@ -64,6 +64,11 @@ export function Sidebar({
             <span className="font-medium">Analyze Jobs</span>
           </Link>
 
+          <Link href="/batch" className={linkClass("/batch")} onClick={onClose}>
+            <ListChecks className="w-5 h-5" />
+            <span className="font-medium">Batch Analysis</span>
+          </Link>
+
           <Link href="/my-jobs" className={linkClass("/my-jobs")} onClick={onClose}>
             <Briefcase className="w-5 h-5" />
             <span className="font-medium">My Jobs</span>
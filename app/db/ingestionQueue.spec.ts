@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { enqueueChargedIngestionJob, failIngestionJob } from "./ingestionQueue";
+
+const mockFrom = {
+  update: jest.fn().mockReturnThis(),
+  eq: jest.fn(),
+};
+
+const mockSupabase = {
+  from: jest.fn(() => mockFrom),
+  rpc: jest.fn(),
+};
+const supabase = mockSupabase as unknown as SupabaseClient;
+
+describe("charged queue rows", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFrom.update.mockReturnThis();
+    mockFrom.eq.mockResolvedValue({ error: null });
+  });
+
+  test("enqueue keys ATS URLs by job and returns the row", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [{ id: "q1", charged: true }], error: null });
+
+    const row = await enqueueChargedIngestionJob(supabase, "u1", "https://boards.greenhouse.io/acme/jobs/123");
+
+    expect(row).toMatchObject({ id: "q1", charged: true });
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("enqueue_charged_ingestion_job", {
+      p_user_id: "u1",
+      p_job_key: "greenhouse:acme:123",
+      p_url: "https://boards.greenhouse.io/acme/jobs/123",
+    });
+  });
+
+  test("enqueue returns null when the balance is empty", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [], error: null });
+    expect(await enqueueChargedIngestionJob(supabase, "u1", "https://jobs.example.com/1")).toBeNull();
+  });
+
+  test("enqueue throws on a database error", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: "db down" } });
+    await expect(enqueueChargedIngestionJob(supabase, "u1", "https://jobs.example.com/1")).rejects.toMatchObject({ message: "db down" });
+  });
+
+  test("a dead-lettered row is refunded", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [{ tokens_remaining: 4 }], error: null });
+
+    const status = await failIngestionJob(supabase, { id: "q1", attempts: 1, max_attempts: 5 }, "Not a job posting", false);
+
+    expect(status).toBe("dead");
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("refund_ingestion_job", { p_job_id: "q1" });
+  });
+
+  test("a row going back to the queue keeps its token", async () => {
+    const status = await failIngestionJob(supabase, { id: "q1", attempts: 1, max_attempts: 5 }, "LLM timeout", true);
+
+    expect(status).toBe("queued");
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  test("no refund when the failure couldn't be recorded", async () => {
+    mockFrom.eq.mockResolvedValueOnce({ error: { message: "db down" } });
+
+    expect(await failIngestionJob(supabase, { id: "q1", attempts: 5, max_attempts: 5 }, "LLM timeout", true)).toBeNull();
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
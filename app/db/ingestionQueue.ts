@@ -0,0 +1,234 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseAtsJobKey } from "@/app/other/scraper";
+import { sha1Hex } from "@/app/api/data-ingestion/adapters/util";
+import type { AnalysisProgressEvent } from "@/app/orchestrator/progress";
+
+// Queue DB helpers live here rather than in utils/supabase/action.ts: that file is
+// "use server", and claiming/completing queue rows must not be callable from the browser.
+
+export type IngestionJobStatus = "queued" | "running" | "succeeded" | "dead";
+
+//Fields in ingestion_jobs table (see supabase/migrations)
+export type dbIngestionJob = {
+  id: string;
+  user_id: string;
+  job_key: string;
+  url: string;
+  status: IngestionJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  result: unknown | null;
+  /** Stage events of the current/last attempt */
+  progress: AnalysisProgressEvent[];
+  /** A token was spent on this row and not yet given back */
+  charged: boolean;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+// Retry backoff: 30s, 1m, 2m, 4m, ... capped at 30m, with ±20% jitter
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+
+/**
+ * Idempotency key for a URL. ATS URLs collapse to their composite key so the same
+ * job pasted via different URL forms dedupes; anything else keys on the URL itself.
+ */
+export function deriveJobKey(urlStr: string): string {
+  try {
+    const url = new URL(urlStr);
+    const parsed = parseAtsJobKey(url);
+    if (parsed) return `${parsed.ats}:${parsed.tenant}:${parsed.jobId}`;
+
+    url.hash = "";
+    return `url:${sha1Hex(url.toString())}`;
+  } catch {
+    return `url:${sha1Hex(urlStr.trim())}`;
+  }
+}
+
+/** Delay before the next attempt, given how many attempts have run. */
+export function retryDelayMs(attempts: number): number {
+  const exp = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  const jitter = exp * 0.2 * (Math.random() * 2 - 1);
+  return Math.round(exp + jitter);
+}
+
+/**
+ * Enqueue an analysis the user pays for: the row and its token are one transaction
+ * (enqueue_charged_ingestion_job). An in-flight row for the same job is returned
+ * without spending again. Throws on a database error.
+ * returns: the queue row, or null when the balance is empty
+ */
+export async function enqueueChargedIngestionJob(
+  supabase: SupabaseClient,
+  userId: string,
+  url: string
+): Promise<dbIngestionJob | null> {
+  const { data, error } = await supabase.rpc('enqueue_charged_ingestion_job', {
+    p_user_id: userId,
+    p_job_key: deriveJobKey(url),
+    p_url: url,
+  });
+
+  if (error) {
+    console.error("[enqueueChargedIngestionJob] Failed to enqueue:", error);
+    throw error;
+  }
+
+  const rows = (data ?? []) as dbIngestionJob[];
+  return rows[0] ?? null;
+}
+
+/**
+ * Atomically claim the next runnable job for this worker (see claim_ingestion_job).
+ * returns: the claimed row, or null when nothing is runnable
+ */
+export async function claimIngestionJob(
+  supabase: SupabaseClient,
+  workerId: string
+): Promise<dbIngestionJob | null> {
+  const { data, error } = await supabase.rpc('claim_ingestion_job', { p_worker: workerId });
+
+  if (error) {
+    console.error("[claimIngestionJob] Failed to claim job:", error);
+    return null;
+  }
+
+  const rows = (data ?? []) as dbIngestionJob[];
+  return rows[0] ?? null;
+}
+
+export async function completeIngestionJob(
+  supabase: SupabaseClient,
+  id: string,
+  result: unknown
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      updated_at: now,
+      finished_at: now,
+    })
+    .eq('id', id);
+
+  if (error) {
+    console.error("[completeIngestionJob] Failed to complete job:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Record a failed attempt. Retryable failures go back to 'queued' with backoff until
+ * max_attempts is used up; everything else is dead-lettered with the error kept, and
+ * its token (if it was charged) refunded.
+ * returns: the status the row ended up in, or null on error
+ */
+export async function failIngestionJob(
+  supabase: SupabaseClient,
+  job: Pick<dbIngestionJob, "id" | "attempts" | "max_attempts">,
+  errorMessage: string,
+  retryable: boolean
+): Promise<IngestionJobStatus | null> {
+  const now = new Date();
+  const willRetry = retryable && job.attempts < job.max_attempts;
+  const status: IngestionJobStatus = willRetry ? "queued" : "dead";
+
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status,
+      last_error: errorMessage,
+      locked_at: null,
+      locked_by: null,
+      run_after: willRetry ? new Date(now.getTime() + retryDelayMs(job.attempts)).toISOString() : now.toISOString(),
+      updated_at: now.toISOString(),
+      finished_at: willRetry ? null : now.toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error("[failIngestionJob] Failed to record failure:", error);
+    return null;
+  }
+  if (status === "dead") await refundIngestionJob(supabase, job.id);
+  return status;
+}
+
+/**
+ * Give back the token of a dead-lettered row (refund_ingestion_job). A no-op for rows
+ * that weren't charged or were refunded already.
+ */
+export async function refundIngestionJob(supabase: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('refund_ingestion_job', { p_job_id: id });
+
+  if (error) {
+    console.error("[refundIngestionJob] Failed to refund:", error);
+    return false;
+  }
+  return ((data ?? []) as Array<{ tokens_remaining: number }>).length > 0;
+}
+
+/** Replace the progress events of the running attempt. */
+export async function setIngestionJobProgress(
+  supabase: SupabaseClient,
+  id: string,
+  progress: AnalysisProgressEvent[]
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ progress, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error("[setIngestionJobProgress] Failed to record progress:", error);
+    return false;
+  }
+  return true;
+}
+
+/** What the owner of a queue row gets to see (status polling and the event stream). */
+export function toIngestionJobStatus(job: dbIngestionJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.max_attempts,
+    run_after: job.run_after,
+    last_error: job.last_error,
+    progress: job.progress ?? [],
+    result: job.status === "succeeded" ? job.result : null,
+  };
+}
+
+/** A user's own queue row (for status polling). */
+export async function getIngestionJobForUser(
+  supabase: SupabaseClient,
+  id: string,
+  userId: string
+): Promise<dbIngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getIngestionJobForUser] Failed to load job:", error);
+    return null;
+  }
+  return data as dbIngestionJob | null;
+}
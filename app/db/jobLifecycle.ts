@@ -0,0 +1,76 @@
+import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
+
+/** Why a job stopped being active. */
+export type JobClosedReason =
+  | "not_found"          // the ATS answered 404 / nothing for this job
+  | "removed_from_board" // a board crawl no longer lists it
+  | "expired";           // the posting's own validThrough date has passed
+
+//Lifecycle columns on the jobs table (see supabase/migrations)
+export type dbJobLifecycle = {
+  is_active: boolean | null;
+  first_published: string | null;
+  closed_at: string | null;
+  closed_reason: JobClosedReason | null;
+  reopened_at: string | null;
+  reopen_count: number | null;
+};
+
+export const CLOSED_REASON_LABELS: Record<JobClosedReason, string> = {
+  not_found: "no longer found",
+  removed_from_board: "removed from board",
+  expired: "listing expired",
+};
+
+/**
+ * schema.org `validThrough` from the job's JSON-LD, if any.
+ * Only JSON-LD sources (iCIMS, web) carry it; ATS APIs don't.
+ */
+export function getValidThrough(job: AdapterJob): Date | null {
+  const blocks = job.raw_json.jsonld;
+  const items = Array.isArray(blocks) ? blocks : blocks ? [blocks] : [];
+
+  for (const item of items) {
+    const v = (item as { validThrough?: unknown } | null)?.validThrough;
+    if (typeof v !== "string") continue;
+    const d = new Date(v);
+    if (Number.isFinite(d.getTime())) return d;
+  }
+  return null;
+}
+
+/** True if the posting declares an expiry date that is already behind us. */
+export function isPastValidThrough(job: AdapterJob, now: Date = new Date()): boolean {
+  const validThrough = getValidThrough(job);
+  return validThrough !== null && validThrough.getTime() < now.getTime();
+}
+
+/**
+ * How long a posting has been (or was) up, in whole days.
+ * Measured from first_published to closed_at, or to `now` while it's still open.
+ * Returns null when we don't know when it was published.
+ */
+export function jobLifetimeDays(
+  job: Pick<dbJobLifecycle, "first_published" | "closed_at" | "is_active">,
+  now: Date = new Date()
+): number | null {
+  if (!job.first_published) return null;
+  const start = new Date(job.first_published).getTime();
+  if (!Number.isFinite(start)) return null;
+
+  const closed = job.is_active === false && job.closed_at ? new Date(job.closed_at).getTime() : NaN;
+  const end = Number.isFinite(closed) ? closed : now.getTime();
+  return Math.max(0, Math.floor((end - start) / (1000 * 60 * 60 * 24)));
+}
+
+/** One-line lifetime summary for the UI, e.g. "Open for 12 days" / "Closed after 40 days (listing expired)". */
+export function describeJobLifetime(job: dbJobLifecycle, now: Date = new Date()): string | null {
+  const days = jobLifetimeDays(job, now);
+  const closed = job.is_active === false;
+  const reason = closed && job.closed_reason ? ` (${CLOSED_REASON_LABELS[job.closed_reason]})` : "";
+
+  if (days === null) return closed ? `Closed${reason}` : null;
+
+  const span = `${days} day${days === 1 ? "" : "s"}`;
+  return closed ? `Closed after ${span}${reason}` : `Open for ${span}`;
+}
@@ -1,11 +1,15 @@
-import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
+import type { AdapterCapabilities, AdapterJob } from "@/app/api/data-ingestion/adapters/types";
 import {
   insertIntoJobTable,
   InsertToJobUpdatesTable,
   InsertIntoUserJobCheckTable,
   InsertStructuredJobFeatures,
+  createJobSnapshot,
+  getLatestSnapshotForJob,
 } from "@/utils/supabase/action";
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSnapshotData, hasContentChanged, hasAtsUpdatedAtChanged } from "@/app/db/jobSnapshots";
+import { isPastValidThrough, type JobClosedReason, type dbJobLifecycle } from "@/app/db/jobLifecycle";
 
 
 type IngestResult =
@@ -33,4 +37,140 @@ export async function ingestUserJobPosting(
     console.error(e);
     return { success: false, error: `Unexpected error during ingestion: ${e.message}` };
   }
-}
\ No newline at end of file
+}
+
+
+/**
+ * Record that a job closed. Callers decide whether it was open before,
+ * so an already-closed job keeps its original closed_at.
+ */
+export async function markJobClosed(supabase: SupabaseClient, job_Id: string, reason: JobClosedReason) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("jobs")
+    .update({
+      is_active: false,
+      closed_at: now,
+      closed_reason: reason,
+      last_seen: now,
+    })
+    .eq("id", job_Id);
+
+  if (error) {
+    console.error("[markJobClosed] Failed to close job:", error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Record that a closed job is back. closed_at/closed_reason are kept so the
+ * previous closure stays visible alongside reopened_at. The count is bumped in
+ * one statement (reopen_job in supabase/migrations) so concurrent observations
+ * of the same reopen count it once.
+ * returns: false on error or when there was no closure left to count
+ */
+export async function markJobReopened(supabase: SupabaseClient, job_Id: string) {
+  const { data, error } = await supabase.rpc("reopen_job", { p_job_id: job_Id });
+
+  if (error) {
+    console.error("[markJobReopened] Failed to reopen job:", error);
+    return false;
+  }
+  return ((data ?? []) as Array<{ reopen_count: number }>).length > 0;
+}
+
+
+/** The bits of an already-stored job that recordJobObservation needs. */
+export type ObservedJobRow = { id: string } & Partial<Pick<dbJobLifecycle, "is_active" | "reopen_count">>;
+
+/**
+ * Persist one observation of an ATS job: job_updates history, the jobs upsert,
+ * lifecycle (expiry/reopen), structured features and a snapshot when something changed.
+ * Shared by the user-facing analysis flow and the board crawler.
+ *
+ * `existingJob` must be looked up BEFORE calling, since job_updates compares the
+ * incoming updated_at with the value still in the jobs table, and reopen detection
+ * needs the old is_active.
+ * returns: job ID, or null if the upsert failed
+ */
+export async function recordJobObservation(
+  supabase: SupabaseClient,
+  adapterJob: AdapterJob,
+  existingJob: ObservedJobRow | null,
+  capabilities: AdapterCapabilities
+): Promise<string | null> {
+  const existingJobId = existingJob?.id ?? null;
+
+  // Providers without a real updated_at would only ever log stand-in dates, so skip them.
+  if (existingJobId && capabilities.hasUpdatedAt) {
+    await InsertToJobUpdatesTable(supabase, existingJobId, adapterJob);
+  }
+
+  // A posting past its validThrough is still served by some ATSs but is closed.
+  const expired = isPastValidThrough(adapterJob);
+  const wasClosed = existingJob?.is_active === false;
+
+  // Upsert will create new row or update existing, returns ID
+  const jobId: string | null = await insertIntoJobTable(supabase, adapterJob, !expired);
+  if (!jobId) return null;
+
+  if (expired && !wasClosed) {
+    await markJobClosed(supabase, jobId, "expired");
+  } else if (!expired && wasClosed) {
+    // Seen again after being closed: a reopen (taken down and put back up)
+    if (await markJobReopened(supabase, jobId)) console.log(`[recordJobObservation] Job reopened: ${jobId}`);
+  }
+
+  // For new jobs: Always record the first update (insert directly since comparison would fail)
+  if (!existingJobId && capabilities.hasUpdatedAt && adapterJob.updated_at) {
+    const { error } = await supabase
+      .from("job_updates")
+      .insert({
+        job_id: jobId,
+        ats_updated_at: adapterJob.updated_at
+      });
+
+    if (error) {
+      console.error("[recordJobObservation] Failed to insert first job update:", error);
+    }
+  }
+
+  await InsertStructuredJobFeatures(supabase, jobId, adapterJob);
+
+  //SNAPSHOT LOGIC: Track job changes over time
+  if (!existingJobId) {
+    //New job: Always create first snapshot
+    await createJobSnapshot(supabase, createSnapshotData(jobId, adapterJob));
+    console.log(`[recordJobObservation] Created first snapshot for new job: ${jobId}`);
+    return jobId;
+  }
+
+  const latestSnapshot = await getLatestSnapshotForJob(supabase, jobId);
+
+  // 304 Not Modified: the source hasn't changed since we last fetched it, so there's
+  // nothing new to snapshot and no need to hash the content to find that out
+  if (latestSnapshot && adapterJob.raw_json.fetch?.not_modified) {
+    console.log(`[recordJobObservation] Source not modified - skipped snapshot for: ${jobId}`);
+    return jobId;
+  }
+
+  const newSnapshotData = createSnapshotData(jobId, adapterJob);
+
+  if (!latestSnapshot) {
+    //Job exists but no snapshot yet - create one
+    await createJobSnapshot(supabase, newSnapshotData);
+    console.log(`[recordJobObservation] Created first snapshot for existing job: ${jobId}`);
+  } else if (capabilities.hasUpdatedAt && hasAtsUpdatedAtChanged(latestSnapshot, adapterJob.updated_at)) {
+    //ats_updated_at changed - create new snapshot
+    await createJobSnapshot(supabase, newSnapshotData);
+    const contentChanged = hasContentChanged(latestSnapshot, newSnapshotData);
+    console.log(`[recordJobObservation] ATS updated_at changed - created snapshot for: ${jobId}${contentChanged ? ' (content also changed)' : ' (no content change)'}`);
+  } else if (!capabilities.hasUpdatedAt && hasContentChanged(latestSnapshot, newSnapshotData)) {
+    //No provider updated_at to go on - snapshot when the content itself changed
+    await createJobSnapshot(supabase, newSnapshotData);
+    console.log(`[recordJobObservation] Content changed - created snapshot for: ${jobId}`);
+  }
+
+  return jobId;
+}
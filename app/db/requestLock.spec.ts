@@ -0,0 +1,191 @@
+import {
+  request_lock_and_tokens,
+  set_request_lock,
+  set_request_lock_for_batch,
+  release_request_lock,
+  refund_request_token,
+} from "./requestLock";
+import { createClient } from "@/utils/supabase/server";
+
+const mockFrom = {
+  update: jest.fn().mockReturnThis(),
+  insert: jest.fn().mockReturnThis(),
+  select: jest.fn().mockReturnThis(),
+  eq: jest.fn().mockReturnThis(),
+  maybeSingle: jest.fn(),
+  single: jest.fn(),
+};
+
+const mockSupabase = {
+  from: jest.fn(() => mockFrom),
+  rpc: jest.fn(),
+};
+
+// Balance reads and release go through the user's session; taking the lock, spending,
+// refunds and ledger writes through the service role. One mock stands in for both
+jest.mock("@/utils/supabase/server", () => ({
+  createClient: jest.fn(async () => mockSupabase),
+}));
+jest.mock("@/utils/supabase/admin", () => ({
+  createAdminClient: jest.fn(() => mockSupabase),
+}));
+
+describe("request lock", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ✅ request_lock_and_tokens (new row created)
+  test("request_lock_and_tokens new row", async () => {
+    // return an object (not undefined) from maybeSingle
+    mockFrom.maybeSingle.mockResolvedValueOnce({ data: null, error: null });
+    mockFrom.insert.mockReturnThis();
+    mockFrom.select.mockReturnThis();
+    mockFrom.single.mockResolvedValueOnce({
+      data: { is_available: true, tokens_remaining: 3 },
+      error: null,
+    });
+
+    const res = await request_lock_and_tokens("u1");
+    expect(res).toEqual({ is_available: true, tokens: 3 });
+  });
+
+  // ✅ release_request_lock
+  test("release_request_lock success", async () => {
+    mockFrom.update.mockReturnThis();
+    mockFrom.eq.mockResolvedValueOnce({ error: null });
+    await expect(release_request_lock("u1")).resolves.toBeUndefined();
+  });
+});
+
+describe("set_request_lock (atomic lock + debit)", () => {
+  // In-memory request_lock row; fakeAcquire applies the same single conditional
+  // update as acquire_request_lock() so concurrent callers race on one statement.
+  let lockRow: { is_available: boolean; tokens_remaining: number; locked_at: string | null };
+
+  const fakeAcquire = async (
+    _fn: string,
+    args: { p_user_id: string; p_stale_after_seconds: number; p_tokens: number }
+  ) => {
+    await Promise.resolve(); // let concurrent callers interleave
+    const expired =
+      !lockRow.locked_at ||
+      Date.now() - new Date(lockRow.locked_at).getTime() > args.p_stale_after_seconds * 1000;
+
+    if (lockRow.tokens_remaining >= args.p_tokens && (lockRow.is_available || expired)) {
+      lockRow = {
+        is_available: false,
+        locked_at: new Date().toISOString(),
+        tokens_remaining: lockRow.tokens_remaining - args.p_tokens,
+      };
+      return { data: [{ tokens_remaining: lockRow.tokens_remaining }], error: null };
+    }
+    return { data: [], error: null };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    lockRow = { is_available: true, tokens_remaining: 3, locked_at: null };
+    mockSupabase.rpc.mockImplementation(fakeAcquire);
+  });
+
+  test("concurrent requests: exactly one gets the lock and one token is spent", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => set_request_lock("u1", "https://example.com/job"))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(lockRow.tokens_remaining).toBe(2);
+    expect(lockRow.is_available).toBe(false);
+    expect(lockRow.locked_at).not.toBeNull();
+
+    // lock and debit happen in the rpc, not in separate updates
+    expect(mockSupabase.rpc).toHaveBeenCalledTimes(5);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith(
+      "acquire_request_lock",
+      expect.objectContaining({ p_user_id: "u1" })
+    );
+    expect(mockFrom.update).not.toHaveBeenCalled();
+    // acquire_request_lock takes any user's id: never through the user's session
+    expect(createClient).not.toHaveBeenCalled();
+  });
+
+  test("concurrent requests with one token left: only one is debited", async () => {
+    lockRow.tokens_remaining = 1;
+    const results = await Promise.all([set_request_lock("u1"), set_request_lock("u1")]);
+
+    expect(results.sort()).toEqual([false, true]);
+    expect(lockRow.tokens_remaining).toBe(0);
+  });
+
+  test("a live lock blocks new requests", async () => {
+    lockRow = { is_available: false, tokens_remaining: 3, locked_at: new Date().toISOString() };
+    await expect(set_request_lock("u1")).resolves.toBe(false);
+    expect(lockRow.tokens_remaining).toBe(3);
+  });
+
+  test("an expired lock (crashed request) can be taken over", async () => {
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    lockRow = { is_available: false, tokens_remaining: 3, locked_at: anHourAgo };
+
+    await expect(set_request_lock("u1")).resolves.toBe(true);
+    expect(lockRow.tokens_remaining).toBe(2);
+  });
+
+  test("batch lock spends one token per job, or nothing if the balance is short", async () => {
+    await expect(set_request_lock_for_batch("u1", ["a", "b", "c", "d"])).resolves.toBe(false);
+    expect(lockRow.tokens_remaining).toBe(3);
+
+    await expect(set_request_lock_for_batch("u1", ["a", "b"])).resolves.toBe(true);
+    expect(lockRow.tokens_remaining).toBe(1);
+    expect(mockFrom.insert).toHaveBeenCalledTimes(2); // one ledger debit per job
+  });
+
+  test("rpc errors are thrown", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: "boom" } });
+    await expect(set_request_lock("u1")).rejects.toEqual({ message: "boom" });
+  });
+
+  test("request_lock_and_tokens reports an expired lock as available", async () => {
+    mockFrom.maybeSingle.mockResolvedValueOnce({
+      data: {
+        is_available: false,
+        tokens_remaining: 2,
+        plan: "free",
+        tokens_refilled_at: new Date().toISOString(),
+        locked_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      },
+      error: null,
+    });
+
+    const res = await request_lock_and_tokens("u1");
+    expect(res).toEqual({ is_available: true, tokens: 2 });
+  });
+});
+
+describe("refund_request_token", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("credits the token in one rpc, no read-then-write", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [{ tokens_remaining: 3 }], error: null });
+
+    await expect(refund_request_token("u1", "https://example.com/job", "FETCH_FAILED")).resolves.toBe(true);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith("refund_request_token", {
+      p_user_id: "u1",
+      p_job_url: "https://example.com/job",
+      p_note: "FETCH_FAILED",
+    });
+    expect(mockFrom.update).not.toHaveBeenCalled();
+    expect(mockFrom.insert).not.toHaveBeenCalled(); // the ledger entry is written by the rpc
+  });
+
+  test("reports failure on an rpc error or a missing balance row", async () => {
+    mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: "boom" } });
+    await expect(refund_request_token("u1")).resolves.toBe(false);
+
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [], error: null });
+    await expect(refund_request_token("u1")).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+// Per-user request lock and token balance. The lock itself is taken atomically by the
+// acquire_request_lock() Postgres function (see supabase/migrations).
+//
+// Server-only, like ingestionQueue.ts: these take any user's id, so they must not live
+// in the "use server" actions file where the browser could call them.
+
+import { createClient } from "@/utils/supabase/server";
+import { createAdminClient } from "@/utils/supabase/admin";
+import {
+  PLAN_POLICIES,
+  getPlanPolicy,
+  isRefillDue,
+  refilledBalance,
+  type UsageReason,
+} from "@/app/db/usage";
+
+const DEFAULT_LOCK_TIMEOUT_SECONDS = 300;
+
+/** How long a lock may be held before another request can take it over. */
+export function getRequestLockTimeoutSeconds(): number {
+  const raw = Number(process.env.REQUEST_LOCK_TIMEOUT_SECONDS);
+  return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : DEFAULT_LOCK_TIMEOUT_SECONDS;
+}
+
+/**
+ * A held lock counts as expired once it's older than the timeout. Locks without a
+ * locked_at were taken before it was recorded and are treated as expired too.
+ */
+export function isRequestLockExpired(
+  lockedAt: string | null,
+  now: Date = new Date(),
+  timeoutSeconds: number = getRequestLockTimeoutSeconds()
+): boolean {
+  if (!lockedAt) return true;
+  return now.getTime() - new Date(lockedAt).getTime() > timeoutSeconds * 1000;
+}
+
+
+// Append one row to usage_ledger, as the service role (users can only read the ledger).
+// Ledger failures are logged, not thrown: the balance in request_lock is the source of truth.
+async function recordUsage(
+  userId: string,
+  entry: { delta: number; reason: UsageReason; balance_after: number; job_url?: string | null; note?: string | null }
+) {
+  const { error } = await createAdminClient().from("usage_ledger").insert({
+    user_id: userId,
+    delta: entry.delta,
+    reason: entry.reason,
+    balance_after: entry.balance_after,
+    job_url: entry.job_url ?? null,
+    note: entry.note ?? null,
+  });
+  if (error) console.error("[recordUsage] insert error:", error);
+}
+
+export async function request_lock_and_tokens(userId: string) {
+  const supabase = await createClient();
+
+  const { data: row, error } = await supabase
+    .from("request_lock")
+    .select("is_available, tokens_remaining, plan, tokens_refilled_at, locked_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[request_lock_and_tokens] select error:", error);
+    throw error;
+  }
+
+  if (!row) {
+    const { data: created, error: insertErr } = await supabase
+      .from("request_lock")
+      .insert({ user_id: userId, is_available: true, tokens_remaining: PLAN_POLICIES.free.quota })
+      .select("is_available, tokens_remaining")
+      .single();
+
+    if (insertErr) throw insertErr;
+    await recordUsage(userId, {
+      delta: created.tokens_remaining,
+      reason: "grant",
+      balance_after: created.tokens_remaining,
+    });
+    return {
+      is_available: created!.is_available,
+      tokens: created.tokens_remaining,
+    };
+  }
+
+  // a lock left behind by a crashed request stops blocking once it expires
+  const is_available = row.is_available || isRequestLockExpired(row.locked_at);
+
+  // top the balance back up if a new refill period has started
+  const policy = getPlanPolicy(row.plan);
+  const lastRefilledAt = row.tokens_refilled_at ? new Date(row.tokens_refilled_at) : null;
+  if (isRefillDue(policy, lastRefilledAt)) {
+    const tokens = refilledBalance(policy, row.tokens_remaining);
+
+    // conditional on the old timestamp so concurrent requests only refill once
+    const { data: refilled, error: refillErr } = await supabase
+      .from("request_lock")
+      .update({ tokens_remaining: tokens, tokens_refilled_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("tokens_refilled_at", row.tokens_refilled_at)
+      .select("tokens_remaining")
+      .maybeSingle();
+
+    if (refillErr) {
+      console.error("[request_lock_and_tokens] refill error:", refillErr);
+    } else if (refilled) {
+      const delta = refilled.tokens_remaining - row.tokens_remaining;
+      if (delta > 0) {
+        await recordUsage(userId, { delta, reason: "refill", balance_after: refilled.tokens_remaining });
+      }
+      return { is_available, tokens: refilled.tokens_remaining };
+    }
+  }
+
+  return { is_available, tokens: row.tokens_remaining };
+}
+
+// Take the lock and spend tokens in one atomic step (acquire_request_lock): one
+// token and one ledger entry per job URL. Returns false if the user doesn't have
+// enough tokens or another request holds a live lock.
+async function acquireRequestLock(userId: string, jobUrls: Array<string | null>): Promise<boolean> {
+  const { data, error } = await createAdminClient().rpc("acquire_request_lock", {
+    p_user_id: userId,
+    p_stale_after_seconds: getRequestLockTimeoutSeconds(),
+    p_tokens: jobUrls.length,
+  });
+
+  if (error) throw error;
+  const acquired = (data ?? []) as Array<{ tokens_remaining: number }>;
+  if (acquired.length === 0) return false;
+
+  // balance_after counts down to the final balance, one debit per job
+  const finalBalance = acquired[0].tokens_remaining;
+  for (const [i, jobUrl] of jobUrls.entries()) {
+    await recordUsage(userId, {
+      delta: -1,
+      reason: "analysis",
+      balance_after: finalBalance + (jobUrls.length - 1 - i),
+      job_url: jobUrl,
+    });
+  }
+  return true;
+}
+
+// jobUrl is only recorded in the usage ledger
+export async function set_request_lock(userId: string, jobUrl?: string) {
+  return acquireRequestLock(userId, [jobUrl ?? null]);
+}
+
+// Lock once and pay for several jobs up front; failures are refunded per job
+export async function set_request_lock_for_batch(userId: string, jobUrls: Array<string | null>) {
+  if (jobUrls.length === 0) return false;
+  return acquireRequestLock(userId, jobUrls);
+}
+
+// Spend one more token while this request holds the lock (a batch job starting). The
+// debit and its ledger entry are one statement (spend_request_token in supabase/migrations).
+// returns: false when the balance is empty or no lock is held
+export async function spend_request_token(userId: string, jobUrl?: string): Promise<boolean> {
+  const { data, error } = await createAdminClient().rpc("spend_request_token", {
+    p_user_id: userId,
+    p_job_url: jobUrl ?? null,
+  });
+
+  if (error) throw error;
+  return ((data ?? []) as Array<{ tokens_remaining: number }>).length > 0;
+}
+
+// Give back a token spent by set_request_lock / spend_request_token when the
+// analysis didn't produce a result. The increment and its ledger entry are one statement
+// (refund_request_token in supabase/migrations), which only the service role may run.
+export async function refund_request_token(userId: string, jobUrl?: string, note?: string): Promise<boolean> {
+  const { data, error } = await createAdminClient().rpc("refund_request_token", {
+    p_user_id: userId,
+    p_job_url: jobUrl ?? null,
+    p_note: note ?? null,
+  });
+
+  if (error) {
+    console.error("[refund_request_token] rpc error:", error);
+    return false;
+  }
+  if (((data ?? []) as Array<{ tokens_remaining: number }>).length === 0) {
+    console.error(`[refund_request_token] no request_lock row for ${userId}`);
+    return false;
+  }
+  return true;
+}
+
+export async function release_request_lock(userId: string): Promise<void> {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("request_lock")
+    .update({ is_available: true, locked_at: null })
+    .eq("user_id", userId);
+  if (error) console.error("[release_request_lock] release error:", error);
+}
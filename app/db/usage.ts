@@ -0,0 +1,80 @@
+// Plans and refill policy for the request_lock token balance. Pure helpers only;
+// the queries live in app/db/requestLock.ts.
+
+export type PlanTier = "free" | "pro";
+
+export type RefillPeriod = "day" | "month";
+
+export type UsageReason =
+  | "grant"     // starting balance for a new user
+  | "refill"    // periodic top-up back to the plan quota
+  | "analysis"  // one analysis run (debit)
+  | "refund";   // analysis failed, token given back
+
+export type PlanPolicy = {
+  /** Balance the user is topped back up to at each refill */
+  quota: number;
+  period: RefillPeriod;
+};
+
+// Edit here to change quotas; refills apply the next time a user's balance is read.
+export const PLAN_POLICIES: Record<PlanTier, PlanPolicy> = {
+  free: { quota: 3, period: "day" },
+  pro: { quota: 200, period: "month" },
+};
+
+//Fields in usage_ledger table (see supabase/migrations)
+export type dbUsageLedgerEntry = {
+  id: string;
+  user_id: string;
+  delta: number;
+  reason: UsageReason;
+  balance_after: number;
+  job_url: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type UsageSummary = {
+  plan: PlanTier;
+  tokens_remaining: number;
+  quota: number;
+  period: RefillPeriod;
+  next_refill_at: string;
+  history: dbUsageLedgerEntry[];
+};
+
+export function getPlanPolicy(plan: string | null | undefined): PlanPolicy {
+  return PLAN_POLICIES[plan as PlanTier] ?? PLAN_POLICIES.free;
+}
+
+/** Start of the refill period containing `at` (UTC midnight / first of the month). */
+function periodStart(period: RefillPeriod, at: Date): Date {
+  return period === "day"
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+/** When the balance next resets, given the last refill. */
+export function nextRefillAt(policy: PlanPolicy, lastRefilledAt: Date): Date {
+  const start = periodStart(policy.period, lastRefilledAt);
+  return policy.period === "day"
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+export function isRefillDue(policy: PlanPolicy, lastRefilledAt: Date | null, now: Date = new Date()): boolean {
+  return !lastRefilledAt || now >= nextRefillAt(policy, lastRefilledAt);
+}
+
+/** Refills top up to the quota; they never take away tokens above it (e.g. refunds). */
+export function refilledBalance(policy: PlanPolicy, tokensRemaining: number): number {
+  return Math.max(tokensRemaining, policy.quota);
+}
+
+export const USAGE_REASON_LABELS: Record<UsageReason, string> = {
+  grant: "Starting balance",
+  refill: "Quota refill",
+  analysis: "Job analysis",
+  refund: "Refund (analysis failed)",
+};
@@ -11,8 +11,8 @@ import {
   XCircle,
 } from "lucide-react";
 import { samplePosts, buzzwords } from "@/lib/constants";
-// Note: analyzeJob is now only called server-side via saveJobCheck
-// This home page needs to be updated to use the proper API
+import type { RiskResult as AnalysisRiskResult } from "@/app/orchestrator/analyzeJob";
+import { describeRedFlag } from "@/app/scoring/redFlags";
 
 interface RiskResult {
   score: number;
@@ -25,6 +25,7 @@ const Index = () => {
   const [jobText, setJobText] = useState("");
   const [result, setResult] = useState<RiskResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analyzeError, setAnalyzeError] = useState("");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [visibleElements, setVisibleElements] = useState<Set<string>>(
     new Set()
@@ -33,20 +34,52 @@ const Index = () => {
   const [currentScore, setCurrentScore] = useState(0);
   const observerRef = useRef<IntersectionObserver | null>(null);
 
-  // TODO: Update this function to use the proper API (saveJobCheck)
-  // For now, this is disabled as it uses the old analyzeJob signature
+  // Scores the pasted text via /api/analyze-text. Checks cost a token, so
+  // signed-out visitors are sent to log in first.
   const handleAnalyze = async () => {
     if (!jobText.trim()) return;
-    
+
     setIsAnalyzing(true);
-    alert("This feature needs to be updated to use the new API. Please use the main job-buster page instead.");
-    setIsAnalyzing(false);
+    setAnalyzeError("");
+    try {
+      const res = await fetch("/api/analyze-text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: jobText }),
+      });
+      const data = await res.json() as { success?: boolean; score?: AnalysisRiskResult; error?: string; code?: string };
+
+      if (data.code === "UNAUTHORIZED") {
+        router.push("/auth/login");
+        return;
+      }
+      if (!res.ok || !data.success || !data.score) {
+        setAnalyzeError(data.error || "Unable to analyze this posting. Please try again later.");
+        return;
+      }
+
+      // The API scores legitimacy (1 = real); this page shows ghost risk (100 = ghost)
+      const ghostRisk = Math.round((1 - data.score.score) * 100);
+      setResult({
+        score: ghostRisk,
+        tier: data.score.tier,
+        redFlags: data.score.redFlags.map(describeRedFlag),
+        recommendations: data.score.recommendations,
+      });
+      setCurrentScore(ghostRisk);
+    } catch (err) {
+      console.error("[home] analyze error:", err);
+      setAnalyzeError("Network error while analyzing the posting");
+    } finally {
+      setIsAnalyzing(false);
+    }
   };
 
   const handleSampleClick = (sample: "A" | "B") => {
     setJobText(samplePosts[sample]);
     setResult(null);
     setCurrentScore(0);
+    setAnalyzeError("");
   };
 
   // Intersection Observer for animations
@@ -185,11 +218,15 @@ const Index = () => {
                 <textarea
                   value={jobText}
                   onChange={(e) => setJobText(e.target.value)}
-                  placeholder="Paste job posting URL or full text here..."
+                  placeholder="Paste the full job posting text here..."
                   className="w-full h-32 p-4 border border-slate-300 rounded-lg resize-none focus:ring-2 focus:ring-orange-500 focus:border-transparent text-slate-900 placeholder:text-slate-600 caret-orange-600"
                 />
               </div>
 
+              {analyzeError && (
+                <p className="text-sm text-red-600">{analyzeError}</p>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
                 <button
                   onClick={handleAnalyze}
@@ -229,7 +266,7 @@ const Index = () => {
                     className="w-4 h-4 text-green-500"
                     strokeWidth={2}
                   />
-                  No signup required
+                  Free account, 3 checks a day
                 </span>
               </div>
             </div>
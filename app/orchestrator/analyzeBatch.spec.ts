@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { analyzeBatch, dedupeBatchUrls, type BatchRow } from "./analyzeBatch";
+import { analyzeJob } from "@/app/orchestrator/analyzeJob";
+
+jest.mock("@/app/orchestrator/analyzeJob", () => ({
+  analyzeJob: jest.fn(),
+}));
+
+const analyze = jest.mocked(analyzeJob);
+const supabase = {} as SupabaseClient;
+
+const scored = (url: string) => ({
+  success: true,
+  jobId: `job:${url}`,
+  persisted: true,
+  atsUpdatedAt: null,
+  score: { score: 80, tier: "Low", redFlags: [] },
+}) as unknown as Awaited<ReturnType<typeof analyzeJob>>;
+
+describe("dedupeBatchUrls", () => {
+  it("groups ATS jobs by tenant and other pages by host", () => {
+    const items = dedupeBatchUrls([
+      "https://boards.greenhouse.io/acme/jobs/1",
+      "https://boards.greenhouse.io/acme/jobs/2",
+      "https://boards.greenhouse.io/globex/jobs/3",
+      "https://careers.initech.example/jobs/4",
+    ]);
+
+    expect(items.map(i => i.hostGroup)).toEqual([
+      "greenhouse:acme",
+      "greenhouse:acme",
+      "greenhouse:globex",
+      "careers.initech.example",
+    ]);
+  });
+
+  it("folds URLs for the same job into one item", () => {
+    const items = dedupeBatchUrls([
+      "https://boards.greenhouse.io/acme/jobs/1",
+      "https://job-boards.greenhouse.io/acme/jobs/1?gh_src=mail",
+    ]);
+    expect(items).toHaveLength(1);
+    expect(items[0].duplicates).toEqual(["https://job-boards.greenhouse.io/acme/jobs/1?gh_src=mail"]);
+  });
+});
+
+describe("analyzeBatch", () => {
+  const items = dedupeBatchUrls([
+    "https://boards.greenhouse.io/acme/jobs/1",
+    "https://boards.greenhouse.io/globex/jobs/2",
+    "https://boards.greenhouse.io/acme/jobs/3",
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    analyze.mockImplementation(async (url: string) => scored(url));
+  });
+
+  it("runs tenants of one provider side by side", async () => {
+    let running = 0;
+    let peak = 0;
+    analyze.mockImplementation(async (url: string) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(r => setTimeout(r, 10));
+      running--;
+      return scored(url);
+    });
+
+    await analyzeBatch(items, "u1", supabase, { hostDelayMs: 0 });
+    expect(peak).toBe(2);
+  });
+
+  it("skips jobs onStart refuses, without reporting them as results", async () => {
+    const onResult = jest.fn();
+    const rows = await analyzeBatch(items, "u1", supabase, {
+      hostDelayMs: 0,
+      onStart: item => !item.url.endsWith("/3"),
+      onResult,
+    });
+
+    expect(rows.map(r => r.status)).toEqual(["ok", "ok", "skipped"]);
+    expect(rows[2]).toMatchObject({ status: "skipped", code: "OUT_OF_TOKENS" });
+    expect(onResult).toHaveBeenCalledTimes(2);
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts nothing after the deadline", async () => {
+    const rows = await analyzeBatch(items, "u1", supabase, { hostDelayMs: 0, deadline: Date.now() - 1 });
+
+    expect(rows.every(r => r.status === "skipped" && r.code === "TIME_LIMIT")).toBe(true);
+    expect(analyze).not.toHaveBeenCalled();
+  });
+
+  it("fails a job whose charge errored, without sending it to onResult", async () => {
+    const onResult = jest.fn();
+    const rows = await analyzeBatch(items.slice(0, 1), "u1", supabase, {
+      onStart: async () => {
+        throw new Error("rpc down");
+      },
+      onResult,
+    });
+
+    expect(rows[0]).toMatchObject({ status: "failed", code: "UNKNOWN", error: "rpc down" });
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it("reports analysis failures to onResult for a refund", async () => {
+    analyze.mockResolvedValueOnce({ success: false, error: "gone", errorCode: "FETCH_FAILED" } as Awaited<ReturnType<typeof analyzeJob>>);
+    const seen: BatchRow[] = [];
+    await analyzeBatch(items.slice(0, 1), "u1", supabase, { onResult: row => void seen.push(row) });
+
+    expect(seen).toEqual([expect.objectContaining({ status: "failed", code: "FETCH_FAILED" })]);
+  });
+});
@@ -0,0 +1,198 @@
+// Batch analysis: many job URLs in one request, de-duplicated by composite key and
+// run with bounded concurrency while keeping jobs from any one tenant sequential.
+// (Per-host request pacing is the host scheduler's job, under every fetch.)
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { analyzeJob, type Tier } from "@/app/orchestrator/analyzeJob";
+import type { AnalysisErrorCode } from "@/app/orchestrator/errors";
+import { deriveJobKey } from "@/app/db/ingestionQueue";
+import { hostOf } from "@/app/api/data-ingestion/adapters/util";
+
+export const MAX_BATCH_SIZE = 50;
+
+export type BatchOptions = {
+  /** Hosts analyzed in parallel */
+  concurrency?: number;
+  /** Pause between two jobs on the same host */
+  hostDelayMs?: number;
+  /** Called before each job starts; false skips it as OUT_OF_TOKENS (used to charge per job) */
+  onStart?: (item: BatchItem) => Promise<boolean> | boolean;
+  /** Called after each analyzed job; used to link results and refund failures */
+  onResult?: (row: BatchRow) => Promise<void> | void;
+  /** Epoch ms after which no new job starts; the rest are skipped as TIME_LIMIT */
+  deadline?: number;
+};
+
+/** Why a job in the batch wasn't analyzed. */
+export type BatchSkipCode = "OUT_OF_TOKENS" | "TIME_LIMIT";
+
+/** One unique job in the batch; input URLs that resolved to the same job are folded in. */
+export type BatchItem = {
+  url: string;
+  jobKey: string;
+  /** Jobs run one after another within a group: the ATS tenant ("greenhouse:acme"), or the page host */
+  hostGroup: string;
+  duplicates: string[];
+};
+
+export type BatchRow = BatchItem & (
+  | {
+      status: "ok";
+      jobId: string;
+      persisted: boolean;
+      atsUpdatedAt: string | null;
+      score: number;
+      tier: Tier;
+      redFlags: string[];
+    }
+  | {
+      status: "failed";
+      error: string;
+      code: AnalysisErrorCode;
+    }
+);
+
+/** An item the batch didn't start (and didn't charge for). */
+export type BatchSkipped = BatchItem & { status: "skipped"; code: BatchSkipCode };
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Pull http(s) URLs out of pasted text or CSV: any cell or whitespace-separated
+ * token that parses as a URL counts, so header rows and other columns are ignored.
+ */
+export function parseUrlList(text: string): string[] {
+  const urls: string[] = [];
+  for (const token of text.split(/[\s,;]+/)) {
+    const candidate = token.trim().replace(/^["']+|["']+$/g, "");
+    if (!candidate) continue;
+    try {
+      const u = new URL(candidate);
+      if (u.protocol === "http:" || u.protocol === "https:") urls.push(u.toString());
+    } catch {
+      // not a URL (header, title column, ...)
+    }
+  }
+  return urls;
+}
+
+/** Collapse URLs that point at the same job (same composite key), keeping input order. */
+export function dedupeBatchUrls(urls: string[]): BatchItem[] {
+  const byKey = new Map<string, BatchItem>();
+  for (const url of urls) {
+    const jobKey = deriveJobKey(url);
+    const existing = byKey.get(jobKey);
+    if (existing) {
+      if (existing.url !== url && !existing.duplicates.includes(url)) existing.duplicates.push(url);
+      continue;
+    }
+    // Tenants of one provider are different employers and can run side by side
+    const hostGroup = jobKey.startsWith("url:") ? hostOf(new URL(url)) : jobKey.split(":").slice(0, 2).join(":");
+    byKey.set(jobKey, { url, jobKey, hostGroup, duplicates: [] });
+  }
+  return [...byKey.values()];
+}
+
+async function analyzeBatchItem(
+  item: BatchItem,
+  userId: string,
+  supabase: SupabaseClient
+): Promise<BatchRow> {
+  const result = await analyzeJob(item.url, userId, supabase);
+
+  if (!result.success || !result.score || !result.jobId) {
+    return { ...item, status: "failed", error: result.error || "Analysis failed", code: result.errorCode ?? "UNKNOWN" };
+  }
+
+  return {
+    ...item,
+    status: "ok",
+    jobId: result.jobId,
+    persisted: !!result.persisted,
+    atsUpdatedAt: result.atsUpdatedAt ?? null,
+    score: result.score.score,
+    tier: result.score.tier,
+    redFlags: result.score.redFlags,
+  };
+}
+
+/**
+ * Analyze every item. Items are grouped by hostGroup; up to `concurrency` groups run at
+ * once and each group's items run one after another with `hostDelayMs` between them.
+ * Items refused by `onStart` or not started by `deadline` come back as skipped.
+ * returns: one row per item (analyzed or skipped), in input order
+ */
+export async function analyzeBatch(
+  items: BatchItem[],
+  userId: string,
+  supabase: SupabaseClient,
+  options: BatchOptions = {}
+): Promise<Array<BatchRow | BatchSkipped>> {
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const hostDelayMs = options.hostDelayMs ?? 1000;
+
+  const byHost = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    const list = byHost.get(item.hostGroup) ?? [];
+    list.push(i);
+    byHost.set(item.hostGroup, list);
+  });
+  const hostQueues = [...byHost.values()];
+
+  const rows: Array<BatchRow | BatchSkipped> = new Array(items.length);
+
+  const runHost = async (indexes: number[]) => {
+    let started = 0;
+    for (const i of indexes) {
+      if (options.deadline !== undefined && Date.now() >= options.deadline) {
+        rows[i] = { ...items[i], status: "skipped", code: "TIME_LIMIT" };
+        continue;
+      }
+      if (started > 0 && hostDelayMs > 0) await sleep(hostDelayMs);
+
+      // Not started means not paid for, so these rows don't go to onResult
+      let go = true;
+      try {
+        go = !options.onStart || (await options.onStart(items[i]));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        rows[i] = { ...items[i], status: "failed", error: message, code: "UNKNOWN" };
+        continue;
+      }
+      if (!go) {
+        rows[i] = { ...items[i], status: "skipped", code: "OUT_OF_TOKENS" };
+        continue;
+      }
+      started++;
+
+      let row: BatchRow;
+      try {
+        row = await analyzeBatchItem(items[i], userId, supabase);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        row = { ...items[i], status: "failed", error: message, code: "UNKNOWN" };
+      }
+
+      rows[i] = row;
+      try {
+        await options.onResult?.(row);
+      } catch (err) {
+        console.error(`[analyzeBatch] onResult failed for ${row.url}:`, err);
+      }
+    }
+  };
+
+  // Each lane takes the next waiting host until none are left
+  let nextHost = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, hostQueues.length) }, async () => {
+    while (nextHost < hostQueues.length) {
+      await runHost(hostQueues[nextHost++]);
+    }
+  });
+  await Promise.all(lanes);
+
+  const failed = rows.filter(r => r.status === "failed").length;
+  const skipped = rows.filter(r => r.status === "skipped").length;
+  console.log(`[analyzeBatch] analyzed=${rows.length - skipped} groups=${hostQueues.length} failed=${failed} skipped=${skipped}`);
+  return rows;
+}
@@ -1,15 +1,20 @@
 // Main orchestrator that coordinates scraper, NLP, scoring, and DB
 
-import { scrapeJobFromUrl } from "@/app/other/scraper";
-import { getJobByCompositeKey, insertIntoJobTable, InsertStructuredJobFeatures, InsertToJobUpdatesTable, getJobUpdateTimestamps, createJobSnapshot, getLatestSnapshotForJob, getAllSnapshotsForJob } from "@/utils/supabase/action";
+import { scrapeJobFromUrl, parseAtsJobKey } from "@/app/other/scraper";
+import { checkJobLink, type LinkCheckResult } from "@/app/other/linkCheck";
+import { getAdapterCapabilities, getProviderDisplayName } from "@/app/api/data-ingestion/adapters";
+import { getJobByCompositeKey, getJobUpdateTimestamps, getAllSnapshotsForJob, getJobLifecycle } from "@/utils/supabase/action";
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { analyzeAdapterJob, Combined } from "@/app/api/data-ingestion/nlp/client";
 import { analysisWithLLM } from "@/app/api/data-ingestion/nlp/index";
 import { scoreJob, type AtsJobInput, type AtsJobFeatures } from "@/app/scoring/score";
 import type { analysis } from "@/app/api/data-ingestion/nlp/index";
-import { parseGreenhouseTenantAndJob } from "@/app/api/data-ingestion/adapters/util";
 import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
-import { createSnapshotData, hasContentChanged, hasAtsUpdatedAtChanged } from "@/app/db/jobSnapshots";
+import { JobNotFoundError } from "@/app/api/data-ingestion/adapters/util";
+import { markJobClosed, recordJobObservation } from "@/app/db/jobs";
+import type { dbJobLifecycle } from "@/app/db/jobLifecycle";
+import { reportStage, timedStage, type ProgressListener } from "@/app/orchestrator/progress";
+import { isRetryableAnalysisError, toAnalysisError, type AnalysisErrorCode } from "@/app/orchestrator/errors";
 
 export type Tier = "Low" | "Medium" | "High";
 
@@ -96,7 +101,7 @@ function validateJobPosting(adapterJob: AdapterJob): { isValid: boolean; error?:
 /**
  * Generate user-friendly recommendations based on red flags detected
  */
-function generateRecommendations(breakdown: Record<string, number>): string[] {
+export function generateRecommendations(breakdown: Record<string, number>, linkReason?: string | null): string[] {
   const recommendations: string[] = [];
 
   // Check if there are any red flags (scores < 0.5)
@@ -171,9 +176,42 @@ function generateRecommendations(breakdown: Record<string, number>): string[] {
     }
   }
   
+  // Link integrity: say what was wrong with the link when we know
+  if (breakdown.link_integrity < 0.5) {
+    recommendations.push(`${linkReason ?? "The job link looks unreliable"}. Confirm the role on the employer's own careers site before applying.`);
+  }
+
+  // Lifecycle: taken down and put back up
+  if (breakdown.reopen_history !== undefined && breakdown.reopen_history < 0.5) {
+    recommendations.push("This posting has been taken down and reposted before. Ask whether the role is actively being filled and how long it has been open.");
+  }
+  
   return recommendations;
 }
 
+export function tierForScore(score: number): Tier {
+  return score < 0.4 ? "High" : score < 0.7 ? "Medium" : "Low";
+}
+
+/** Failure result; retryable is derived from the code so callers don't have to guess. */
+export function analysisFailure(errorCode: AnalysisErrorCode, error: string) {
+  return { success: false as const, error, errorCode, retryable: isRetryableAnalysisError(errorCode) };
+}
+
+/** Record the closure of the stored job behind an ATS URL the source says is gone; never throws. */
+async function closeStoredJob(supabase: SupabaseClient, jobUrl: string): Promise<void> {
+  try {
+    const parsed = parseAtsJobKey(new URL(jobUrl));
+    if (!parsed) return;
+    const existingJob = await getJobByCompositeKey(supabase, parsed.ats, parsed.tenant, parsed.jobId);
+    if (existingJob && existingJob.is_active !== false) {
+      await markJobClosed(supabase, existingJob.id, "not_found");
+    }
+  } catch (err) {
+    console.error("[analyzeJob] Failed to record closure:", err);
+  }
+}
+
 /**
  * Analyze a job URL and return scoring results
  * This is the main orchestrator that coordinates all components
@@ -181,52 +219,50 @@ function generateRecommendations(breakdown: Record<string, number>): string[] {
 export async function analyzeJob(
   jobUrl: string,
   userId: string,
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  options: { onProgress?: ProgressListener } = {}
 ): Promise<{
   success: boolean;
   jobId?: string;
   score?: RiskResult;
   features?: Combined;
   nlpAnalysis?: analysis;
+  lifecycle?: dbJobLifecycle;
+  /** Where the submitted link leads and why it did or didn't check out */
+  linkCheck?: LinkCheckResult;
+  /** Whether jobId refers to a stored jobs row (false for ephemeral web jobs) */
+  persisted?: boolean;
+  /** The ATS's own updated_at for the posting (null for web jobs / unknown) */
+  atsUpdatedAt?: string | null;
   error?: string;
+  /** On failure: machine-readable reason (see app/orchestrator/errors.ts) */
+  errorCode?: AnalysisErrorCode;
+  /** On failure: whether trying again later could succeed (queue workers retry these) */
+  retryable?: boolean;
 }> {
   try {
     // 1. Scrape the job to get composite key components
-    const adapterJob = await scrapeJobFromUrl(jobUrl);
-    
+    const { onProgress } = options;
+    let adapterJob: AdapterJob | null;
+    try {
+      adapterJob = await timedStage(onProgress, "fetch", () => scrapeJobFromUrl(jobUrl), job =>
+        job ? `Fetched from ${getProviderDisplayName(job.ats_provider)}` : "Couldn't fetch the posting"
+      );
+    } catch (err) {
+      // Only the source saying 404/410 closes a stored job; outages and 429s leave it alone
+      if (err instanceof JobNotFoundError) await closeStoredJob(supabase, jobUrl);
+      throw err;
+    }
+
     if (!adapterJob) {
-      // Check if scraping failed and whether there is an existing job - mark it as inactive
-      try {
-        const url = new URL(jobUrl);
-        const parsed = parseGreenhouseTenantAndJob(url);
-        if (parsed && (url.hostname.includes('greenhouse.io') || url.hostname.includes('job-boards.greenhouse.io'))) {
-          const { tenant, jobId } = parsed;
-          const existingJob = await getJobByCompositeKey(
-            supabase,
-            "greenhouse",
-            tenant,
-            jobId
-          );
-          
-          if (existingJob) {
-            // Job exists but can't be scraped - mark as inactive
-            await supabase
-              .from('jobs')
-              .update({ 
-                is_active: false,
-                last_seen: new Date().toISOString()
-              })
-              .eq('id', existingJob.id);
-          }
-        }
-      } catch (urlError) {
-        // URL parsing failed, continue with error return
-      }
-      
-      return { success: false, error: "Unable to access this job posting. The website may be blocking automated access, or the URL may be invalid. Please try using the 'Apply Now' link from the company's careers page instead." };
+      return analysisFailure("FETCH_FAILED", "Unable to access this job posting. The website may be blocking automated access, or the URL may be invalid. Please try using the 'Apply Now' link from the company's careers page instead.");
     }
 
+    // Runs alongside the rest of the analysis; it never throws
+    const linkCheckPending = checkJobLink(jobUrl);
+
     const { ats_provider, tenant_slug, external_job_id } = adapterJob;
+    const capabilities = getAdapterCapabilities(ats_provider);
 
     // 2. Check if job exists in DB by composite key
     const existingJob = await getJobByCompositeKey(
@@ -242,13 +278,16 @@ export async function analyzeJob(
     // Type for job returned from database
     type JobWithFeatures = {
       id: string;
+      is_active: boolean | null;
       last_seen: string | null;
       updated_at: string | null;
       job_features?: Array<Combined>;
     };
 
     // Helper function to check if job data is fresh (< 24 hours)
+    // A closed job that scraped fine again is a reopen, so never serve it from cache.
     const isJobFresh = (job: JobWithFeatures): boolean => {
+      if (job.is_active === false) return false;
       const lastSeen = job.last_seen;
       if (!lastSeen) return false; // Null means not fresh
       
@@ -257,9 +296,9 @@ export async function analyzeJob(
       return hoursSinceSeen < 24;
     };
 
-    // For ATS jobs: check cache and persist to DB
+    // For persistable (ATS) jobs: check cache and persist to DB
     // For web jobs: ephemeral only, don't persist to DB
-    if (ats_provider === "greenhouse") {
+    if (capabilities.persistable) {
       if (existingJob && isJobFresh(existingJob) && existingJob.job_features?.[0]) {
         // 3a. ATS job exists, is fresh, and has features - use cached data
         jobId = existingJob.id;
@@ -268,70 +307,27 @@ export async function analyzeJob(
         const dbFeatures = existingJob.job_features[0] as Combined;
         features = dbFeatures;
         
+        reportStage(onProgress, "persist", "Stored job is up to date");
+        reportStage(onProgress, "features", "Cached features used");
         console.log(`[analyzeJob] Using cached ATS job: ${jobId}`);
       } else {
         // 3b. New ATS job OR stale ATS job - scrape and save/update
-        
-        // For existing jobs: Record update BEFORE updating the jobs table
-        // This ensures we compare the incoming updated_at with the OLD value in the database
-        if (existingJob) {
-          await InsertToJobUpdatesTable(supabase, existingJob.id, adapterJob);
-        }
-        
-        // Upsert will create new row or update existing, returns ID
-        jobId = await insertIntoJobTable(supabase, adapterJob);
-        
-        if (!jobId) {
-          return { success: false, error: "Failed to save job to database" };
-        }
+        const savedJobId = await timedStage(
+          onProgress,
+          "persist",
+          () => recordJobObservation(supabase, adapterJob, existingJob, capabilities),
+          id => (!id ? "Couldn't save job" : existingJob ? "Updated stored job" : "Saved new job")
+        );
 
-        // For new jobs: Always record the first update (insert directly since comparison would fail)
-        if (!existingJob && adapterJob.updated_at) {
-          const { error } = await supabase
-            .from("job_updates")
-            .insert({
-              job_id: jobId,
-              ats_updated_at: adapterJob.updated_at
-            });
-          
-          if (error) {
-            console.error("[analyzeJob] Failed to insert first job update:", error);
-          }
+        if (!savedJobId) {
+          return analysisFailure("PERSIST_FAILED", "Failed to save job to database");
         }
+        jobId = savedJobId;
 
         // Run NLP analysis to get features
-        const nlpFeatures = await analyzeAdapterJob(adapterJob);
+        const nlpFeatures = await timedStage(onProgress, "features", () => analyzeAdapterJob(adapterJob), () => "Extracted job features");
         features = nlpFeatures;
-        
-        // Save features to DB
-        await InsertStructuredJobFeatures(supabase, jobId, adapterJob);
-        
-        //SNAPSHOT LOGIC: Track job changes over time
-        //Create snapshot data from the current job data
-        const newSnapshotData = createSnapshotData(jobId, adapterJob);
-        
-        if (!existingJob) {
-          //New job: Always create first snapshot
-          await createJobSnapshot(supabase, newSnapshotData);
-          console.log(`[analyzeJob] Created first snapshot for new ATS job: ${jobId}`);
-        } else {
-          //Existing job: Check if ats_updated_at changed
-          const latestSnapshot = await getLatestSnapshotForJob(supabase, jobId);
-          
-          if (!latestSnapshot) {
-            //Job exists but no snapshot yet - create one
-            await createJobSnapshot(supabase, newSnapshotData);
-            console.log(`[analyzeJob] Created first snapshot for existing ATS job: ${jobId}`);
-          } else if (hasAtsUpdatedAtChanged(latestSnapshot, adapterJob.updated_at)) {
-            //ats_updated_at changed - create new snapshot
-            await createJobSnapshot(supabase, newSnapshotData);
-            const contentChanged = hasContentChanged(latestSnapshot, newSnapshotData);
-            console.log(`[analyzeJob] ATS updated_at changed - created snapshot for: ${jobId}${contentChanged ? ' (content also changed)' : ' (no content change)'}`);
-          } else {
-            console.log(`[analyzeJob] ATS updated_at unchanged, skipping snapshot for: ${jobId}`);
-          }
-        }
-        
+
         if (existingJob) {
           console.log(`[analyzeJob] Updated stale ATS job: ${jobId}`);
         } else {
@@ -344,17 +340,18 @@ export async function analyzeJob(
       // Validate that this is actually a job posting before running expensive NLP
       const validationResult = validateJobPosting(adapterJob);
       if (!validationResult.isValid) {
-        return { 
-          success: false, 
-          error: validationResult.error || "This doesn't appear to be a job posting. Please provide a direct link to a job posting page." 
-        };
+        return analysisFailure(
+          "NOT_A_JOB_POSTING",
+          validationResult.error || "This doesn't appear to be a job posting. Please provide a direct link to a job posting page."
+        );
       }
       
       // Generate a temporary ID for the response (won't be saved)
       jobId = `web-${Date.now()}`;
+      reportStage(onProgress, "persist", "Web postings aren't stored");
       
       // Run NLP analysis to get features
-      const nlpFeatures = await analyzeAdapterJob(adapterJob);
+      const nlpFeatures = await timedStage(onProgress, "features", () => analyzeAdapterJob(adapterJob), () => "Extracted job features");
       features = nlpFeatures;
       
       console.log(`[analyzeJob] Processed ephemeral web job: ${jobId}`);
@@ -367,22 +364,33 @@ export async function analyzeJob(
     const plainText = htmlToPlainText(rawText).slice(0, 20_000);
     console.log(`[analyzeJob] Content length for NLP: ${rawText.length} chars raw -> ${plainText.length} chars plain`);
     
-    const nlpAnalysis = await analysisWithLLM({
-      text: plainText,
-      metadata: {
-        time_type: features?.time_type as string | null,
-        currency: features?.currency as string | null
-      }
-    });
+    const nlpAnalysis = await timedStage(
+      onProgress,
+      "nlp",
+      () => analysisWithLLM({
+        text: plainText,
+        metadata: {
+          time_type: features?.time_type as string | null,
+          currency: features?.currency as string | null
+        }
+      }),
+      analysis => `Analyzed description (${analysis.skills.length} skills found)`
+    );
     
     console.log(`[analyzeJob] NLP extracted ${nlpAnalysis.skills.length} skills:`, nlpAnalysis.skills.map(s => s.name).slice(0, 5));
 
     // 5. Fetch update cadence data for ATS jobs (only if job exists in DB)
     let updateCadenceData: string[] | undefined = undefined;
     let snapshotData: Array<{ content_simhash: string; metadata_simhash: string }> | undefined = undefined;
+    let lifecycle: dbJobLifecycle | null = null;
     
-    if (ats_provider !== "web" && jobId) {
+    if (capabilities.persistable && jobId) {
+      const historyStarted = Date.now();
+      lifecycle = await getJobLifecycle(supabase, jobId);
+
+
       updateCadenceData = await getJobUpdateTimestamps(supabase, jobId);
+      const updateCount = updateCadenceData.length;
       // Only include if we have at least 4 updates (baseline for pattern detection)
       if (updateCadenceData.length < 4) {
         updateCadenceData = undefined; // Not enough data, don't include in scoring
@@ -397,35 +405,50 @@ export async function analyzeJob(
           metadata_simhash: s.metadata_simhash
         }));
       }
+
+      reportStage(
+        onProgress,
+        "history",
+        `Loaded history (${updateCount} updates, ${snapshots.length} snapshots)`,
+        Date.now() - historyStarted
+      );
+    } else {
+      reportStage(onProgress, "history", "No history for web postings");
     }
 
-    // 6. Combine features with NLP analysis for scoring
+    // 6. Link integrity (started right after the fetch)
+    const linkCheck = await timedStage(onProgress, "links", () => linkCheckPending, r =>
+      r.ok === true ? "Link checks out" : r.reason ?? "Couldn't check the link"
+    );
+
+    // 7. Combine features with NLP analysis for scoring
     const scoringInput: AtsJobInput = {
-      source: (ats_provider === "web" ? "web" : "ats") as "ats" | "web",
+      source: (capabilities.persistable ? "ats" : "web") as "ats" | "web",
       absolute_url: adapterJob.absolute_url,
       first_published: adapterJob.first_published,
       updated_at: adapterJob.updated_at,
       features: features as AtsJobFeatures,
-      // For web jobs, if successfully scraped, the link is valid
-      // For ATS jobs, if successfully got the job, the link is valid
-      link_ok: true, // Both web and ATS jobs passed
-      link_loop: false,
+      link_ok: linkCheck.ok,
+      link_loop: linkCheck.loop,
       nlp_analysis: {
         skills: nlpAnalysis.skills,
         buzzwords: nlpAnalysis.buzzwords,
         comp_period_detected: nlpAnalysis.comp_period_detected
       },
       update_cadence_data: updateCadenceData,
-      snapshot_data: snapshotData
+      snapshot_data: snapshotData,
+      reopen_count: lifecycle?.reopen_count ?? undefined
     };
 
-    // 7. Score the job
-    const scoreResult = await scoreJob(scoringInput);
+    // 8. Score the job
+    const scoreResult = await timedStage(onProgress, "score", () => scoreJob(scoringInput), r =>
+      `Scored ${Math.round(r.score * 100)}/100`
+    );
     console.log(`[analyzeJob] Score breakdown:`, scoreResult.breakdown);
-    const tier: Tier = scoreResult.score < 0.4 ? "High" : scoreResult.score < 0.7 ? "Medium" : "Low";
+    const tier = tierForScore(scoreResult.score);
 
     // Generate recommendations based on red flags
-    const recommendations = generateRecommendations(scoreResult.breakdown);
+    const recommendations = generateRecommendations(scoreResult.breakdown, linkCheck.reason);
 
     return {
       success: true,
@@ -437,11 +460,17 @@ export async function analyzeJob(
         recommendations
       },
       features,
-      nlpAnalysis
+      nlpAnalysis,
+      lifecycle: lifecycle ?? undefined,
+      linkCheck,
+      persisted: capabilities.persistable,
+      // For web jobs and providers without one, updated_at is a stand-in (fetch time, posted date)
+      atsUpdatedAt: capabilities.hasUpdatedAt ? adapterJob.updated_at || null : null
     };
 
-  } catch (error: any) {
+  } catch (error) {
     console.error("[analyzeJob] Error:", error);
-    return { success: false, error: error.message || "Unknown error" };
+    const failure = toAnalysisError(error);
+    return analysisFailure(failure.code, failure.message);
   }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+// Text-only analysis: for postings that arrive as pasted text or an uploaded PDF/DOCX
+// with no public link. Same NLP and scoring as analyzeJob, but nothing is fetched or stored.
+
+import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
+import type { DocumentFormat } from "@/app/api/data-ingestion/documents";
+import { sha1Hex } from "@/app/api/data-ingestion/adapters/util";
+import { analyzeAdapterJob, type Combined } from "@/app/api/data-ingestion/nlp/client";
+import { analysisWithLLM, type analysis } from "@/app/api/data-ingestion/nlp/index";
+import { scoreJob, type AtsJobFeatures, type AtsJobInput } from "@/app/scoring/score";
+import {
+  analysisFailure,
+  generateRecommendations,
+  tierForScore,
+  type RiskResult,
+} from "@/app/orchestrator/analyzeJob";
+import { toAnalysisError, type AnalysisErrorCode } from "@/app/orchestrator/errors";
+import { reportStage, timedStage, type ProgressListener } from "@/app/orchestrator/progress";
+
+export const MIN_JOB_TEXT_LENGTH = 200;
+export const MAX_JOB_TEXT_LENGTH = 50_000;
+
+/** The uploaded file the text was extracted from (absent for pasted text). */
+export type TextJobDocument = {
+  file_name: string;
+  format: DocumentFormat;
+  pages: number | null;
+};
+
+const escapeHtml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** First non-empty line, as a best-effort title. */
+function guessTitle(text: string): string {
+  const first = text.split(/\r?\n/).map(l => l.trim()).find(Boolean) ?? "";
+  return first.slice(0, 120);
+}
+
+/**
+ * Wrap pasted or extracted text in an AdapterJob so the NLP passes can run on it
+ * unchanged. Keyed by a hash of the text; there is no URL, company or dates to report.
+ */
+export function buildTextAdapterJob(text: string, document?: TextJobDocument): AdapterJob {
+  const trimmed = text.trim();
+  const hash = sha1Hex(trimmed);
+  const source = document ? "document" : "paste";
+
+  return {
+    ats_provider: "web",
+    tenant_slug: source,
+    external_job_id: hash,
+    title: guessTitle(trimmed),
+    company_name: "",
+    location: "",
+    absolute_url: "",
+    first_published: null,
+    updated_at: new Date().toISOString(),
+    requisition_id: null,
+    // htmlToPlainText runs on content downstream, so keep line breaks as <br>
+    content: escapeHtml(trimmed).replace(/\r?\n/g, "<br>\n"),
+    raw_json: {
+      canonical_candidate: {
+        ats: "web",
+        tenant_slug: source,
+        external_job_id: hash,
+        absolute_url: "",
+        provenance: document ? "document" : "text_only",
+      },
+      text_source: source,
+      ...(document ? { document } : {}),
+      content_metrics: { length_bytes: Buffer.byteLength(trimmed, "utf8"), sha1: hash },
+      _ingest: { needsnlp: true },
+    },
+    features: {},
+  };
+}
+
+/**
+ * Analyze a posting from its text alone: deterministic salary extraction plus the
+ * feature LLM pass (analyzeAdapterJob), the insight LLM pass, then scoreJob.
+ * With no link and no dates, link integrity and freshness score neutral (0.5).
+ */
+export async function analyzeJobText(
+  text: string,
+  options: { onProgress?: ProgressListener; document?: TextJobDocument } = {}
+): Promise<{
+  success: boolean;
+  score?: RiskResult;
+  features?: Combined;
+  nlpAnalysis?: analysis;
+  title?: string;
+  error?: string;
+  errorCode?: AnalysisErrorCode;
+  retryable?: boolean;
+}> {
+  const { onProgress } = options;
+  const trimmed = text.trim();
+
+  if (trimmed.length < MIN_JOB_TEXT_LENGTH) {
+    return analysisFailure(
+      "NOT_A_JOB_POSTING",
+      `Please paste the full job posting (at least ${MIN_JOB_TEXT_LENGTH} characters).`
+    );
+  }
+
+  try {
+    const adapterJob = buildTextAdapterJob(trimmed.slice(0, MAX_JOB_TEXT_LENGTH), options.document);
+    reportStage(onProgress, "fetch", options.document ? `Read ${options.document.file_name}` : "Using pasted text");
+    reportStage(onProgress, "persist", "Text-only checks aren't stored");
+
+    const features = await timedStage(onProgress, "features", () => analyzeAdapterJob(adapterJob), () => "Extracted job features");
+
+    const plainText = trimmed.slice(0, 20_000);
+    const nlpAnalysis = await timedStage(
+      onProgress,
+      "nlp",
+      () => analysisWithLLM({
+        text: plainText,
+        metadata: {
+          time_type: features?.time_type as string | null,
+          currency: features?.currency as string | null
+        }
+      }),
+      a => `Analyzed description (${a.skills.length} skills found)`
+    );
+    reportStage(onProgress, "history", "No posting history without a link");
+    reportStage(onProgress, "links", "No link to check");
+
+    const scoringInput: AtsJobInput = {
+      source: "web",
+      features: features as AtsJobFeatures,
+      // Nothing to follow or date: neutral rather than a penalty
+      first_published: null,
+      updated_at: null,
+      link_ok: null,
+      link_loop: false,
+      nlp_analysis: {
+        skills: nlpAnalysis.skills,
+        buzzwords: nlpAnalysis.buzzwords,
+        comp_period_detected: nlpAnalysis.comp_period_detected
+      },
+    };
+
+    const scoreResult = await timedStage(onProgress, "score", () => scoreJob(scoringInput), r =>
+      `Scored ${Math.round(r.score * 100)}/100`
+    );
+    console.log(`[analyzeJobText] Score breakdown:`, scoreResult.breakdown);
+
+    return {
+      success: true,
+      score: {
+        score: scoreResult.score,
+        tier: tierForScore(scoreResult.score),
+        redFlags: Object.keys(scoreResult.breakdown).filter(k => scoreResult.breakdown[k] < 0.5),
+        recommendations: generateRecommendations(scoreResult.breakdown)
+      },
+      features,
+      nlpAnalysis,
+      title: adapterJob.title,
+    };
+  } catch (error) {
+    console.error("[analyzeJobText] Error:", error);
+    const failure = toAnalysisError(error);
+    return analysisFailure(failure.code, failure.message);
+  }
+}
@@ -0,0 +1,90 @@
+// Board crawler: records every job on a Greenhouse tenant's board so job_updates and
+// job_snapshots history builds up before any user pastes a link.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { greenhouseBoardAdapter } from "@/app/api/data-ingestion/adapters/greenhouse";
+import { getAdapterCapabilities } from "@/app/api/data-ingestion/adapters";
+import { markJobClosed, recordJobObservation, type ObservedJobRow } from "@/app/db/jobs";
+
+export type BoardCrawlResult = {
+  tenant: string;
+  /** Jobs listed on the board */
+  seen: number;
+  created: number;
+  updated: number;
+  /** Previously active jobs no longer on the board */
+  deactivated: number;
+  failed: number;
+};
+
+/**
+ * Crawl one Greenhouse board and persist every job through the same path as a
+ * user-submitted URL. Jobs we had as active that are gone from the board are closed
+ * with reason "removed_from_board". Returns null if the board itself couldn't be
+ * fetched, in which case nothing is changed.
+ */
+export async function crawlGreenhouseBoard(
+  supabase: SupabaseClient,
+  tenant: string
+): Promise<BoardCrawlResult | null> {
+  const jobs = await greenhouseBoardAdapter(tenant);
+  if (!jobs) {
+    console.error(`[crawlGreenhouseBoard] Could not fetch board for tenant=${tenant}`);
+    return null;
+  }
+
+  const result: BoardCrawlResult = { tenant, seen: jobs.length, created: 0, updated: 0, deactivated: 0, failed: 0 };
+  const capabilities = getAdapterCapabilities("greenhouse");
+
+  // One query for what we already know about this tenant instead of one per job
+  const { data: known, error: knownError } = await supabase
+    .from('jobs')
+    .select('id, external_job_id, is_active, reopen_count')
+    .eq('ats', 'greenhouse')
+    .eq('tenant_slug', tenant);
+
+  if (knownError) {
+    console.error(`[crawlGreenhouseBoard] Failed to load known jobs for tenant=${tenant}:`, knownError);
+    return null;
+  }
+
+  const knownByExternalId = new Map<string, ObservedJobRow>(
+    (known ?? []).map(row => [
+      String(row.external_job_id),
+      { id: row.id, is_active: row.is_active, reopen_count: row.reopen_count },
+    ])
+  );
+
+  for (const job of jobs) {
+    const existing = knownByExternalId.get(job.external_job_id);
+    try {
+      const jobId = await recordJobObservation(supabase, job, existing ?? null, capabilities);
+      if (!jobId) {
+        result.failed++;
+      } else if (existing) {
+        result.updated++;
+      } else {
+        result.created++;
+      }
+    } catch (err) {
+      console.error(`[crawlGreenhouseBoard] Failed to record job ${tenant}/${job.external_job_id}:`, err);
+      result.failed++;
+    }
+  }
+
+  // Anything still active that the board no longer lists has been taken down
+  const listed = new Set(jobs.map(j => j.external_job_id));
+  const gone = [...knownByExternalId.entries()]
+    .filter(([externalId, row]) => row.is_active !== false && !listed.has(externalId))
+    .map(([, row]) => row.id);
+
+  for (const jobId of gone) {
+    if (await markJobClosed(supabase, jobId, "removed_from_board")) result.deactivated++;
+  }
+
+  console.log(
+    `[crawlGreenhouseBoard] tenant=${tenant} seen=${result.seen} created=${result.created} ` +
+      `updated=${result.updated} deactivated=${result.deactivated} failed=${result.failed}`
+  );
+  return result;
+}
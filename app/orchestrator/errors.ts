@@ -0,0 +1,85 @@
+// Typed failures for the analysis pipeline, so callers (API routes, queue workers)
+// can tell "your URL is bad" apart from "the LLM is down" without parsing messages.
+
+import OpenAI from "openai";
+import { LLMAnalysisError } from "@/app/api/data-ingestion/nlp/client";
+import { FetchGuardError, type FetchGuardErrorCode } from "@/app/api/data-ingestion/adapters/fetchGuard";
+import { HostRateLimitedError } from "@/app/api/data-ingestion/adapters/hostScheduler";
+import { JobNotFoundError } from "@/app/api/data-ingestion/adapters/util";
+
+export type AnalysisErrorCode =
+  | "INVALID_URL"
+  | "DENYLISTED_HOST"
+  | "ROBOTS_BLOCKED"
+  | "FETCH_FAILED"
+  | "RATE_LIMITED"
+  | "NOT_A_JOB_POSTING"
+  | "UNSUPPORTED_DOCUMENT"
+  | "LLM_FAILED"
+  | "PERSIST_FAILED"
+  | "UNKNOWN";
+
+// HTTP status each code maps to in API responses
+export const ANALYSIS_ERROR_STATUS: Record<AnalysisErrorCode, number> = {
+  INVALID_URL: 400,
+  DENYLISTED_HOST: 403,
+  ROBOTS_BLOCKED: 451,
+  FETCH_FAILED: 502,
+  RATE_LIMITED: 503,
+  NOT_A_JOB_POSTING: 422,
+  UNSUPPORTED_DOCUMENT: 415,
+  LLM_FAILED: 503,
+  PERSIST_FAILED: 500,
+  UNKNOWN: 500,
+};
+
+// Which failures could succeed on a later attempt. FETCH_FAILED is not: adapters
+// already retried 429s and 5xx, and a 404/410 means the posting is gone.
+const RETRYABLE_CODES: ReadonlySet<AnalysisErrorCode> = new Set<AnalysisErrorCode>([
+  "RATE_LIMITED", // the site asked us to back off for a while
+  "LLM_FAILED",
+  "PERSIST_FAILED",
+  "UNKNOWN",
+]);
+
+// Refused fetches: links we won't follow are the user's URL problem; the rest are fetch failures
+const FETCH_GUARD_CODES: Record<FetchGuardErrorCode, AnalysisErrorCode> = {
+  BLOCKED_SCHEME: "INVALID_URL",
+  BLOCKED_PORT: "INVALID_URL",
+  BLOCKED_ADDRESS: "INVALID_URL",
+  DNS_FAILED: "FETCH_FAILED",
+  TOO_MANY_REDIRECTS: "FETCH_FAILED",
+  BODY_TOO_LARGE: "FETCH_FAILED",
+  UNSUPPORTED_CONTENT_TYPE: "NOT_A_JOB_POSTING",
+};
+
+export class AnalysisError extends Error {
+  constructor(
+    public code: AnalysisErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+export function isRetryableAnalysisError(code: AnalysisErrorCode): boolean {
+  return RETRYABLE_CODES.has(code);
+}
+
+/** Classify anything thrown during analysis; unrecognised errors become UNKNOWN. */
+export function toAnalysisError(err: unknown): AnalysisError {
+  if (err instanceof AnalysisError) return err;
+  if (err instanceof LLMAnalysisError) return new AnalysisError("LLM_FAILED", err.message);
+  if (err instanceof FetchGuardError) return new AnalysisError(FETCH_GUARD_CODES[err.code], err.message);
+  if (err instanceof HostRateLimitedError) return new AnalysisError("RATE_LIMITED", err.message);
+  if (err instanceof JobNotFoundError) return new AnalysisError("FETCH_FAILED", err.message);
+
+  // OpenAI SDK errors (rate limits, outages) carry an HTTP status
+  if (err instanceof OpenAI.APIError) {
+    return new AnalysisError("LLM_FAILED", err.message);
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  return new AnalysisError("UNKNOWN", message || "Unknown error");
+}
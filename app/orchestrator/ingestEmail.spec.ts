@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ingestJobAlertEmail } from "./ingestEmail";
+import { enqueueChargedIngestionJob, type dbIngestionJob } from "@/app/db/ingestionQueue";
+
+jest.mock("@/app/db/ingestionQueue", () => ({
+  ...jest.requireActual("@/app/db/ingestionQueue"),
+  enqueueChargedIngestionJob: jest.fn(),
+}));
+jest.mock("@/app/api/data-ingestion/email/links", () => ({
+  ...jest.requireActual("@/app/api/data-ingestion/email/links"),
+  resolveJobLink: jest.fn(async (link: string) => ({ link, url: link, status: "direct" })),
+}));
+jest.mock("@/app/orchestrator/resolveAggregatorJob", () => ({
+  resolveIfAggregator: jest.fn(async () => null),
+}));
+
+const enqueue = jest.mocked(enqueueChargedIngestionJob);
+const supabase = {} as SupabaseClient;
+
+const alert = (...links: string[]) =>
+  Buffer.from(
+    [
+      "From: Jobs <alerts@example.com>",
+      "Subject: New jobs for you",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      links.map(href => `<a href="${href}">View job</a>`).join("<br>"),
+    ].join("\r\n")
+  );
+
+const links = [1, 2, 3].map(n => `https://boards.greenhouse.io/acme/jobs/${n}`);
+
+describe("ingestJobAlertEmail", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("pays for each queued link", async () => {
+    enqueue.mockImplementation(async (_supabase, _userId, url) => ({ id: `q:${url}` }) as dbIngestionJob);
+
+    const result = await ingestJobAlertEmail(alert(...links), "u1", supabase);
+
+    expect(result.queuedCount).toBe(3);
+    expect(enqueue).toHaveBeenCalledTimes(3);
+    expect(enqueue).toHaveBeenCalledWith(supabase, "u1", links[0]);
+  });
+
+  it("stops queueing once the balance is empty and lists the rest as not queued", async () => {
+    enqueue.mockResolvedValueOnce({ id: "q1" } as dbIngestionJob).mockResolvedValueOnce(null);
+
+    const result = await ingestJobAlertEmail(alert(...links), "u1", supabase);
+
+    expect(result.queuedCount).toBe(1);
+    expect(enqueue).toHaveBeenCalledTimes(2);
+    expect(result.jobs.map(job => [job.queued, job.code])).toEqual([
+      [true, undefined],
+      [false, "OUT_OF_TOKENS"],
+      [false, "OUT_OF_TOKENS"],
+    ]);
+  });
+
+  it("reports a link whose enqueue failed and carries on", async () => {
+    enqueue
+      .mockRejectedValueOnce(new Error("db down"))
+      .mockImplementation(async (_supabase, _userId, url) => ({ id: `q:${url}` }) as dbIngestionJob);
+
+    const result = await ingestJobAlertEmail(alert(...links), "u1", supabase);
+
+    expect(result.queuedCount).toBe(2);
+    expect(result.jobs[0]).toMatchObject({ queued: false, reason: "Couldn't queue this job" });
+    expect(result.jobs[0].code).toBeUndefined();
+  });
+});
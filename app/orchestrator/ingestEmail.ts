@@ -0,0 +1,134 @@
+// Job-alert email ingestion: every job link in an uploaded .eml is unwrapped, followed
+// to its direct URL and queued for analysis, one token each. Aggregator listings are never
+// fetched: they're queued when the employer's own posting turns up, and reported otherwise.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseEmail } from "@/app/api/data-ingestion/email/mime";
+import {
+  extractEmailLinks,
+  isCandidateJobLink,
+  resolveJobLink,
+  unwrapTrackingUrl,
+  canonicalJobLink,
+  type ResolvedJobLink,
+} from "@/app/api/data-ingestion/email/links";
+import { deriveJobKey, enqueueChargedIngestionJob } from "@/app/db/ingestionQueue";
+import { safe } from "@/lib/safe";
+import { MAX_BATCH_SIZE } from "@/app/orchestrator/analyzeBatch";
+import { resolveIfAggregator } from "@/app/orchestrator/resolveAggregatorJob";
+
+// Links resolved at once; each may take a few redirect hops
+const RESOLVE_CONCURRENCY = 4;
+
+export type EmailJobRow = ResolvedJobLink & {
+  queued: boolean;
+  queueId?: string;
+  /** Why a direct link wasn't queued when the balance ran out */
+  code?: "OUT_OF_TOKENS";
+};
+
+export type EmailIngestResult = {
+  subject: string;
+  from: string;
+  /** One row per distinct job link, in email order */
+  jobs: EmailJobRow[];
+  queuedCount: number;
+};
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  });
+  await Promise.all(lanes);
+  return out;
+}
+
+/** resolveJobLink, then swap an aggregator listing for the employer's posting when one is found. */
+async function resolveToEmployer(link: string, supabase: SupabaseClient): Promise<ResolvedJobLink> {
+  const row = await resolveJobLink(link);
+  if (row.status !== "aggregator") return row;
+
+  // The link as written keeps the title/company slug the canonical form drops
+  const lookup = (await resolveIfAggregator(unwrapTrackingUrl(new URL(link)).toString(), supabase))
+    ?? (row.url ? await resolveIfAggregator(row.url, supabase) : null);
+  if (!lookup?.match) return row;
+  return { link, url: lookup.match.url, status: "direct", reason: lookup.match.message };
+}
+
+/**
+ * Parse a raw message, resolve its job links and queue the direct ones for the user,
+ * one token each. Links that land on the same job (same composite key) are queued once.
+ */
+export async function ingestJobAlertEmail(
+  raw: Buffer,
+  userId: string,
+  supabase: SupabaseClient
+): Promise<EmailIngestResult> {
+  const email = parseEmail(raw);
+
+  // Cheap filtering first: most links in an alert are logos, footers and settings
+  const seen = new Set<string>();
+  const candidates: string[] = [];
+  for (const link of extractEmailLinks(email.parts)) {
+    const unwrapped = unwrapTrackingUrl(new URL(link));
+    if (!isCandidateJobLink(unwrapped)) continue;
+    const key = canonicalJobLink(unwrapped).toString();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    candidates.push(link);
+  }
+
+  const resolved = await mapWithConcurrency(candidates.slice(0, MAX_BATCH_SIZE * 2), RESOLVE_CONCURRENCY, link =>
+    resolveToEmployer(link, supabase)
+  );
+
+  const jobs: EmailJobRow[] = [];
+  const queuedKeys = new Set<string>();
+  const reportedUrls = new Set<string>();
+  let queuedCount = 0;
+  let outOfTokens = false;
+
+  for (const row of resolved) {
+    if (row.status !== "direct" || !row.url) {
+      if (row.url && reportedUrls.has(row.url)) continue;
+      if (row.url) reportedUrls.add(row.url);
+      if (row.status !== "unresolved") jobs.push({ ...row, queued: false });
+      continue;
+    }
+
+    const url = row.url;
+    const jobKey = deriveJobKey(url);
+    if (queuedKeys.has(jobKey)) continue;
+    queuedKeys.add(jobKey);
+
+    if (queuedCount >= MAX_BATCH_SIZE) {
+      jobs.push({ ...row, queued: false, reason: `Only the first ${MAX_BATCH_SIZE} jobs per email are queued` });
+      continue;
+    }
+
+    // Each link is paid for as it's queued; once the balance is empty the rest are only listed
+    const queued = outOfTokens ? null : await safe(() => enqueueChargedIngestionJob(supabase, userId, url));
+    if (queued && !queued.success) {
+      jobs.push({ ...row, queued: false, reason: "Couldn't queue this job" });
+      continue;
+    }
+    if (!queued?.data) {
+      outOfTokens = true;
+      jobs.push({ ...row, queued: false, code: "OUT_OF_TOKENS", reason: "Not queued: no tokens left" });
+      continue;
+    }
+    queuedCount++;
+    jobs.push({ ...row, queued: true, queueId: queued.data.id });
+  }
+
+  console.log(
+    `[ingestJobAlertEmail] links=${candidates.length} jobs=${jobs.length} queued=${queuedCount}` +
+      (outOfTokens ? " (out of tokens)" : "")
+  );
+  return { subject: email.subject, from: email.from, jobs, queuedCount };
+}
@@ -0,0 +1,107 @@
+// Queue worker: claims queued analyses and runs them through analyzeJob, so a slow
+// site or an LLM hiccup costs a retry instead of failing the user's request.
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { analyzeJob } from "@/app/orchestrator/analyzeJob";
+import {
+  claimIngestionJob,
+  completeIngestionJob,
+  failIngestionJob,
+  setIngestionJobProgress,
+  type dbIngestionJob,
+} from "@/app/db/ingestionQueue";
+import type { AnalysisProgressEvent } from "@/app/orchestrator/progress";
+import { InsertIntoUserJobCheckTable } from "@/utils/supabase/action";
+
+export type DrainOptions = {
+  workerId?: string;
+  /** Stop after this many jobs (keeps in-request draining bounded) */
+  maxJobs?: number;
+  /** Checked between jobs; return true to stop early (e.g. on SIGINT) */
+  shouldStop?: () => boolean;
+};
+
+export function newWorkerId(prefix: string = "worker"): string {
+  return `${prefix}-${process.pid}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Run one claimed job to completion and record the outcome on its queue row.
+ * Never throws: failures are written back to the row.
+ */
+export async function processIngestionJob(
+  supabase: SupabaseClient,
+  job: dbIngestionJob
+): Promise<void> {
+  console.log(`[ingestionWorker] Processing ${job.id} (${job.job_key}), attempt ${job.attempts}/${job.max_attempts}`);
+
+  // Progress writes are chained so they land in order without blocking the analysis;
+  // a retry starts from an empty list.
+  const progress: AnalysisProgressEvent[] = [];
+  let progressWrites: Promise<unknown> = Promise.resolve();
+  const writeProgress = (events: AnalysisProgressEvent[]) => {
+    progressWrites = progressWrites
+      .then(() => setIngestionJobProgress(supabase, job.id, events))
+      .catch(err => console.error(`[ingestionWorker] ${job.id} progress write failed:`, err));
+  };
+  const onProgress = (event: AnalysisProgressEvent) => {
+    progress.push(event);
+    writeProgress([...progress]);
+  };
+  writeProgress([]);
+
+  try {
+    const result = await analyzeJob(job.url, job.user_id, supabase, { onProgress });
+    await progressWrites;
+
+    if (result.success) {
+      // link the job to the user so it shows up in My Jobs (web jobs aren't stored)
+      if (result.persisted && result.jobId) {
+        const linked = await InsertIntoUserJobCheckTable(supabase, job.user_id, result.jobId, result.atsUpdatedAt ?? null);
+        if (!linked) console.error(`[ingestionWorker] ${job.id} failed to link job to user:`, result.jobId);
+      }
+
+      await completeIngestionJob(supabase, job.id, {
+        jobId: result.jobId,
+        score: result.score,
+        features: result.features,
+        nlpAnalysis: result.nlpAnalysis,
+        lifecycle: result.lifecycle,
+      });
+      return;
+    }
+
+    const status = await failIngestionJob(supabase, job, result.error ?? "Unknown error", !!result.retryable);
+    console.warn(`[ingestionWorker] ${job.id} failed (${status ?? "unrecorded"}): ${result.error}`);
+  } catch (err) {
+    await progressWrites;
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[ingestionWorker] ${job.id} crashed:`, err);
+    await failIngestionJob(supabase, job, message, true);
+  }
+}
+
+/**
+ * Claim and process jobs until the queue has nothing runnable (or maxJobs is hit).
+ * Safe to run from several processes at once: claims use SKIP LOCKED.
+ * returns: number of jobs processed
+ */
+export async function drainIngestionQueue(
+  supabase: SupabaseClient,
+  options: DrainOptions = {}
+): Promise<number> {
+  const workerId = options.workerId ?? newWorkerId();
+  const maxJobs = options.maxJobs ?? Infinity;
+  let processed = 0;
+
+  while (processed < maxJobs && !options.shouldStop?.()) {
+    const job = await claimIngestionJob(supabase, workerId);
+    if (!job) break;
+
+    await processIngestionJob(supabase, job);
+    processed++;
+  }
+
+  return processed;
+}
@@ -0,0 +1,61 @@
+// Stage events emitted by analyzeJob while it runs. Shared with the client (no
+// server imports here) so the progress indicator and the worker agree on stages.
+
+export type AnalysisStage = "fetch" | "persist" | "features" | "nlp" | "history" | "links" | "score";
+
+/** Stages in the order analyzeJob runs them, with labels for the progress indicator. */
+export const ANALYSIS_STAGES: ReadonlyArray<{ stage: AnalysisStage; label: string }> = [
+  { stage: "fetch", label: "Fetch posting" },
+  { stage: "persist", label: "Save job" },
+  { stage: "features", label: "Extract features" },
+  { stage: "nlp", label: "Analyze description" },
+  { stage: "history", label: "Load history" },
+  { stage: "links", label: "Check link" },
+  { stage: "score", label: "Score" },
+];
+
+export type AnalysisProgressEvent = {
+  stage: AnalysisStage;
+  /** e.g. "Fetched from Greenhouse", "Cached features used" */
+  message: string;
+  /** How long the stage took; null for stages that did no work */
+  durationMs: number | null;
+  at: string;
+};
+
+export type ProgressListener = (event: AnalysisProgressEvent) => void;
+
+export function formatProgressEvent(event: AnalysisProgressEvent): string {
+  return event.durationMs === null ? event.message : `${event.message} (${event.durationMs}ms)`;
+}
+
+/** Report a stage that did no timed work. Listener errors never break the analysis. */
+export function reportStage(
+  onProgress: ProgressListener | undefined,
+  stage: AnalysisStage,
+  message: string,
+  durationMs: number | null = null
+): void {
+  if (!onProgress) return;
+  try {
+    onProgress({ stage, message, durationMs, at: new Date().toISOString() });
+  } catch (err) {
+    console.warn(`[progress] listener failed for stage=${stage}:`, err);
+  }
+}
+
+/**
+ * Run one stage, time it, and report it with a message built from its result.
+ * Nothing is reported if the stage throws; the caller's error handling takes over.
+ */
+export async function timedStage<T>(
+  onProgress: ProgressListener | undefined,
+  stage: AnalysisStage,
+  run: () => T | Promise<T>,
+  describe: (result: T) => string
+): Promise<T> {
+  const started = Date.now();
+  const result = await run();
+  reportStage(onProgress, stage, describe(result), Date.now() - started);
+  return result;
+}
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recrawlJobs } from "./recrawlJobs";
+
+// Each query resolves to the next page in `pages`, recording the .range() it asked for
+function pagedSupabase(pages: Record<string, unknown[][]>) {
+  const ranges: Record<string, [number, number][]> = {};
+  const from = (table: string) => {
+    const query = {
+      select: () => query,
+      neq: () => query,
+      order: () => query,
+      in: () => query,
+      range: async (start: number, end: number) => {
+        (ranges[table] ??= []).push([start, end]);
+        return { data: pages[table].shift() ?? [], error: null };
+      },
+    };
+    return query;
+  };
+  return { supabase: { from } as unknown as SupabaseClient, ranges };
+}
+
+const job = (n: number) => ({ id: `j${n}`, ats: "greenhouse", tenant_slug: "acme", external_job_id: String(n) });
+
+describe("recrawlJobs", () => {
+  it("pages through every job past the first 1000", async () => {
+    const { supabase, ranges } = pagedSupabase({
+      jobs: [Array.from({ length: 1000 }, (_, n) => job(n)), [job(1000), job(1001)]],
+    });
+
+    const result = await recrawlJobs(supabase, { scope: "all", staleAfterHours: 24, delayMs: 0, shouldStop: () => true });
+
+    expect(result.considered).toBe(1002);
+    expect(ranges.jobs).toEqual([
+      [0, 999],
+      [1000, 1999],
+    ]);
+  });
+
+  it("pages through tracked checks before looking the jobs up", async () => {
+    const checks = Array.from({ length: 1000 }, (_, n) => ({ job_id: `j${n % 300}` }));
+    const { supabase, ranges } = pagedSupabase({ user_job_checks: [checks, [{ job_id: "j300" }]], jobs: [] });
+
+    await recrawlJobs(supabase, { scope: "tracked", staleAfterHours: 24, delayMs: 0, shouldStop: () => true });
+
+    expect(ranges.user_job_checks).toHaveLength(2);
+  });
+});
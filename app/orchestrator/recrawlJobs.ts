@@ -0,0 +1,198 @@
+// Re-crawl worker: re-fetches jobs we already track so job_updates and job_snapshots
+// keep growing between user checks, instead of only when someone re-submits a URL.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdapter } from "@/app/api/data-ingestion/adapters";
+import type { AdapterJob, AtsAdapterProvider } from "@/app/api/data-ingestion/adapters/types";
+import { JobNotFoundError } from "@/app/api/data-ingestion/adapters/util";
+import { markJobClosed, recordJobObservation } from "@/app/db/jobs";
+
+export type RecrawlScope = "tracked" | "all";
+
+export type RecrawlOptions = {
+  /** "tracked" = jobs in user_job_checks; "all" = every active persisted job */
+  scope: RecrawlScope;
+  /** Skip jobs seen more recently than this */
+  staleAfterHours: number;
+  /** Pause between jobs so we don't hammer any one ATS */
+  delayMs: number;
+  /** Checked between jobs; return true to stop early (e.g. on SIGINT) */
+  shouldStop?: () => boolean;
+};
+
+export type RecrawlResult = {
+  considered: number;
+  refreshed: number;
+  closed: number;
+  skipped: number;
+  failed: number;
+};
+
+type RecrawlRow = {
+  id: string;
+  ats: string;
+  tenant_slug: string;
+  external_job_id: string;
+  absolute_url: string;
+  is_active: boolean | null;
+  reopen_count: number | null;
+  last_seen: string | null;
+};
+
+const RECRAWL_COLUMNS = 'id, ats, tenant_slug, external_job_id, absolute_url, is_active, reopen_count, last_seen';
+
+// PostgREST puts `in (...)` filters in the URL; keep batches well under URL limits.
+const ID_BATCH_SIZE = 200;
+
+// PostgREST caps each response (1000 rows by default); page through with .range() instead.
+const PAGE_SIZE = 1000;
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Every row of a query, one page at a time. `page` must apply a stable order.
+ * On an error, logs it and returns the rows read so far.
+ */
+async function fetchAllPages<T>(
+  label: string,
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error(`[recrawlJobs] Failed to load ${label}:`, error);
+      return rows;
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Job IDs that at least one user has checked. */
+async function getTrackedJobIds(supabase: SupabaseClient): Promise<string[]> {
+  const rows = await fetchAllPages<{ job_id: string }>("tracked jobs", (from, to) =>
+    supabase
+      .from('user_job_checks')
+      .select('job_id')
+      // no id column: order by the (user_id, job_id) key
+      .order('job_id')
+      .order('user_id')
+      .range(from, to)
+  );
+  return [...new Set(rows.map(row => String(row.job_id)))];
+}
+
+async function getRecrawlCandidates(
+  supabase: SupabaseClient,
+  scope: RecrawlScope
+): Promise<RecrawlRow[]> {
+  if (scope === "all") {
+    // Closed jobs are included too: seeing them again is how reopens get detected.
+    return fetchAllPages<RecrawlRow>("jobs", (from, to) =>
+      supabase
+        .from('jobs')
+        .select(RECRAWL_COLUMNS)
+        .neq('ats', 'web')
+        .order('id')
+        .range(from, to)
+    );
+  }
+
+  const ids = await getTrackedJobIds(supabase);
+  const rows: RecrawlRow[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select(RECRAWL_COLUMNS)
+      .in('id', ids.slice(i, i + ID_BATCH_SIZE));
+
+    if (error) {
+      console.error("[recrawlJobs] Failed to load tracked job rows:", error);
+      continue;
+    }
+    rows.push(...((data ?? []) as RecrawlRow[]));
+  }
+  return rows;
+}
+
+function isRecentlySeen(row: RecrawlRow, staleAfterHours: number): boolean {
+  if (!row.last_seen) return false;
+  const hoursSinceSeen = (Date.now() - new Date(row.last_seen).getTime()) / (1000 * 60 * 60);
+  return hoursSinceSeen < staleAfterHours;
+}
+
+/**
+ * Re-fetch one stored job through its adapter, using the stored composite key.
+ * returns: "refreshed" | "closed" | "skipped" | "failed"
+ */
+async function recrawlJob(
+  supabase: SupabaseClient,
+  row: RecrawlRow
+): Promise<"refreshed" | "closed" | "skipped" | "failed"> {
+  const adapter = getAdapter(row.ats as AtsAdapterProvider);
+  if (!adapter || !adapter.capabilities.persistable) return "skipped";
+
+  let url: URL;
+  try {
+    url = new URL(row.absolute_url);
+  } catch {
+    return "skipped";
+  }
+
+  let adapterJob: AdapterJob | null;
+  try {
+    adapterJob = await adapter.fetchJob(url, {
+      tenant_slug: row.tenant_slug,
+      external_job_id: row.external_job_id,
+    });
+  } catch (err) {
+    if (!(err instanceof JobNotFoundError)) throw err;
+    // The ATS says it's gone
+    if (row.is_active === false) return "skipped";
+    return (await markJobClosed(supabase, row.id, "not_found")) ? "closed" : "failed";
+  }
+
+  // Outage, rate limit or unreadable payload: try again next pass
+  if (!adapterJob) return "failed";
+
+  const jobId = await recordJobObservation(supabase, adapterJob, row, adapter.capabilities);
+  return jobId ? "refreshed" : "failed";
+}
+
+/**
+ * One pass over the jobs in scope. Jobs are processed one at a time; network and
+ * DB errors on one job are counted and don't stop the pass.
+ */
+export async function recrawlJobs(
+  supabase: SupabaseClient,
+  options: RecrawlOptions
+): Promise<RecrawlResult> {
+  const rows = await getRecrawlCandidates(supabase, options.scope);
+  const result: RecrawlResult = { considered: rows.length, refreshed: 0, closed: 0, skipped: 0, failed: 0 };
+
+  for (const row of rows) {
+    if (options.shouldStop?.()) break;
+
+    if (isRecentlySeen(row, options.staleAfterHours)) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const outcome = await recrawlJob(supabase, row);
+      result[outcome]++;
+    } catch (err) {
+      console.error(`[recrawlJobs] Failed to re-crawl ${row.ats}/${row.tenant_slug}/${row.external_job_id}:`, err);
+      result.failed++;
+    }
+
+    if (options.delayMs > 0) await sleep(options.delayMs);
+  }
+
+  console.log(
+    `[recrawlJobs] scope=${options.scope} considered=${result.considered} refreshed=${result.refreshed} ` +
+      `closed=${result.closed} skipped=${result.skipped} failed=${result.failed}`
+  );
+  return result;
+}
@@ -0,0 +1,153 @@
+// Aggregator → employer: find the posting behind a LinkedIn/Indeed/Glassdoor link on
+// the employer's own ATS board, so it can be analyzed like any direct link.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AtsAdapterProvider, BoardPosting } from "@/app/api/data-ingestion/adapters/types";
+import { ATS_ADAPTERS, getAdapter } from "@/app/api/data-ingestion/adapters";
+import {
+  extractAggregatorHints,
+  guessTenantSlugs,
+  titleSimilarity,
+  type AggregatorHints,
+} from "@/app/api/data-ingestion/aggregators";
+import { isDeniedHost } from "@/app/other/scraper";
+
+// Below this the titles differ in more than wording ("Engineer" vs "Engineering Manager")
+const MIN_TITLE_SIMILARITY = 0.75;
+// Boards fetched per lookup: known tenants first, then slug guesses
+const MAX_BOARDS = 12;
+
+export type AggregatorMatch = {
+  url: string;
+  provider: AtsAdapterProvider;
+  tenant: string;
+  title: string;
+  similarity: number;
+  /** e.g. "We found this job on Acme's Greenhouse board" */
+  message: string;
+};
+
+export type AggregatorResolution = {
+  hints: AggregatorHints;
+  match: AggregatorMatch | null;
+  /** Why nothing was found, for the user */
+  reason?: string;
+};
+
+type BoardCandidate = { provider: AtsAdapterProvider; tenant: string };
+
+/** Boards we already hold jobs for under this company name. */
+async function knownBoardsForCompany(supabase: SupabaseClient, company: string): Promise<BoardCandidate[]> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('ats, tenant_slug')
+    .ilike('company_name', company.replace(/[%_]/g, "\\$&"))
+    .neq('ats', 'web')
+    .limit(50);
+
+  if (error) {
+    console.error("[resolveAggregatorJob] Failed to look up known boards:", error);
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return (data ?? []).flatMap(row => {
+    const key = `${row.ats}:${row.tenant_slug}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ provider: row.ats as AtsAdapterProvider, tenant: String(row.tenant_slug) }];
+  });
+}
+
+function bestTitleMatch(postings: BoardPosting[], title: string): { posting: BoardPosting; similarity: number } | null {
+  let best: { posting: BoardPosting; similarity: number } | null = null;
+  for (const posting of postings) {
+    const similarity = titleSimilarity(title, posting.title);
+    if (!best || similarity > best.similarity) best = { posting, similarity };
+  }
+  return best;
+}
+
+/**
+ * Look up an aggregator listing on the employer's boards. Only the URL and the
+ * user-supplied HTML are read; the aggregator itself is never requested.
+ */
+export async function resolveAggregatorJob(
+  url: URL,
+  supabase: SupabaseClient,
+  pageHtml?: string | null
+): Promise<AggregatorResolution> {
+  const hints = extractAggregatorHints(url, pageHtml);
+  if (!hints.company || !hints.title) {
+    return {
+      hints,
+      match: null,
+      reason: `We couldn't tell the company and job title from this ${hints.source} link. ` +
+        "Paste the page's source as well, or open the listing and use the employer's Apply link.",
+    };
+  }
+
+  const candidates: BoardCandidate[] = await knownBoardsForCompany(supabase, hints.company);
+  for (const tenant of guessTenantSlugs(hints.company)) {
+    for (const adapter of ATS_ADAPTERS) {
+      if (!adapter.listBoard) continue;
+      if (!candidates.some(c => c.provider === adapter.provider && c.tenant === tenant)) {
+        candidates.push({ provider: adapter.provider, tenant });
+      }
+    }
+  }
+
+  let best: AggregatorMatch | null = null;
+  for (const { provider, tenant } of candidates.slice(0, MAX_BOARDS)) {
+    const adapter = getAdapter(provider);
+    const postings = adapter?.listBoard ? await adapter.listBoard(tenant) : null;
+    if (!adapter || !postings?.length) continue;
+
+    const found = bestTitleMatch(postings, hints.title);
+    if (!found || found.similarity < MIN_TITLE_SIMILARITY) continue;
+    if (best && found.similarity <= best.similarity) continue;
+
+    best = {
+      url: found.posting.absolute_url,
+      provider,
+      tenant,
+      title: found.posting.title,
+      similarity: found.similarity,
+      message: `We found this job on ${hints.company}'s ${adapter.displayName} board`,
+    };
+    if (found.similarity === 1) break; // exact title: no need to look further
+  }
+
+  console.log(
+    `[resolveAggregatorJob] ${hints.source} "${hints.title}" @ "${hints.company}": ` +
+      (best ? `${best.provider}/${best.tenant} (${best.similarity.toFixed(2)})` : "no match")
+  );
+
+  if (!best) {
+    return {
+      hints,
+      match: null,
+      reason: `We couldn't find "${hints.title}" on ${hints.company}'s job boards. ` +
+        `Open the ${hints.source} listing and paste the employer's Apply link instead.`,
+    };
+  }
+  return { hints, match: best };
+}
+
+/**
+ * For callers holding a user-submitted URL: null when it isn't an aggregator link
+ * (analyze as-is), otherwise the lookup result.
+ */
+export async function resolveIfAggregator(
+  urlStr: string,
+  supabase: SupabaseClient,
+  pageHtml?: string | null
+): Promise<AggregatorResolution | null> {
+  let url: URL;
+  try {
+    url = new URL(urlStr);
+  } catch {
+    return null; // the analysis reports invalid URLs
+  }
+  return isDeniedHost(url) ? resolveAggregatorJob(url, supabase, pageHtml) : null;
+}
@@ -0,0 +1,101 @@
+import { checkJobLink } from "./linkCheck";
+import type { HttpFixture, RecordedExchange } from "@/test/http/fixtures";
+import { startReplayServer, type ReplayServer } from "@/test/http/replayServer";
+
+const posting = (applyHref: string) =>
+  `<html><head><title>Data Engineer</title></head><body><h1>Data Engineer</h1>` +
+  `<p>Build pipelines.</p><a href="${applyHref}">Apply now</a></body></html>`;
+
+describe("checkJobLink", () => {
+  let server: ReplayServer;
+
+  const site = (name: string, pages: Array<[string, number, string?, Record<string, string>?]>): HttpFixture => {
+    const exchanges: RecordedExchange[] = pages.map(([url, status, body = "", headers = {}]) => ({
+      url,
+      status,
+      headers: { "content-type": "text/html; charset=utf-8", ...headers },
+      body,
+    }));
+    return { name, description: "", origin: "hand-built", target: { kind: "web", url: exchanges[0].url }, exchanges, expect: {} };
+  };
+
+  beforeAll(async () => {
+    server = await startReplayServer();
+    server.load([
+      site("listed-apply-host", [
+        ["https://j101.acme.example.com/jobs/101", 200, posting("https://recruiting.paylocity.com/Recruiting/Jobs/Apply/101")],
+        ["https://recruiting.paylocity.com/Recruiting/Jobs/Apply/101", 200, "<html><title>Apply</title></html>"],
+      ]),
+      site("unknown-apply-host", [
+        ["https://j102.acme.example.com/jobs/102", 200, posting("https://apply.hr-portal.example.net/acme/102")],
+        ["https://apply.hr-portal.example.net/acme/102", 200, "<html><title>Apply</title></html>"],
+      ]),
+      site("unknown-apply-host-gone", [
+        ["https://j103.acme.example.com/jobs/103", 200, posting("https://apply.hr-portal.example.net/acme/103")],
+        ["https://apply.hr-portal.example.net/acme/103", 404, "not found"],
+      ]),
+      site("same-site-apply", [
+        ["https://j104.acme.example.com/jobs/104", 200, posting("/jobs/104/apply")],
+        ["https://j104.acme.example.com/jobs/104/apply", 200, "<html><title>Apply</title></html>"],
+      ]),
+      site("redirect-to-index", [
+        ["https://j105.acme.example.com/jobs/105", 302, "", { location: "/careers" }],
+        ["https://j105.acme.example.com/careers", 200, "<html><title>Careers</title></html>"],
+      ]),
+      site("gone", [["https://j106.acme.example.com/jobs/106", 410, "gone"]]),
+      site("soft-404", [
+        ["https://j107.acme.example.com/jobs/107", 200, "<html><title>Acme careers</title><body>This job is no longer available.</body></html>"],
+      ]),
+      site("loop", [
+        ["https://j108.acme.example.com/jobs/108", 302, "", { location: "/jobs/108b" }],
+        ["https://j108.acme.example.com/jobs/108b", 302, "", { location: "/jobs/108" }],
+      ]),
+    ]);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("accepts an apply button on a known application system", async () => {
+    const result = await checkJobLink("https://j101.acme.example.com/jobs/101");
+    expect(result).toMatchObject({ ok: true, reason: null });
+  });
+
+  it("calls an apply host it can't place inconclusive, not broken", async () => {
+    const result = await checkJobLink("https://j102.acme.example.com/jobs/102");
+    expect(result.ok).toBeNull();
+    expect(result.reason).toMatch(/apply\.hr-portal\.example\.net/);
+  });
+
+  it("still reports an apply link that 404s, whatever its host", async () => {
+    const result = await checkJobLink("https://j103.acme.example.com/jobs/103");
+    expect(result).toMatchObject({ ok: false, reason: "The Apply button leads to a page that no longer exists" });
+  });
+
+  it("accepts an apply page on the employer's own site", async () => {
+    expect((await checkJobLink("https://j104.acme.example.com/jobs/104")).ok).toBe(true);
+  });
+
+  it("flags a posting that redirects to the careers index", async () => {
+    const result = await checkJobLink("https://j105.acme.example.com/jobs/105");
+    expect(result.ok).toBe(false);
+    expect(result.finalUrl).toBe("https://j105.acme.example.com/careers");
+    expect(result.hops.map(h => h.status)).toEqual([302, 200]);
+  });
+
+  it("flags a gone page and a soft 404", async () => {
+    expect((await checkJobLink("https://j106.acme.example.com/jobs/106")).ok).toBe(false);
+    expect((await checkJobLink("https://j107.acme.example.com/jobs/107")).ok).toBe(false);
+  });
+
+  it("flags redirect loops", async () => {
+    expect(await checkJobLink("https://j108.acme.example.com/jobs/108")).toMatchObject({ ok: false, loop: true });
+  });
+
+  it("refuses private addresses through the shared guard", async () => {
+    const result = await checkJobLink("http://169.254.169.254/latest/meta-data/");
+    expect(result.ok).toBeNull();
+    expect(result.hops).toEqual([{ url: "http://169.254.169.254/latest/meta-data/", status: null }]);
+  });
+});
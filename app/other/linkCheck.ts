@@ -0,0 +1,310 @@
+/**
+ * Link integrity for a job URL: follow redirects by hand (with a hop limit) and look at
+ * where the link really ends up. Ghost postings tend to bounce to the careers index or
+ * homepage, serve a "no longer available" page with a 200, or send "Apply" somewhere dead.
+ *
+ * Every hop goes through fetchWithRetry, so it gets the same SSRF guard, host scheduling
+ * and HTTP cache as the scrape of the same page.
+ *
+ * The check never throws: anything it can't decide is reported as inconclusive (ok: null),
+ * which scores neutral rather than as a broken link.
+ */
+
+import { resolveAtsAdapter } from "@/app/api/data-ingestion/adapters";
+import { fetchWithRetry, hostOf } from "@/app/api/data-ingestion/adapters/util";
+import { FetchGuardError } from "@/app/api/data-ingestion/adapters/fetchGuard";
+
+const MAX_HOPS = 8;
+const HOP_TIMEOUT_MS = 8_000;
+// Enough to reach the title, headline and apply buttons of any posting page
+const MAX_BODY_BYTES = 512 * 1024;
+// Apply targets that leave the page are checked too, but only the first few
+const MAX_APPLY_LINKS = 2;
+
+const USER_AGENT = "jobbusters/0.1 (+https://example.com)";
+
+// Hosted application forms: an apply button pointing here is expected, whatever the page's domain.
+// Not exhaustive: an apply host missing here is reported as inconclusive, never as broken.
+const APPLY_HOSTS = [
+  "greenhouse.io", "lever.co", "ashbyhq.com", "myworkdayjobs.com", "smartrecruiters.com",
+  "icims.com", "workable.com", "bamboohr.com", "jobvite.com", "recruitee.com", "breezy.hr",
+  "applytojob.com", "taleo.net", "successfactors.com", "oraclecloud.com", "teamtailor.com",
+  "personio.de", "personio.com", "rippling.com", "dover.com", "workatastartup.com",
+  "adp.com", "paylocity.com", "ultipro.com", "ukg.com", "paycomonline.net", "linkedin.com",
+];
+
+// A bare careers index or homepage, optionally under a locale prefix: /, /en/, /careers, /de-de/jobs/
+const INDEX_PATH = /^\/(?:[a-z]{2}(?:[-_][a-z]{2})?\/)?(?:careers?|jobs?|join(?:-us)?|work-with-us|opportunities|openings|positions|vacancies)?\/?$/i;
+
+// Said by pages that answer 200 for a job that's gone
+const SOFT_404_TITLE = /\b(404|not found|page (?:doesn'?t|does not) exist|no longer (?:available|active|open)|job (?:has )?expired|position (?:has been )?(?:filled|closed))\b/i;
+const SOFT_404_BODY = /\b(?:this|the) (?:job|position|posting|role|opening|vacancy) (?:is|has been|you(?:'re| are) looking for is) (?:no longer (?:available|open|active|accepting applications)|closed|filled|expired|removed)|no longer accepting applications|(?:job|posting|page) you (?:are|were|'re) looking for (?:could ?n[o']t be found|does ?n[o']t exist|is no longer available)/i;
+
+export type LinkHop = {
+  url: string;
+  /** HTTP status, or null if the request failed */
+  status: number | null;
+};
+
+export type LinkCheckResult = {
+  /** true = link works and leads to the posting; false = broken; null = couldn't tell */
+  ok: boolean | null;
+  /** Redirects went in a circle or past the hop limit */
+  loop: boolean;
+  /** Why the link failed (or couldn't be checked); null when it's fine */
+  reason: string | null;
+  /** Where the redirects ended; null if the first request failed */
+  finalUrl: string | null;
+  hops: LinkHop[];
+};
+
+type FollowResult = {
+  hops: LinkHop[];
+  final: URL | null;
+  response: Response | null;
+  loop: boolean;
+  error?: string;
+  /** Set when the fetch guard refused the hop */
+  guardCode?: FetchGuardError["code"];
+};
+
+/** A problem with an apply target: definite (ok: false) or one we can't confirm (ok: null). */
+type ApplyProblem = { ok: false | null; reason: string };
+
+const sameUrl = (u: URL) => {
+  const copy = new URL(u.toString());
+  copy.hash = "";
+  return copy.toString();
+};
+
+/** Registrable part of a host, roughly: last two labels, three under two-letter second levels (co.uk). */
+function siteOf(host: string): string {
+  const labels = host.split(".");
+  const take = labels.length >= 3 && /^(co|com|org|net|gov|ac|edu)$/.test(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-take).join(".");
+}
+
+function isApplyHost(host: string): boolean {
+  return APPLY_HOSTS.some(h => host === h || host.endsWith("." + h));
+}
+
+/**
+ * Follow redirects one hop at a time, each one SSRF-checked before it's requested. The
+ * final response is returned unread so the caller can look at the page; intermediate
+ * bodies are discarded.
+ */
+async function followRedirects(start: URL): Promise<FollowResult> {
+  const hops: LinkHop[] = [];
+  const seen = new Set<string>();
+  let current = start;
+
+  for (let hop = 0; hop <= MAX_HOPS; hop++) {
+    const key = sameUrl(current);
+    if (seen.has(key)) return { hops, final: current, response: null, loop: true };
+    seen.add(key);
+
+    let res: Response;
+    try {
+      res = await fetchWithRetry(
+        current.toString(),
+        { method: "GET", redirect: "manual", headers: { Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8" } },
+        { retries: 1, timeoutMs: HOP_TIMEOUT_MS, userAgent: USER_AGENT }
+      );
+    } catch (err) {
+      hops.push({ url: current.toString(), status: null });
+      return {
+        hops,
+        final: null,
+        response: null,
+        loop: false,
+        error: err instanceof Error ? err.message : String(err),
+        guardCode: err instanceof FetchGuardError ? err.code : undefined,
+      };
+    }
+    hops.push({ url: current.toString(), status: res.status });
+
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) {
+      return { hops, final: current, response: res, loop: false };
+    }
+    await res.body?.cancel();
+
+    try {
+      current = new URL(location, current);
+    } catch {
+      return { hops, final: null, response: null, loop: false, error: `bad redirect target "${location}"` };
+    }
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      return { hops, final: null, response: null, loop: false, error: `redirect to ${current.protocol} URL` };
+    }
+  }
+
+  return { hops, final: current, response: null, loop: true };
+}
+
+/** Read at most MAX_BODY_BYTES of an HTML response; anything else reads as empty. */
+async function readHtml(res: Response): Promise<string> {
+  const type = res.headers.get("content-type") ?? "";
+  if (!res.body || (type && !/html|xml/i.test(type))) {
+    await res.body?.cancel();
+    return "";
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < MAX_BODY_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.byteLength;
+    }
+  } catch {
+    // a truncated page is still worth looking at
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function pageHeadline(html: string): string {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1] ?? "";
+  const h1 = /<h1[^>]*>([\s\S]*?)<\/h1>/i.exec(html)?.[1] ?? "";
+  return `${title} ${h1}`.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/** Whether a 200 page is really an error or "job closed" page. */
+export function looksLikeSoft404(html: string): boolean {
+  if (SOFT_404_TITLE.test(pageHeadline(html))) return true;
+  const text = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&#39;|&apos;|&rsquo;/g, "'")
+    .replace(/\s+/g, " ");
+  return SOFT_404_BODY.test(text);
+}
+
+/** Off-page targets of links and buttons that say "Apply". */
+export function findApplyLinks(html: string, pageUrl: URL): URL[] {
+  const out = new Map<string, URL>();
+  const anchor = /<a\b([^>]*)>([\s\S]*?)<\/a>/gi;
+
+  for (let m = anchor.exec(html); m; m = anchor.exec(html)) {
+    const href = /\bhref\s*=\s*["']([^"']+)["']/i.exec(m[1])?.[1]?.replace(/&amp;/g, "&");
+    if (!href) continue;
+    const label = m[2].replace(/<[^>]+>/g, " ");
+    if (!/\bapply\b/i.test(label) && !/\/apply\b|[?&]apply\b/i.test(href)) continue;
+
+    let target: URL;
+    try {
+      target = new URL(href, pageUrl);
+    } catch {
+      continue;
+    }
+    if (target.protocol !== "http:" && target.protocol !== "https:") continue; // mailto:, javascript:
+    if (sameUrl(target) === sameUrl(pageUrl)) continue; // "#apply" on the same page
+
+    out.set(sameUrl(target), target);
+    if (out.size >= MAX_APPLY_LINKS) break;
+  }
+  return [...out.values()];
+}
+
+/** Problem with an apply target, or null if it looks fine. */
+async function checkApplyLink(target: URL, page: URL): Promise<ApplyProblem | null> {
+  const followed = await followRedirects(target);
+  await followed.response?.body?.cancel();
+  if (followed.loop) return { ok: false, reason: "The Apply button's link redirects in a loop" };
+  if (!followed.final) {
+    // A guard refusal (private address, odd content type) or a timeout says little about
+    // the posting; an unreachable host (DNS, refused) means the button is dead
+    if (followed.guardCode && followed.guardCode !== "DNS_FAILED") return null;
+    if (/timed out|timeout|aborted/i.test(followed.error ?? "")) return null;
+    return { ok: false, reason: "The Apply button's link doesn't load" };
+  }
+  const status = followed.hops[followed.hops.length - 1]?.status;
+  if (status === 404 || status === 410) return { ok: false, reason: "The Apply button leads to a page that no longer exists" };
+
+  // It loads, but on a host we can't place: plenty of real application systems aren't listed
+  const targetHost = hostOf(target);
+  const related = siteOf(targetHost) === siteOf(hostOf(page)) || isApplyHost(targetHost) || !!resolveAtsAdapter(target);
+  if (!related) {
+    return { ok: null, reason: `The Apply button points to ${targetHost}, which isn't the employer's site or a known application system` };
+  }
+  return null;
+}
+
+/**
+ * Check that a job link still leads to a live posting. Redirects are followed by
+ * hand, at most MAX_HOPS of them, so loops and where the link lands are visible.
+ */
+export async function checkJobLink(urlStr: string): Promise<LinkCheckResult> {
+  let start: URL;
+  try {
+    start = new URL(urlStr);
+  } catch {
+    return { ok: false, loop: false, reason: "The job link isn't a valid URL", finalUrl: null, hops: [] };
+  }
+
+  const result = (ok: boolean | null, reason: string | null, followed: FollowResult, loop = false): LinkCheckResult => ({
+    ok,
+    loop,
+    reason,
+    finalUrl: followed.final?.toString() ?? null,
+    hops: followed.hops,
+  });
+
+  try {
+    const followed = await followRedirects(start);
+
+    if (followed.loop) {
+      await followed.response?.body?.cancel();
+      const reason = followed.hops.length > MAX_HOPS
+        ? `The job link redirects more than ${MAX_HOPS} times`
+        : "The job link redirects in a loop";
+      return result(false, reason, followed, true);
+    }
+    if (!followed.final || !followed.response) {
+      return result(null, `Couldn't check the job link (${followed.error ?? "no response"})`, followed);
+    }
+
+    const final = followed.final;
+    const res = followed.response;
+
+    if (res.status === 404 || res.status === 410) {
+      await res.body?.cancel();
+      return result(false, "The job link leads to a page that no longer exists", followed);
+    }
+    if (res.status >= 400) {
+      // 403/429 are usually bot protection and 5xx may be momentary: neither proves the job is gone
+      await res.body?.cancel();
+      return result(null, `Couldn't check the job link (HTTP ${res.status})`, followed);
+    }
+
+    // A specific posting that lands on the homepage or careers index has been taken down
+    const redirected = sameUrl(final) !== sameUrl(start);
+    if (redirected && !INDEX_PATH.test(start.pathname) && (INDEX_PATH.test(final.pathname) || final.searchParams.has("error"))) {
+      await res.body?.cancel();
+      const where = final.pathname.replace(/\/$/, "") === "" ? "homepage" : "careers page";
+      return result(false, `The job link redirects to the ${where} instead of a posting`, followed);
+    }
+
+    const html = await readHtml(res);
+    if (html && looksLikeSoft404(html)) {
+      return result(false, "The job page says the posting is gone or can't be found", followed);
+    }
+
+    let unconfirmed: ApplyProblem | null = null;
+    for (const target of findApplyLinks(html, final)) {
+      const problem = await checkApplyLink(target, final);
+      if (problem?.ok === false) return result(false, problem.reason, followed);
+      unconfirmed ??= problem;
+    }
+
+    return unconfirmed ? result(null, unconfirmed.reason, followed) : result(true, null, followed);
+  } catch (err) {
+    console.warn(`[checkJobLink] ${start.host} failed:`, err instanceof Error ? err.message : err);
+    return { ok: null, loop: false, reason: "Couldn't check the job link", finalUrl: null, hops: [] };
+  }
+}
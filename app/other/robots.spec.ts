@@ -0,0 +1,154 @@
+import { fetchRobots, isAllowedByRobots, parseRobotsTxt, robotsPatternMatches } from "./robots";
+import type { HttpFixture, RecordedExchange } from "@/test/http/fixtures";
+import { startReplayServer, type ReplayServer } from "@/test/http/replayServer";
+
+describe("robotsPatternMatches", () => {
+  it.each([
+    ["/jobs", "/jobs/123", true],
+    ["/jobs", "/job", false],
+    ["/jobs/*/apply", "/jobs/123/apply", true],
+    ["/jobs/*/apply", "/jobs/123/apply/step-2", true],
+    ["/jobs/*/apply", "/jobs/123/view", false],
+    ["/*.pdf$", "/files/offer.pdf", true],
+    ["/*.pdf$", "/files/offer.pdf?download=1", false],
+    ["/search$", "/search", true],
+    ["/search$", "/search/jobs", false],
+    ["/*?sort=", "/jobs?sort=date", true],
+    ["/a*b*c", "/a--b--c", true],
+    ["/a*b*c", "/a--c--b", false],
+    ["*", "/anything", true],
+    ["/$", "/", true],
+    ["/$", "/careers", false],
+  ])("%s against %s -> %s", (pattern, path, expected) => {
+    expect(robotsPatternMatches(pattern, path)).toBe(expected);
+  });
+
+  it("stays fast on patterns built to backtrack", () => {
+    const started = Date.now();
+    expect(robotsPatternMatches("/" + "*a".repeat(30) + "$", "/" + "a".repeat(5000) + "b")).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  it("groups consecutive User-agent lines and drops rules outside any group", () => {
+    const groups = parseRobotsTxt([
+      "Disallow: /orphan",
+      "User-agent: jobbusters",
+      "User-agent: otherbot",
+      "Disallow: /private # trailing comment",
+      "Crawl-delay: 2.5",
+      "User-agent: *",
+      "Allow:",
+      "Disallow: /admin",
+      "Sitemap: https://example.com/sitemap.xml",
+    ].join("\n"));
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ agents: ["jobbusters", "otherbot"], disallows: ["/private"], allows: [], crawlDelaySec: 2.5 });
+    expect(groups[1]).toMatchObject({ agents: ["*"], disallows: ["/admin"], allows: [] });
+    expect(groups[1].sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+  });
+});
+
+describe("fetchRobots + isAllowedByRobots", () => {
+  let server: ReplayServer;
+
+  const robots = (host: string, status: number, body = ""): HttpFixture => {
+    const exchange: RecordedExchange = {
+      url: `https://${host}/robots.txt`,
+      status,
+      headers: { "content-type": "text/plain" },
+      body,
+    };
+    return { name: host, description: "", origin: "hand-built", target: { kind: "web", url: exchange.url }, exchanges: [exchange], expect: {} };
+  };
+
+  const allowed = async (url: string) => {
+    const page = new URL(url);
+    return isAllowedByRobots(page, await fetchRobots(page));
+  };
+
+  beforeAll(async () => {
+    server = await startReplayServer();
+    server.load([
+      robots("precedence.example.com", 200, [
+        "User-agent: *",
+        "Disallow: /jobs/",
+        "Allow: /jobs/open/",
+        "Disallow: /jobs/open/internal",
+        "Allow: /page",
+        "Disallow: /page",
+        "Disallow: /*.pdf$",
+      ].join("\n")),
+      robots("ours.example.com", 200, [
+        "User-agent: *",
+        "Disallow: /",
+        "",
+        "User-agent: JobBusters/1.0",
+        "Disallow: /careers/internal",
+        "Crawl-delay: 3",
+      ].join("\n")),
+      robots("slow.example.com", 200, "User-agent: *\nCrawl-delay: 120\n"),
+      robots("encoded.example.com", 200, "User-agent: *\nDisallow: /caf%c3%a9\n"),
+      robots("gone.example.com", 404),
+      robots("forbidden.example.com", 403),
+      robots("down.example.com", 503),
+      robots("throttled.example.com", 429),
+    ]);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("lets the longest matching rule win", async () => {
+    expect(await allowed("https://precedence.example.com/jobs/123")).toBe(false);
+    expect(await allowed("https://precedence.example.com/jobs/open/123")).toBe(true);
+    expect(await allowed("https://precedence.example.com/jobs/open/internal-ops")).toBe(false);
+    expect(await allowed("https://precedence.example.com/about")).toBe(true);
+  });
+
+  it("lets Allow win a tie of equal length", async () => {
+    expect(await allowed("https://precedence.example.com/page")).toBe(true);
+  });
+
+  it("honours the $ anchor against path and query", async () => {
+    expect(await allowed("https://precedence.example.com/files/jd.pdf")).toBe(false);
+    expect(await allowed("https://precedence.example.com/files/jd.pdf?v=2")).toBe(true);
+  });
+
+  it("always allows /robots.txt itself", async () => {
+    expect(await allowed("https://ours.example.com/robots.txt")).toBe(true);
+  });
+
+  it("uses the group naming our product token instead of *", async () => {
+    expect(await allowed("https://ours.example.com/careers/123")).toBe(true);
+    expect(await allowed("https://ours.example.com/careers/internal/9")).toBe(false);
+  });
+
+  it("reads Crawl-delay in ms and caps it", async () => {
+    expect((await fetchRobots(new URL("https://ours.example.com/"))).effective.crawlDelayMs).toBe(3000);
+    expect((await fetchRobots(new URL("https://slow.example.com/"))).effective.crawlDelayMs).toBe(20_000);
+  });
+
+  it("compares percent-encoded and raw paths alike", async () => {
+    expect(await allowed("https://encoded.example.com/café/menu")).toBe(false);
+  });
+
+  it("treats a 4xx robots.txt as no restrictions", async () => {
+    for (const host of ["gone.example.com", "forbidden.example.com"]) {
+      const profile = await fetchRobots(new URL(`https://${host}/`));
+      expect(profile.status).toBe("unavailable");
+      expect(isAllowedByRobots(new URL(`https://${host}/jobs/1`), profile)).toBe(true);
+    }
+  });
+
+  it("treats 5xx and 429 as unreachable: everything disallowed for now", async () => {
+    for (const host of ["down.example.com", "throttled.example.com"]) {
+      const profile = await fetchRobots(new URL(`https://${host}/`));
+      expect(profile.status).toBe("unreachable");
+      expect(isAllowedByRobots(new URL(`https://${host}/jobs/1`), profile)).toBe(false);
+    }
+  });
+});
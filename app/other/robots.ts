@@ -1,47 +1,80 @@
 /**
- * Minimal robots.txt fetcher + parser + evaluator.
- * Implements "longest-match wins" with Allow beating Disallow on ties (Google behavior).
+ * robots.txt fetcher + parser + evaluator (RFC 9309).
+ * Implements "longest-match wins" with Allow beating Disallow on ties.
  *
- * - No external deps (uses built-in fetch).
- * - Picks best User-agent group: exact match > "*" (wildcard).
- * - Default allow when no applicable rules match.
+ * - No external deps (uses the guarded fetch in adapters/fetchGuard.ts).
+ * - Rules support `*` wildcards and a trailing `$` end anchor, matched against path + query.
+ * - All groups naming our user-agent are combined; else all "*" groups; else no rules.
+ * - 4xx robots.txt = no restrictions; 5xx / network failure = disallow everything for a while.
+ * - Crawl-delay (not in the RFC, but common) is handed to the host scheduler, which spaces requests.
+ * - Profiles are cached per origin in a TTL-bounded LRU.
  */
 
+import { FetchGuardError, guardedFetch } from "@/app/api/data-ingestion/adapters/fetchGuard";
+import { scheduledFetch, setHostCrawlDelay } from "@/app/api/data-ingestion/adapters/hostScheduler";
+
 export type RobotsGroup = {
   agents: string[];     // e.g., ["*", "googlebot"]
-  allows: string[];     // path prefixes
-  disallows: string[];  // path prefixes
+  allows: string[];     // path patterns (may contain * and a trailing $)
+  disallows: string[];  // path patterns (may contain * and a trailing $)
   sitemaps: string[];   // optional, ignored for allow checks
+  crawlDelaySec: number | null;
 };
 
+/**
+ * ok: parsed a robots.txt
+ * unavailable: 4xx (no robots.txt), so nothing is restricted
+ * unreachable: 5xx or network failure, so everything is disallowed until it expires
+ */
+export type RobotsStatus = "ok" | "unavailable" | "unreachable";
+
 export type RobotsProfile = {
   origin: string;       // "https://example.com"
   fetchedAt: string;    // ISO timestamp
+  status: RobotsStatus;
   groups: RobotsGroup[];
-  // The group used for UA (materialized at fetch/parse time)
-  effective: { allows: string[]; disallows: string[] };
+  // The groups used for UA (materialized at fetch/parse time)
+  effective: { allows: string[]; disallows: string[]; crawlDelayMs: number | null };
 };
 
 // ----------------------------------------------------------------------------
 // Fetching (with timeout) + caching
 // ----------------------------------------------------------------------------
 
-const robotsCache = new Map<string, RobotsProfile>();
+// RFC 9309 §2.4: a cached robots.txt shouldn't be used for more than 24 hours
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// Disallow-all after a server error is temporary: try again after this
+const UNREACHABLE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_ORIGINS = 1000;
+// RFC 9309 §2.5: parse at least 500 KiB; anything past that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+// A user is usually waiting on the fetch, so very long delays are capped
+const MAX_CRAWL_DELAY_MS = 20_000;
+
+type CacheEntry = {
+  profile: RobotsProfile;
+  expiresAt: number;
+};
 
-/**
- * Fetch a URL with a timeout (ms). Uses AbortController.
- */
-async function fetchWithTimeout(
-  url: string,
-  init: RequestInit & { timeoutMs?: number } = {}
-): Promise<Response> {
-  const { timeoutMs = 10_000, ...rest } = init;
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    return await fetch(url, { ...rest, signal: controller.signal });
-  } finally {
-    clearTimeout(t);
+// Map iteration order is insertion order: re-inserting on use keeps the oldest first
+const robotsCache = new Map<string, CacheEntry>();
+
+function cacheGet(origin: string): CacheEntry | null {
+  const entry = robotsCache.get(origin);
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  robotsCache.delete(origin);
+  robotsCache.set(origin, entry);
+  return entry;
+}
+
+function cacheSet(origin: string, profile: RobotsProfile, ttlMs: number): void {
+  robotsCache.delete(origin);
+  robotsCache.set(origin, { profile, expiresAt: Date.now() + ttlMs });
+  setHostCrawlDelay(new URL(origin).hostname, profile.effective.crawlDelayMs ?? 0);
+  while (robotsCache.size > MAX_CACHED_ORIGINS) {
+    const oldest = robotsCache.keys().next().value;
+    if (oldest === undefined) break;
+    robotsCache.delete(oldest);
   }
 }
 
@@ -51,33 +84,42 @@ function originOf(u: URL): string {
   return `${u.protocol}//${u.host}`;
 }
 
-/** Normalize path prefixes: ensure they start with "/" and drop trailing whitespace. */
-function normPathPrefix(raw: string): string {
+/** Normalize path patterns: ensure they start with "/" (or a wildcard) and drop trailing whitespace. */
+function normPathPattern(raw: string): string {
   let s = raw.trim();
-  if (!s) return "/"; // Treat blank "Allow:" as "/" (allow all)
-  if (!s.startsWith("/")) s = "/" + s;
+  if (!s.startsWith("/") && !s.startsWith("*")) s = "/" + s;
   return s;
 }
 
 /**
- * Choose the best-matching group for our user-agent:
- *  - exact UA (case-insensitive) wins
- *  - else wildcard "*"
- *  - else (no UA sections at all) -> empty fallback
+ * Bring a path or pattern to the form RFC 9309 §2.2.2 compares: non-ASCII percent-encoded,
+ * escapes of unreserved characters decoded, remaining escapes upper-cased.
  */
-function pickAgentGroup(groups: RobotsGroup[], ua: string): RobotsGroup | null {
+function normalizeForMatch(s: string): string {
+  return s
+    .replace(/[^\x00-\x7f]+/g, ch => encodeURIComponent(ch))
+    .replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => {
+      const ch = String.fromCharCode(parseInt(hex, 16));
+      return /[A-Za-z0-9\-._~]/.test(ch) ? ch : `%${hex.toUpperCase()}`;
+    });
+}
+
+/**
+ * Choose the groups for our user-agent:
+ *  - every group naming our product token (case-insensitive), combined
+ *  - else every "*" group, combined
+ *  - else (no applicable sections) -> null
+ */
+function pickAgentGroups(groups: RobotsGroup[], ua: string): RobotsGroup[] | null {
   const needle = ua.toLowerCase();
+  // "User-agent: JobBusters/1.0" names the product token "jobbusters"
+  const token = (agent: string) => /^[a-z_-]+|^\*/i.exec(agent.trim())?.[0].toLowerCase() ?? "";
 
-  // 1) exact match wins
-  for (const g of groups) {
-    if (g.agents.some(a => a.toLowerCase() === needle)) return g;
-  }
-  // 2) wildcard
-  for (const g of groups) {
-    if (g.agents.some(a => a.trim() === "*")) return g;
-  }
-  // 3) nothing applicable
-  return null;
+  const exact = groups.filter(g => g.agents.some(a => token(a) === needle));
+  if (exact.length) return exact;
+
+  const wildcard = groups.filter(g => g.agents.some(a => token(a) === "*"));
+  return wildcard.length ? wildcard : null;
 }
 
 // ----------------------------------------------------------------------------
@@ -86,16 +128,18 @@ function pickAgentGroup(groups: RobotsGroup[], ua: string): RobotsGroup | null {
 
 /**
  * Parse robots.txt text into groups:
- * - Supports: User-agent, Allow, Disallow, Sitemap (case-insensitive)
+ * - Supports: User-agent, Allow, Disallow, Crawl-delay, Sitemap (case-insensitive)
  * - Ignores comments (# ...)
- * - Empty "Disallow:" means "no disallow added" (per classic behavior).
- * - Empty "Allow:" is treated as "/" (allow all) so it participates in matching.
+ * - Consecutive User-agent lines share one group; rules before any User-agent are dropped.
+ * - Empty "Allow:" / "Disallow:" add no rule.
  */
 export function parseRobotsTxt(text: string): RobotsGroup[] {
   const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
   let cur: RobotsGroup | null = null;
+  let lastWasAgent = false;
 
-  const lines = text.split(/\r?\n/);
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
   for (let rawLine of lines) {
     // Strip comments
     const hash = rawLine.indexOf("#");
@@ -109,44 +153,38 @@ export function parseRobotsTxt(text: string): RobotsGroup[] {
     const key = m[1].toLowerCase();
     const val = m[2].trim();
 
-    switch (key) {
-      case "user-agent": {
-        // Start a new group if none exists or if we already had one with UA lines
-        if (!cur || cur.agents.length > 0) {
-          cur = { agents: [], allows: [], disallows: [], sitemaps: [] };
-          groups.push(cur);
-        }
-        if (val) cur.agents.push(val);
-        break;
+    if (key === "sitemap") {
+      // Not part of any group
+      if (val) sitemaps.push(val);
+      continue;
+    }
+
+    if (key === "user-agent") {
+      // A User-agent line after rules starts a new group
+      if (!cur || !lastWasAgent) {
+        cur = { agents: [], allows: [], disallows: [], sitemaps, crawlDelaySec: null };
+        groups.push(cur);
       }
+      if (val) cur.agents.push(val);
+      lastWasAgent = true;
+      continue;
+    }
 
-      case "allow": {
-        if (!cur) {
-          // Spec allows Allow/Disallow before any UA; create implicit group
-          cur = { agents: ["*"], allows: [], disallows: [], sitemaps: [] };
-          groups.push(cur);
-        }
-        // Treat empty Allow as "/" so it can win over disallows (Google behavior)
-        cur.allows.push(normPathPrefix(val || "/"));
+    lastWasAgent = false;
+    if (!cur) continue; // rules outside a group apply to nobody (RFC 9309 §2.1)
+
+    switch (key) {
+      case "allow":
+        if (val) cur.allows.push(normPathPattern(val));
         break;
-      }
 
-      case "disallow": {
-        if (!cur) {
-          cur = { agents: ["*"], allows: [], disallows: [], sitemaps: [] };
-          groups.push(cur);
-        }
-        // Empty Disallow means "no disallow"; skip adding a rule
-        if (val) cur.disallows.push(normPathPrefix(val));
+      case "disallow":
+        if (val) cur.disallows.push(normPathPattern(val));
         break;
-      }
 
-      case "sitemap": {
-        if (!cur) {
-          cur = { agents: ["*"], allows: [], disallows: [], sitemaps: [] };
-          groups.push(cur);
-        }
-        if (val) cur.sitemaps.push(val);
+      case "crawl-delay": {
+        const sec = Number(val);
+        if (Number.isFinite(sec) && sec >= 0) cur.crawlDelaySec = sec;
         break;
       }
 
@@ -164,24 +202,55 @@ export function parseRobotsTxt(text: string): RobotsGroup[] {
 // ----------------------------------------------------------------------------
 
 /**
- * Apply Google-style precedence:
- *  - Find the longest matching Allow and Disallow prefix.
+ * Whether a rule pattern matches a (normalized) path. `*` matches any run of characters
+ * and a trailing `$` anchors the end; otherwise a pattern matches as a prefix. Tracks the
+ * set of reachable positions instead of backtracking, so it's linear per pattern character.
+ */
+export function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+
+  let positions = [0]; // ascending offsets into path where the pattern so far can end
+  for (const ch of body) {
+    if (ch === "*") {
+      const from = positions[0];
+      positions = [];
+      for (let p = from; p <= path.length; p++) positions.push(p);
+      continue;
+    }
+    const next: number[] = [];
+    for (const p of positions) {
+      if (p < path.length && path[p] === ch) next.push(p + 1);
+    }
+    if (next.length === 0) return false;
+    positions = next;
+  }
+
+  return anchored ? positions[positions.length - 1] === path.length : true;
+}
+
+function longestMatch(patterns: string[], path: string): number {
+  let longest = -1;
+  for (const raw of patterns) {
+    const pattern = normalizeForMatch(raw);
+    if (pattern.length > longest && robotsPatternMatches(pattern, path)) longest = pattern.length;
+  }
+  return longest;
+}
+
+/**
+ * Apply RFC 9309 precedence:
+ *  - Find the longest matching Allow and Disallow pattern (in octets).
  *  - If neither matches -> ALLOW (default).
  *  - If only one side matched -> that side wins.
  *  - If both matched and have equal length -> ALLOW wins.
  */
 export function isAllowedByRobots(pageUrl: URL, profile: RobotsProfile): boolean {
-  const path = pageUrl.pathname || "/";
+  const path = normalizeForMatch((pageUrl.pathname || "/") + pageUrl.search);
+  if (path === "/robots.txt") return true; // always fetchable (RFC 9309 §2.2.2)
 
-  let longestAllow = -1;
-  for (const a of profile.effective.allows) {
-    if (path.startsWith(a) && a.length > longestAllow) longestAllow = a.length;
-  }
-
-  let longestDisallow = -1;
-  for (const d of profile.effective.disallows) {
-    if (path.startsWith(d) && d.length > longestDisallow) longestDisallow = d.length;
-  }
+  const longestAllow = longestMatch(profile.effective.allows, path);
+  const longestDisallow = longestMatch(profile.effective.disallows, path);
 
   // No rules matched -> allow
   if (longestAllow < 0 && longestDisallow < 0) return true;
@@ -196,8 +265,8 @@ export function isAllowedByRobots(pageUrl: URL, profile: RobotsProfile): boolean
 
 /**
  * Convenience wrapper: returns true if robots ALLOW fetching this URL.
- * If robots.txt fetch fails (network, 404, etc.), default to ALLOW
- * (many crawlers default this way; adjust if fail-closed is preferred).
+ * A missing robots.txt (4xx) allows everything; an unreachable one (5xx, network)
+ * disallows everything until the short-lived cache entry expires.
  */
 export async function canFetchUrl(
   pageUrl: URL,
@@ -211,8 +280,39 @@ export async function canFetchUrl(
 // Fetch + build profile
 // ----------------------------------------------------------------------------
 
+function emptyProfile(origin: string, status: RobotsStatus): RobotsProfile {
+  return {
+    origin,
+    fetchedAt: new Date().toISOString(),
+    status,
+    groups: [],
+    effective: status === "unreachable"
+      ? { allows: [], disallows: ["/"], crawlDelayMs: null }
+      : { allows: [], disallows: [], crawlDelayMs: null },
+  };
+}
+
+/** Up to MAX_ROBOTS_BYTES of the body; the rest is never downloaded. */
+async function readRobotsText(res: Response): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (size < MAX_ROBOTS_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      size += value.byteLength;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return Buffer.concat(chunks).subarray(0, MAX_ROBOTS_BYTES).toString("utf8");
+}
+
 /**
- * Fetch + parse robots.txt, pick an effective group for the given UA,
+ * Fetch + parse robots.txt, pick the effective groups for the given UA,
  * and cache the result by origin.
  */
 export async function fetchRobots(
@@ -222,60 +322,82 @@ export async function fetchRobots(
   const ua = opts.userAgent ?? "jobbusters";
   const origin = originOf(pageUrl);
 
-  const cached = robotsCache.get(origin);
-  if (cached) return cached;
+  const cached = cacheGet(origin);
+  if (cached) return cached.profile;
+
+  // On a server error, a copy that has only just expired beats disallowing everything
+  const unreachable = (why: string): RobotsProfile => {
+    console.warn(`[robots] ${origin}/robots.txt unreachable (${why})`);
+    const stale = robotsCache.get(origin)?.profile;
+    const profile = stale?.status === "ok" ? stale : emptyProfile(origin, "unreachable");
+    cacheSet(origin, profile, UNREACHABLE_TTL_MS);
+    return profile;
+  };
 
   const robotsUrl = `${origin}/robots.txt`;
   let text = "";
   try {
-    const res = await fetchWithTimeout(robotsUrl, {
-      headers: {
-        // Mildly realistic UA to avoid some naive blocks
-        "User-Agent": `${ua} (+https://example.com)`,
-        "Accept": "text/plain, */*;q=0.1",
+    // Waits for the host's turn; redirects are followed (up to 5, RFC 9309 §2.3.1.2), each hop SSRF-checked
+    const res = await scheduledFetch(new URL(robotsUrl), () => guardedFetch(
+      robotsUrl,
+      {
+        headers: {
+          // Mildly realistic UA to avoid some naive blocks
+          "User-Agent": `${ua} (+https://example.com)`,
+          "Accept": "text/plain, */*;q=0.1",
+        },
+        signal: AbortSignal.timeout(opts.timeoutMs ?? 8_000),
       },
-      timeoutMs: opts.timeoutMs ?? 8_000,
-    });
-    if (res.ok) {
-      text = await res.text();
-    } else {
-      // Non-200: default to allow (empty profile)
-      const profile: RobotsProfile = {
-        origin,
-        fetchedAt: new Date().toISOString(),
-        groups: [],
-        effective: { allows: [], disallows: [] },
-      };
-      robotsCache.set(origin, profile);
+      {
+        maxBytes: Number.MAX_SAFE_INTEGER, // readRobotsText stops early instead
+        allowedContentTypes: ["text/plain", "text/html", "application/octet-stream"],
+      }
+    ));
+
+    // 429 is rate limiting, so it's treated like a server error rather than "no robots.txt"
+    if (res.status >= 500 || res.status === 429) {
+      await res.body?.cancel();
+      return unreachable(`HTTP ${res.status}`);
+    }
+    if (!res.ok) {
+      // 4xx: no robots.txt, so nothing is restricted
+      await res.body?.cancel();
+      const profile = emptyProfile(origin, "unavailable");
+      cacheSet(origin, profile, ROBOTS_TTL_MS);
       return profile;
     }
-  } catch {
-    // Network/timeout errors: default to allow
-    const profile: RobotsProfile = {
-      origin,
-      fetchedAt: new Date().toISOString(),
-      groups: [],
-      effective: { allows: [], disallows: [] },
-    };
-    robotsCache.set(origin, profile);
-    return profile;
+    text = await readRobotsText(res);
+  } catch (err) {
+    if (err instanceof FetchGuardError && (err.code === "TOO_MANY_REDIRECTS" || err.code === "UNSUPPORTED_CONTENT_TYPE")) {
+      // Treated as no robots.txt (RFC 9309 §2.3.1.2 for redirects)
+      const profile = emptyProfile(origin, "unavailable");
+      cacheSet(origin, profile, ROBOTS_TTL_MS);
+      return profile;
+    }
+    return unreachable(err instanceof Error ? err.message : String(err));
   }
 
   const groups = parseRobotsTxt(text);
-  const chosen = pickAgentGroup(groups, ua);
+  const chosen = pickAgentGroups(groups, ua);
 
+  const delays = (chosen ?? []).map(g => g.crawlDelaySec).filter((s): s is number => s !== null);
   const effective =
     chosen != null
-      ? { allows: chosen.allows.slice(), disallows: chosen.disallows.slice() }
-      : { allows: [], disallows: [] };
+      ? {
+          allows: chosen.flatMap(g => g.allows),
+          disallows: chosen.flatMap(g => g.disallows),
+          crawlDelayMs: delays.length ? Math.min(Math.max(...delays) * 1000, MAX_CRAWL_DELAY_MS) : null,
+        }
+      : { allows: [], disallows: [], crawlDelayMs: null };
 
   const profile: RobotsProfile = {
     origin,
     fetchedAt: new Date().toISOString(),
+    status: "ok",
     groups,
     effective,
   };
 
-  robotsCache.set(origin, profile);
+  cacheSet(origin, profile, ROBOTS_TTL_MS);
   return profile;
 }
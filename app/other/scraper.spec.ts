@@ -0,0 +1,40 @@
+import { scrapeJobFromUrl } from "./scraper";
+import { AnalysisError } from "@/app/orchestrator/errors";
+import { loadFixtures, targetUrl } from "@/test/http/fixtures";
+import { startReplayServer, type ReplayServer } from "@/test/http/replayServer";
+import { expectFetchToMatch } from "@/test/http/assertions";
+
+// Every fixture, from the job URL a user would paste: robots.txt first, then the
+// Greenhouse adapter for board links or the web adapter for everything else
+const fixtures = loadFixtures();
+
+describe("scrapeJobFromUrl (replayed fixtures)", () => {
+  let server: ReplayServer;
+
+  beforeAll(async () => {
+    server = await startReplayServer();
+    server.load(fixtures);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it.each(fixtures.map(f => [f.name, f] as const))("%s", async (_name, fixture) => {
+    const scrape = scrapeJobFromUrl(targetUrl(fixture.target));
+    if (fixture.expect.error) {
+      await expect(scrape).rejects.toBeInstanceOf(AnalysisError);
+      await expect(scrape).rejects.toMatchObject({ code: fixture.expect.error });
+      return;
+    }
+    await expectFetchToMatch(scrape, fixture.expect);
+  });
+
+  it("only misses robots.txt, which 404s (allow all) when a fixture has none", () => {
+    expect(server.misses.filter(url => !url.endsWith("/robots.txt"))).toEqual([]);
+  });
+
+  it("refuses aggregator links without fetching", async () => {
+    await expect(scrapeJobFromUrl("https://www.indeed.com/viewjob?jk=abc123")).rejects.toMatchObject({ code: "DENYLISTED_HOST" });
+  });
+});
@@ -1,9 +1,9 @@
-
-import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
-import { greenhouseAdapter } from "@/app/api/data-ingestion/adapters/greenhouse";
-import { canFetchUrl } from "@/app/other/robots";
-import { webAdapter } from "@/app/api/data-ingestion/adapters/web";
-import { parseGreenhouseTenantAndJob } from "@/app/api/data-ingestion/adapters/util";
+import type { AdapterJob, AtsAdapterProvider } from "@/app/api/data-ingestion/adapters/types";
+import { fetchRobots, isAllowedByRobots } from "@/app/other/robots";
+import { resolveAtsAdapter, webAdapter } from "@/app/api/data-ingestion/adapters";
+import { hostOf } from "@/app/api/data-ingestion/adapters/util";
+import { assertPublicUrl } from "@/app/api/data-ingestion/adapters/fetchGuard";
+import { AnalysisError } from "@/app/orchestrator/errors";
 
 /**
  * Strict denylist for aggregator/marketing boards; add as needed
@@ -23,17 +23,12 @@ const DENYLIST_HOSTS = new Set<string>([
   "www.careerbuilder.com",
 ]);
 
-/** Normalize to lowercase host (strip a trailing dot if any). */
-function hostOf(u: URL): string {
-  return u.hostname.toLowerCase().replace(/\.$/, "");
-}
-
 /**
  * Quick host-level deny check (MVP).
  * Denies if the hostname or any parent domain matches a denylisted host
  * (e.g., m.linkedin.com → linkedin.com).
  */
-function isDeniedHost(u: URL): boolean {
+export function isDeniedHost(u: URL): boolean {
   const h = hostOf(u);
   if (DENYLIST_HOSTS.has(h)) return true;
 
@@ -44,24 +39,30 @@ function isDeniedHost(u: URL): boolean {
   return false;
 }
 
-/** True if this URL is clearly a Greenhouse boards URL. */
-function isGreenhouseBoards(url: URL): boolean {
-  const h = hostOf(url);
-  return (
-    h === "boards.greenhouse.io" ||
-    h.endsWith(".boards.greenhouse.io") ||
-    h === "job-boards.greenhouse.io" ||
-    h.endsWith(".job-boards.greenhouse.io")
-  );
+/**
+ * Resolve the ATS composite key (provider + tenant + job ID) from a URL alone,
+ * without fetching anything. Returns null for non-ATS or unparsable URLs.
+ */
+export function parseAtsJobKey(
+  url: URL
+): { ats: AtsAdapterProvider; tenant: string; jobId: string } | null {
+  const resolved = resolveAtsAdapter(url);
+  if (!resolved) return null;
+  return {
+    ats: resolved.adapter.provider,
+    tenant: resolved.key.tenant_slug,
+    jobId: resolved.key.external_job_id,
+  };
 }
 
 /**
  * The orchestrator:
  * 1) Parse URL
- * 2) Denylist host check
+ * 2) Denylist host check, then SSRF check (public address, standard port)
  * 3) robots.txt compliance
- * 4) Detect + delegate to Greenhouse adapter when applicable
- * 5) Otherwise, single fetch + generic web extraction (JSON-LD + text)
+ * 4) Detect + delegate to a registered ATS adapter when applicable
+ * 5) Otherwise, single fetch + generic web extraction (JSON-LD + text); pages that
+ *    embed a Greenhouse job (gh_jid, job_app iframe, grnh.se) are handed to Greenhouse
  */
 export async function scrapeJobFromUrl(
   urlStr: string
@@ -70,39 +71,50 @@ export async function scrapeJobFromUrl(
   try {
     url = new URL(urlStr);
   } catch {
-    throw new Error(`Invalid URL: ${urlStr}`);
+    throw new AnalysisError("INVALID_URL", `Invalid URL: ${urlStr}`);
   }
 
   const host = hostOf(url);
 
   // 1) denylist
   if (isDeniedHost(url)) {
-    throw new Error(
+    throw new AnalysisError(
+      "DENYLISTED_HOST",
       "This site is a job aggregator/marketing page we don't fetch directly. " +
         "For best results, click “Apply” on that site and paste the direct job link here. " +
         "Note that the direct job links may still be within the job aggregator/marketing page's domain, and thus will not be fetched. "
     );
   }
 
+  // Before anything is requested, robots.txt included (throws FetchGuardError)
+  await assertPublicUrl(url);
+
   // 2) robots
-  const allowed = await canFetchUrl(url);
-  if (!allowed) {
-    throw new Error(
+  const robots = await fetchRobots(url);
+  // Unreachable is temporary (robots.txt 5xx, timeout, the host's 429 circuit), so
+  // it's retryable rather than a ROBOTS_BLOCKED verdict
+  if (robots.status === "unreachable" && !isAllowedByRobots(url, robots)) {
+    throw new AnalysisError(
+      "RATE_LIMITED",
+      `We couldn't read robots.txt for ${host} (the site is having trouble), so we won't fetch from it right now. ` +
+        `Try again in a few minutes, or paste the job description instead.`
+    );
+  }
+  if (!isAllowedByRobots(url, robots)) {
+    throw new AnalysisError(
+      "ROBOTS_BLOCKED",
       `robots.txt for ${host} disallows fetching this path. ` +
         `If the job has an “Apply” button, open it and paste the direct job link instead.`
     );
   }
 
-  // 3) ATS delegation — Greenhouse
-  //    Only when the URL is a GH boards URL can it be parsed for tenant + job ID.
-  if (isGreenhouseBoards(url)) {
-    const parsed = parseGreenhouseTenantAndJob(url);
-    if (parsed) {
-      const { tenant, jobId } = parsed;
-      console.log(`Using Greenhouse adapter for tenant=${tenant}, jobId=${jobId}`);
-      return await greenhouseAdapter(tenant, jobId);
-    }
-    // If it's a GH host but not a parsable path, fall through to generic fetch.
+  // 3) ATS delegation — first registered adapter that claims the URL and parses a key.
+  //    ATS hosts with unparsable paths (board indexes etc.) fall through to generic fetch.
+  const resolved = resolveAtsAdapter(url);
+  if (resolved) {
+    const { adapter, key } = resolved;
+    console.log(`Using ${adapter.provider} adapter for tenant=${key.tenant_slug}, jobId=${key.external_job_id}`);
+    return await adapter.fetchJob(url, key);
   }
 
   // 4) Generic web adapter extraction
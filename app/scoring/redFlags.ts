@@ -0,0 +1,19 @@
+// User-facing labels for red flags (score breakdown keys below 0.5)
+
+const RED_FLAG_LABELS: Record<string, string> = {
+  salary_min_present: "No minimum salary disclosed",
+  salary_disclosure: "Incomplete salary disclosure",
+  freshness: "Stale job posting",
+  link_integrity: "Unreliable job link",
+  buzzword_penalty: "Vague job description",
+  skills_present: "Vague skill requirements",
+  skills_detected: "Few specific skills mentioned", // legacy key
+  source_credibility: "Low employer credibility",
+  update_cadence: "Predictable refresh rate",
+  reopen_history: "Taken down and reposted",
+};
+
+// Use mapped message or default to original flag with better formatting
+export function describeRedFlag(flag: string): string {
+  return RED_FLAG_LABELS[flag] || flag.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
+}
@@ -37,8 +37,9 @@ export interface AtsJobInput {
   features: AtsJobFeatures;
   host_hint?: string | null;
 
-  // link flags are boolean—use resolver upstream (scraper or adapter)
-  link_ok?: boolean;
+  // link flags come from checkJobLink (app/other/linkCheck.ts)
+  // link_ok null = no link to check (pasted text) or the check was inconclusive: scored neutral
+  link_ok?: boolean | null;
   link_loop?: boolean;
   
   // NLP analysis (optional for backward compatibility)
@@ -49,6 +50,9 @@ export interface AtsJobInput {
   
   // Snapshot data for content change analysis
   snapshot_data?: Array<{ content_simhash: string; metadata_simhash: string }>; // Array of snapshots with simhashes
+
+  // Times this job closed and came back (persisted jobs only)
+  reopen_count?: number;
 }
 
 export interface WebFeaturesInput {
@@ -79,6 +83,7 @@ export interface ScoreWeights {
   comp_period_clarity: number;
   update_cadence: number;
   content_change_quality: number;
+  reopen_history: number;
 }
 
 // Sensible defaults; override per-call if needed
@@ -94,6 +99,7 @@ export const DEFAULT_WEIGHTS: ScoreWeights = {
   comp_period_clarity: 0.04,
   update_cadence: 0.05,
   content_change_quality: 0.05,
+  reopen_history: 0.08,
 };
 
 export interface ScoreResult {
@@ -132,8 +138,13 @@ function featureFreshness(firstPublished?: string | Date | null): number {
   return clamp01(score);
 }
 
-/** Link integrity: 1 if link_ok and not loop; 0 otherwise (unknown treated as ok=false). */
-function featureLinkIntegrity(flags: { link_ok?: boolean; link_loop?: boolean }): number {
+/**
+ * Link integrity: 1 if link_ok and not loop; 0 otherwise (unknown treated as ok=false).
+ * link_ok === null means there was no link, or checking it was inconclusive (bot
+ * protection, timeouts), which says nothing either way: 0.5.
+ */
+function featureLinkIntegrity(flags: { link_ok?: boolean | null; link_loop?: boolean }): number {
+  if (flags.link_ok === null) return 0.5;
   const ok = !!flags.link_ok;
   const loop = !!flags.link_loop;
   if (!ok) return 0;
@@ -376,6 +387,16 @@ function featureContentChangeQuality(
   return clamp01(baseScore);
 }
 
+/**
+ * Reopen history: a job that closed and was reposted is a strong ghost signal.
+ * 1 reopen → 0.3, 2+ → 0. Only scored when the job has reopened at least once.
+ */
+function featureReopenHistory(reopenCount: number): number {
+  if (reopenCount <= 0) return 1;
+  if (reopenCount === 1) return 0.3;
+  return 0;
+}
+
 // --- Aggregator (hardened) ---------------------------------------------------
 
 /**
@@ -464,6 +485,11 @@ export function scoreJob(
     );
   }
 
+  // Reopen history (absence of reopens isn't evidence of anything, so only penalize)
+  if (input.reopen_count !== undefined && input.reopen_count > 0) {
+    breakdown.reopen_history = featureReopenHistory(input.reopen_count);
+  }
+
   const score = finalizeScore(breakdown, weights ?? DEFAULT_WEIGHTS);
 
   return { score, breakdown };
@@ -1,11 +1,21 @@
-const { createDefaultPreset } = require("ts-jest");
+import { createDefaultPreset } from "ts-jest";
 
-const tsJestTransformCfg = createDefaultPreset().transform;
+// package.json is "type": "module", so this config is ESM. Tests themselves compile to
+// CommonJS (jest.mock hoisting relies on it); JSX is compiled rather than preserved.
+const tsJestTransformCfg = createDefaultPreset({
+  tsconfig: { module: "commonjs", jsx: "react-jsx", isolatedModules: true },
+}).transform;
 
 /** @type {import("jest").Config} **/
-module.exports = {
+const config = {
   testEnvironment: "node",
   transform: {
     ...tsJestTransformCfg,
   },
-};
\ No newline at end of file
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+  testPathIgnorePatterns: ["/node_modules/", "/.next/"],
+};
+
+export default config;
@@ -0,0 +1,34 @@
+import { extractWebFeaturesFromJsonLd } from "./web";
+import { extractJsonLdBlocks, safeParseJsonLd } from "@/app/api/data-ingestion/adapters/util";
+import { loadFixtures, type HttpFixture } from "@/test/http/fixtures";
+import { expectFeatures } from "@/test/http/assertions";
+
+const fixtures = loadFixtures(f => f.target.kind === "web" && !!f.expect.jsonld_features);
+
+/** JSON-LD blocks of the page the fixture ends on (after any redirects). */
+function jsonLdOf(fixture: HttpFixture): unknown[] {
+  const page = fixture.exchanges.filter(x => x.status === 200 && /html/i.test(x.headers["content-type"] ?? "")).pop();
+  return extractJsonLdBlocks(page?.body ?? "")
+    .map(safeParseJsonLd)
+    .filter((v): v is unknown => v !== undefined);
+}
+
+describe("extractWebFeaturesFromJsonLd", () => {
+  it.each(fixtures.map(f => [f.name, f] as const))("%s", (_name, fixture) => {
+    expectFeatures({ ...extractWebFeaturesFromJsonLd(jsonLdOf(fixture)) }, fixture.expect.jsonld_features!);
+  });
+
+  it("reads a lone JobPosting object", () => {
+    expect(
+      extractWebFeaturesFromJsonLd({
+        "@type": "JobPosting",
+        baseSalary: { "@type": "MonetaryAmount", currency: "usd", value: { minValue: 50000, maxValue: 60000, unitText: "YEAR" } },
+      })
+    ).toEqual({ salary_min: 50000, salary_mid: 55000, salary_max: 60000, currency: "USD", comp_period: "year", salary_source: "jsonld" });
+  });
+
+  it("returns nothing for non-JSON-LD input", () => {
+    expect(extractWebFeaturesFromJsonLd("<html></html>")).toEqual({});
+    expect(extractWebFeaturesFromJsonLd(null)).toEqual({});
+  });
+});
@@ -42,7 +42,7 @@ const ZMonetaryAmount = z
 /** Minimal JobPosting subset of concern */
 const ZJobPosting = z
   .object({
-    "@type": z.string().optional(), // "JobPosting"
+    "@type": z.union([z.string(), z.array(z.string())]).optional(), // "JobPosting" or ["JobPosting", ...]
     title: z.string().optional(),
     hiringOrganization: z
       .object({
@@ -54,8 +54,6 @@ const ZJobPosting = z
   })
   .catchall(z.unknown());
 
-/** Accept an object or array of objects; only care about JobPosting items */
-const ZJsonLdTop = z.union([ZJobPosting, z.array(z.union([ZJobPosting, z.unknown()]))]);
 
 /* ----------------------- Salary helpers / finalization -------------------- */
 function finalizeSalary(features: WebFeatures) {
@@ -90,18 +88,30 @@ function finalizeSalary(features: WebFeatures) {
 export function extractWebFeaturesFromJsonLd(jsonld: unknown): WebFeatures {
   const features: WebFeatures = {};
 
-  const parsed = ZJsonLdTop.safeParse(jsonld);
-  if (!parsed.success) return features;
-
   type UnknownObj = { [k: string]: unknown };
-  const isJobPostingLite = (u: unknown): u is UnknownObj =>
-    !!u && typeof u === "object" && "@type" in (u as UnknownObj);
-
-const items: Array<z.infer<typeof ZJobPosting>> = Array.isArray(parsed.data)
-  ? parsed.data.filter((it): it is z.infer<typeof ZJobPosting> =>
-      isJobPostingLite(it) && it["@type"] === "JobPosting")
-  : [parsed.data];
+  const isObj = (u: unknown): u is UnknownObj => !!u && typeof u === "object" && !Array.isArray(u);
+  const isJobPostingType = (t: unknown) => t === "JobPosting" || (Array.isArray(t) && t.includes("JobPosting"));
+
+  // A lone object is taken as the posting; otherwise look for JobPosting items in
+  // arrays (nested ones too) and @graph wrappers
+  const candidates: unknown[] = [];
+  if (isObj(jsonld) && !Array.isArray(jsonld["@graph"])) {
+    candidates.push(jsonld);
+  } else {
+    const queue: unknown[] = [jsonld];
+    while (queue.length > 0) {
+      const item = queue.shift();
+      if (Array.isArray(item)) queue.push(...item);
+      else if (isObj(item) && Array.isArray(item["@graph"])) queue.push(...item["@graph"]);
+      else if (isObj(item) && isJobPostingType(item["@type"])) candidates.push(item);
+    }
+  }
 
+  const items: Array<z.infer<typeof ZJobPosting>> = [];
+  for (const c of candidates) {
+    const parsed = ZJobPosting.safeParse(c);
+    if (parsed.success) items.push(parsed.data);
+  }
 
   for (const jp of items) {
     const ma = jp.baseSalary;
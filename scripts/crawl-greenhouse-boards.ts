@@ -0,0 +1,42 @@
+// Crawl one or more Greenhouse boards and record every job.
+//
+//   npm run crawl:greenhouse -- airbnb stripe
+//   GREENHOUSE_CRAWL_TENANTS=airbnb,stripe npm run crawl:greenhouse
+//
+// Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (read from .env.local).
+
+import { config } from "dotenv";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { crawlGreenhouseBoard } from "@/app/orchestrator/crawlGreenhouseBoard";
+
+config({ path: ".env.local" });
+
+function tenantsFromInput(): string[] {
+  const fromArgs = process.argv.slice(2);
+  const raw = fromArgs.length > 0 ? fromArgs : (process.env.GREENHOUSE_CRAWL_TENANTS ?? "").split(",");
+  return [...new Set(raw.map(t => t.trim()).filter(Boolean))];
+}
+
+async function main() {
+  const tenants = tenantsFromInput();
+  if (tenants.length === 0) {
+    console.error("Usage: crawl-greenhouse-boards <tenant> [tenant...] (or set GREENHOUSE_CRAWL_TENANTS)");
+    process.exit(1);
+  }
+
+  const supabase = createAdminClient();
+  let failures = 0;
+
+  // Sequential on purpose: one board at a time keeps us polite to the boards API.
+  for (const tenant of tenants) {
+    const result = await crawlGreenhouseBoard(supabase, tenant);
+    if (!result) failures++;
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error("[crawl-greenhouse-boards] Fatal:", err);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+// Dedicated queue worker. Requests also drain the queue in-process, so this is
+// optional locally; run one or more of these to keep analyses off the web process.
+//
+//   npm run worker
+//
+// Env (read from .env.local):
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY   required
+//   WORKER_POLL_INTERVAL_MS   idle wait between queue checks (default 2000)
+
+import { config } from "dotenv";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { drainIngestionQueue, newWorkerId } from "@/app/orchestrator/ingestionWorker";
+
+config({ path: ".env.local" });
+
+async function main() {
+  const raw = Number(process.env.WORKER_POLL_INTERVAL_MS);
+  const pollMs = Number.isFinite(raw) && raw > 0 ? raw : 2000;
+  const workerId = newWorkerId();
+
+  // Finish the job in hand on Ctrl-C / SIGTERM instead of dying mid-write.
+  let stopping = false;
+  const stop = () => {
+    if (stopping) process.exit(1); // second signal: give up immediately
+    stopping = true;
+    console.log(`[ingestion-worker] ${workerId} stopping after the current job...`);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  const supabase = createAdminClient();
+  console.log(`[ingestion-worker] ${workerId} started`);
+
+  while (!stopping) {
+    const processed = await drainIngestionQueue(supabase, { workerId, shouldStop: () => stopping });
+    if (processed === 0 && !stopping) {
+      await new Promise(r => setTimeout(r, pollMs));
+    }
+  }
+}
+
+main().catch(err => {
+  console.error("[ingestion-worker] Fatal:", err);
+  process.exit(1);
+});
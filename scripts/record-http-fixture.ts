@@ -0,0 +1,89 @@
+// Record a live job page (and everything fetched to scrape it) as an HTTP fixture.
+//
+//   npm run fixtures:record -- <name> <job-url> ["what this page covers"]
+//
+// Runs the real scrape, captures each request/response into test/http/fixtures/<name>.json,
+// and fills `expect` from what the adapters extracted today. Check those values against
+// the page before committing: the recording pins current behaviour, right or wrong.
+
+import { scrapeJobFromUrl } from "@/app/other/scraper";
+import { extractJsonLdBlocks, JobNotFoundError, parseGreenhouseTenantAndJob, safeParseJsonLd } from "@/app/api/data-ingestion/adapters/util";
+import { extractWebFeaturesFromJsonLd } from "@/lib/normalizers/web";
+import {
+  keptHeaders,
+  saveFixture,
+  type FixtureTarget,
+  type HttpFixture,
+  type RecordedExchange,
+} from "@/test/http/fixtures";
+
+async function main() {
+  const [name, url, description = ""] = process.argv.slice(2);
+  if (!name || !url || !/^[a-z0-9-]+$/.test(name)) {
+    console.error("Usage: record-http-fixture <name (a-z, 0-9, -)> <job-url> [description]");
+    process.exit(1);
+  }
+
+  const exchanges: RecordedExchange[] = [];
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const res = await realFetch(input, init);
+    const body = await res.clone().text();
+    exchanges.push({
+      url: input instanceof Request ? input.url : String(input),
+      method: (init?.method ?? "GET").toUpperCase(),
+      status: res.status,
+      headers: keptHeaders(res.headers),
+      body,
+    });
+    return res;
+  };
+
+  const pageUrl = new URL(url);
+  const gh = pageUrl.hostname.endsWith("greenhouse.io") ? parseGreenhouseTenantAndJob(pageUrl) : null;
+  const target: FixtureTarget = gh ? { kind: "greenhouse", tenant: gh.tenant, jobId: gh.jobId } : { kind: "web", url };
+
+  // A posting the source reports gone is recorded as such, not as a failed fetch
+  let gone: number | undefined;
+  const job = await scrapeJobFromUrl(url).catch((err: unknown) => {
+    if (!(err instanceof JobNotFoundError)) throw err;
+    gone = err.status;
+    return null;
+  });
+  globalThis.fetch = realFetch;
+
+  const fixture: HttpFixture = {
+    name,
+    description,
+    origin: "recorded",
+    recorded_at: new Date().toISOString(),
+    target,
+    exchanges,
+    expect: job
+      ? {
+          ats_provider: job.ats_provider,
+          title: job.title,
+          company_name: job.company_name,
+          location: job.location,
+          features: { ...job.features },
+        }
+      : gone
+        ? { gone }
+        : { job: null },
+  };
+
+  if (target.kind === "web") {
+    const page = exchanges.filter(x => x.status === 200 && /html/i.test(x.headers["content-type"] ?? "")).pop();
+    const blocks = extractJsonLdBlocks(page?.body ?? "")
+      .map(safeParseJsonLd)
+      .filter((v): v is unknown => v !== undefined);
+    fixture.expect.jsonld_features = { ...extractWebFeaturesFromJsonLd(blocks) };
+  }
+
+  console.log(`Recorded ${exchanges.length} exchange(s) to ${saveFixture(fixture)}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
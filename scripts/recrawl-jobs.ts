@@ -0,0 +1,74 @@
+// Re-crawl tracked jobs on a schedule so update/snapshot history keeps growing.
+//
+//   npm run recrawl               # loop forever, every RECRAWL_INTERVAL_MINUTES
+//   npm run recrawl -- --once     # single pass, then exit
+//   npm run recrawl -- --all      # every persisted job, not just ones users checked
+//
+// Env (read from .env.local):
+//   NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY   required
+//   RECRAWL_INTERVAL_MINUTES   time between passes (default 360)
+//   RECRAWL_STALE_HOURS        skip jobs seen more recently than this (default 24)
+//   RECRAWL_DELAY_MS           pause between jobs (default 500)
+
+import { config } from "dotenv";
+import { createAdminClient } from "@/utils/supabase/admin";
+import { recrawlJobs } from "@/app/orchestrator/recrawlJobs";
+
+config({ path: ".env.local" });
+
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) {
+    console.warn(`[recrawl-jobs] Ignoring invalid ${name}=${raw}; using ${fallback}`);
+    return fallback;
+  }
+  return n;
+}
+
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  const once = args.has("--once");
+  const scope = args.has("--all") ? "all" : "tracked";
+
+  const intervalMs = numberFromEnv("RECRAWL_INTERVAL_MINUTES", 360) * 60 * 1000;
+  const staleAfterHours = numberFromEnv("RECRAWL_STALE_HOURS", 24);
+  const delayMs = numberFromEnv("RECRAWL_DELAY_MS", 500);
+
+  // Finish the job in hand on Ctrl-C / SIGTERM instead of dying mid-write.
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    if (stopping) process.exit(1); // second signal: give up immediately
+    stopping = true;
+    console.log("[recrawl-jobs] Stopping after the current job...");
+    wake?.();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  const supabase = createAdminClient();
+
+  while (!stopping) {
+    const startedAt = Date.now();
+    await recrawlJobs(supabase, { scope, staleAfterHours, delayMs, shouldStop: () => stopping });
+    if (once || stopping) break;
+
+    const waitMs = Math.max(0, intervalMs - (Date.now() - startedAt));
+    console.log(`[recrawl-jobs] Next pass in ${Math.round(waitMs / 60000)} min`);
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, waitMs);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    wake = null;
+  }
+}
+
+main().catch(err => {
+  console.error("[recrawl-jobs] Fatal:", err);
+  process.exit(1);
+});
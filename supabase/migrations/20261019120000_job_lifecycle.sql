@@ -0,0 +1,22 @@
+-- Job lifecycle: when a posting closed, why, and whether it came back.
+-- is_active stays the quick "currently open" flag; these columns carry the history.
+
+alter table public.jobs
+  add column if not exists closed_at     timestamptz,
+  add column if not exists closed_reason text,
+  add column if not exists reopened_at   timestamptz,
+  add column if not exists reopen_count  integer not null default 0;
+
+alter table public.jobs
+  drop constraint if exists jobs_closed_reason_check;
+
+alter table public.jobs
+  add constraint jobs_closed_reason_check
+  check (closed_reason is null or closed_reason in ('not_found', 'removed_from_board', 'expired'));
+
+-- Rows already marked inactive before this migration: closed at their last sighting.
+update public.jobs
+   set closed_at = coalesce(last_seen, now()),
+       closed_reason = 'not_found'
+ where is_active = false
+   and closed_at is null;
@@ -0,0 +1,82 @@
+-- Durable queue for job analyses. Requests enqueue a row; workers claim rows with
+-- claim_ingestion_job(), retry with backoff, and park rows in 'dead' after
+-- max_attempts (or on a non-retryable failure).
+
+create table if not exists public.ingestion_jobs (
+  id            uuid primary key default gen_random_uuid(),
+  user_id       uuid not null references auth.users (id) on delete cascade,
+  -- "{ats}:{tenant_slug}:{external_job_id}" for ATS URLs, "url:{sha1}" otherwise
+  job_key       text not null,
+  url           text not null,
+  status        text not null default 'queued'
+                check (status in ('queued', 'running', 'succeeded', 'dead')),
+  attempts      integer not null default 0,
+  max_attempts  integer not null default 5,
+  run_after     timestamptz not null default now(),
+  locked_at     timestamptz,
+  locked_by     text,
+  last_error    text,
+  result        jsonb,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  finished_at   timestamptz
+);
+
+-- Idempotency: one in-flight analysis per user per job.
+create unique index if not exists ingestion_jobs_inflight_key
+  on public.ingestion_jobs (user_id, job_key)
+  where status in ('queued', 'running');
+
+create index if not exists ingestion_jobs_claimable
+  on public.ingestion_jobs (run_after)
+  where status in ('queued', 'running');
+
+alter table public.ingestion_jobs enable row level security;
+
+drop policy if exists "Users can read their own ingestion jobs" on public.ingestion_jobs;
+create policy "Users can read their own ingestion jobs"
+  on public.ingestion_jobs for select
+  using (auth.uid() = user_id);
+
+-- Claim the next runnable row. Rows stuck in 'running' longer than p_stale_after
+-- (worker crashed mid-job) are claimed again; each claim counts as an attempt, and
+-- stuck rows that are out of attempts go to 'dead'.
+create or replace function public.claim_ingestion_job(
+  p_worker text,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.ingestion_jobs
+language plpgsql
+as $$
+begin
+  update public.ingestion_jobs
+     set status      = 'dead',
+         last_error  = coalesce(last_error, 'Worker stopped responding'),
+         locked_at   = null,
+         locked_by   = null,
+         updated_at  = now(),
+         finished_at = now()
+   where status = 'running'
+     and locked_at < now() - p_stale_after
+     and attempts >= max_attempts;
+
+  return query
+  update public.ingestion_jobs j
+     set status     = 'running',
+         attempts   = j.attempts + 1,
+         locked_at  = now(),
+         locked_by  = p_worker,
+         updated_at = now()
+   where j.id = (
+     select c.id
+       from public.ingestion_jobs c
+      where (c.status = 'queued' and c.run_after <= now())
+         or (c.status = 'running' and c.locked_at < now() - p_stale_after
+             and c.attempts < c.max_attempts)
+      order by c.run_after
+      limit 1
+      for update skip locked
+   )
+  returning j.*;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Plans, quota refills and a usage ledger for request_lock.
+-- request_lock.tokens_remaining stays the live balance; usage_ledger records every
+-- change to it (analysis debits, refunds, refills) so users can see where tokens went.
+
+alter table public.request_lock
+  add column if not exists plan text not null default 'free'
+    check (plan in ('free', 'pro')),
+  add column if not exists tokens_refilled_at timestamptz not null default now();
+
+create table if not exists public.usage_ledger (
+  id             uuid primary key default gen_random_uuid(),
+  user_id        uuid not null references auth.users (id) on delete cascade,
+  -- negative = spent, positive = credited
+  delta          integer not null,
+  reason         text not null
+                 check (reason in ('grant', 'refill', 'analysis', 'refund')),
+  balance_after  integer not null,
+  job_url        text,
+  note           text,
+  created_at     timestamptz not null default now()
+);
+
+create index if not exists usage_ledger_user_created
+  on public.usage_ledger (user_id, created_at desc);
+
+alter table public.usage_ledger enable row level security;
+
+-- Entries are written with the user's own session, same as request_lock itself.
+drop policy if exists "Users can read their own usage" on public.usage_ledger;
+create policy "Users can read their own usage"
+  on public.usage_ledger for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can record their own usage" on public.usage_ledger;
+create policy "Users can record their own usage"
+  on public.usage_ledger for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Take the per-user request lock and spend a token in one statement, and record
+-- when the lock was taken so a lock left behind by a crashed request expires.
+
+alter table public.request_lock
+  add column if not exists locked_at timestamptz;
+
+-- Returns the new balance when the lock was taken, or no row when the user is out
+-- of tokens or another request holds a lock younger than p_stale_after_seconds.
+-- Locks with no locked_at predate this migration and count as stale.
+create or replace function public.acquire_request_lock(
+  p_user_id uuid,
+  p_stale_after_seconds integer default 300
+)
+returns table (tokens_remaining integer)
+language sql
+as $$
+  update public.request_lock r
+     set is_available     = false,
+         locked_at        = now(),
+         tokens_remaining = r.tokens_remaining - 1
+   where r.user_id = p_user_id
+     and r.tokens_remaining > 0
+     and (
+       r.is_available
+       or r.locked_at is null
+       or r.locked_at < now() - make_interval(secs => p_stale_after_seconds)
+     )
+  returning r.tokens_remaining;
+$$;
@@ -0,0 +1,27 @@
+-- Let one lock acquisition spend several tokens (batch analysis). The old
+-- two-argument signature is dropped so rpc calls don't hit an ambiguous overload.
+
+drop function if exists public.acquire_request_lock(uuid, integer);
+
+create or replace function public.acquire_request_lock(
+  p_user_id uuid,
+  p_stale_after_seconds integer default 300,
+  p_tokens integer default 1
+)
+returns table (tokens_remaining integer)
+language sql
+as $$
+  update public.request_lock r
+     set is_available     = false,
+         locked_at        = now(),
+         tokens_remaining = r.tokens_remaining - p_tokens
+   where r.user_id = p_user_id
+     and p_tokens > 0
+     and r.tokens_remaining >= p_tokens
+     and (
+       r.is_available
+       or r.locked_at is null
+       or r.locked_at < now() - make_interval(secs => p_stale_after_seconds)
+     )
+  returning r.tokens_remaining;
+$$;
@@ -0,0 +1,5 @@
+-- Stage events for the attempt currently running (see app/orchestrator/progress.ts),
+-- streamed to the browser by /api/ingestion-jobs/{id}/events.
+
+alter table public.ingestion_jobs
+  add column if not exists progress jsonb not null default '[]'::jsonb;
@@ -0,0 +1,54 @@
+-- Refunds and reopen counts as single statements instead of read-then-write from the
+-- app, and usage_ledger writes restricted to the server.
+
+-- 20261019140000_usage_ledger.sql let users insert their own ledger rows, so a client
+-- could credit itself; entries are written by the server (service role) only.
+drop policy if exists "Users can record their own usage" on public.usage_ledger;
+
+-- Credit one token back and record it in the ledger, in one statement. Returns the new
+-- balance, or no row if the user has no request_lock row.
+create or replace function public.refund_request_token(
+  p_user_id uuid,
+  p_job_url text default null,
+  p_note    text default null
+)
+returns table (tokens_remaining integer)
+language sql
+as $$
+  with refunded as (
+    update public.request_lock r
+       set tokens_remaining = r.tokens_remaining + 1
+     where r.user_id = p_user_id
+    returning r.user_id, r.tokens_remaining
+  ), entry as (
+    insert into public.usage_ledger (user_id, delta, reason, balance_after, job_url, note)
+    select user_id, 1, 'refund', tokens_remaining, p_job_url, p_note
+      from refunded
+  )
+  select tokens_remaining from refunded;
+$$;
+
+-- Takes any user's id, so only the service role may call it
+revoke execute on function public.refund_request_token(uuid, text, text) from public, anon, authenticated;
+grant execute on function public.refund_request_token(uuid, text, text) to service_role;
+
+-- Mark a closed job active again and count the reopen. Returns the new reopen_count,
+-- or no row if there's no closure to count: never closed, or already reopened since
+-- (a concurrent observation got there first). is_active can't tell, because the jobs
+-- upsert that precedes this has already set it.
+create or replace function public.reopen_job(p_job_id public.jobs.id%type)
+returns table (reopen_count integer)
+language sql
+as $$
+  update public.jobs j
+     set is_active    = true,
+         reopened_at  = now(),
+         reopen_count = coalesce(j.reopen_count, 0) + 1
+   where j.id = p_job_id
+     and j.closed_at is not null
+     and (j.reopened_at is null or j.reopened_at < j.closed_at)
+  returning j.reopen_count;
+$$;
+
+revoke execute on function public.reopen_job from public, anon, authenticated;
+grant execute on function public.reopen_job to service_role;
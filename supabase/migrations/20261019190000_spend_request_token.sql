@@ -0,0 +1,30 @@
+-- Spend one more token while a request already holds the lock, so a batch pays for
+-- each job as it starts instead of everything up front.
+
+-- Returns the new balance, or no row when the balance is empty or the user holds no
+-- lock (the spend belongs to a running request, never a fresh one).
+create or replace function public.spend_request_token(
+  p_user_id uuid,
+  p_job_url text default null
+)
+returns table (tokens_remaining integer)
+language sql
+as $$
+  with spent as (
+    update public.request_lock r
+       set tokens_remaining = r.tokens_remaining - 1
+     where r.user_id = p_user_id
+       and r.tokens_remaining > 0
+       and not r.is_available
+    returning r.user_id, r.tokens_remaining
+  ), entry as (
+    insert into public.usage_ledger (user_id, delta, reason, balance_after, job_url)
+    select user_id, -1, 'analysis', tokens_remaining, p_job_url
+      from spent
+  )
+  select tokens_remaining from spent;
+$$;
+
+-- Takes any user's id, so only the service role may call it
+revoke execute on function public.spend_request_token(uuid, text) from public, anon, authenticated;
+grant execute on function public.spend_request_token(uuid, text) to service_role;
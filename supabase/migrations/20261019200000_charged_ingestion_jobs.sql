@@ -0,0 +1,138 @@
+-- Queued analyses pay like inline ones: one token when the row is queued, given back
+-- if the row ends up dead. `charged` is cleared by the refund, so it happens once.
+
+alter table public.ingestion_jobs
+  add column if not exists charged boolean not null default false;
+
+-- Queue an analysis and spend the token for it in one transaction. If the same job is
+-- already queued or running for this user, that row is returned and nothing is spent.
+-- Returns no row when the balance is empty.
+create or replace function public.enqueue_charged_ingestion_job(
+  p_user_id uuid,
+  p_job_key text,
+  p_url     text
+)
+returns setof public.ingestion_jobs
+language plpgsql
+as $$
+declare
+  v_balance integer;
+begin
+  return query
+  select * from public.ingestion_jobs j
+   where j.user_id = p_user_id
+     and j.job_key = p_job_key
+     and j.status in ('queued', 'running');
+  if found then
+    return;
+  end if;
+
+  update public.request_lock r
+     set tokens_remaining = r.tokens_remaining - 1
+   where r.user_id = p_user_id
+     and r.tokens_remaining > 0
+  returning r.tokens_remaining into v_balance;
+  if not found then
+    return;
+  end if;
+
+  insert into public.usage_ledger (user_id, delta, reason, balance_after, job_url)
+  values (p_user_id, -1, 'analysis', v_balance, p_url);
+
+  return query
+  insert into public.ingestion_jobs (user_id, job_key, url, charged)
+  values (p_user_id, p_job_key, p_url, true)
+  returning *;
+exception
+  -- a concurrent enqueue of the same job won: the spend above is rolled back with
+  -- this block, so hand back that row instead
+  when unique_violation then
+    return query
+    select * from public.ingestion_jobs j
+     where j.user_id = p_user_id
+       and j.job_key = p_job_key
+       and j.status in ('queued', 'running');
+end;
+$$;
+
+-- Give back the token of a dead row, once. Returns the new balance, or no row if the
+-- row isn't dead, wasn't charged, or was refunded already.
+create or replace function public.refund_ingestion_job(p_job_id uuid)
+returns table (tokens_remaining integer)
+language sql
+as $$
+  with job as (
+    update public.ingestion_jobs j
+       set charged = false
+     where j.id = p_job_id
+       and j.status = 'dead'
+       and j.charged
+    returning j.user_id, j.url
+  ), refunded as (
+    update public.request_lock r
+       set tokens_remaining = r.tokens_remaining + 1
+      from job
+     where r.user_id = job.user_id
+    returning r.user_id, r.tokens_remaining, job.url
+  ), entry as (
+    insert into public.usage_ledger (user_id, delta, reason, balance_after, job_url, note)
+    select user_id, 1, 'refund', tokens_remaining, url, 'Queued analysis failed'
+      from refunded
+  )
+  select tokens_remaining from refunded;
+$$;
+
+-- Same as 20261019130000_ingestion_queue.sql, except that rows dead-lettered for a
+-- stuck worker are refunded too
+create or replace function public.claim_ingestion_job(
+  p_worker text,
+  p_stale_after interval default interval '10 minutes'
+)
+returns setof public.ingestion_jobs
+language plpgsql
+as $$
+declare
+  v_dead record;
+begin
+  for v_dead in
+    update public.ingestion_jobs
+       set status      = 'dead',
+           last_error  = coalesce(last_error, 'Worker stopped responding'),
+           locked_at   = null,
+           locked_by   = null,
+           updated_at  = now(),
+           finished_at = now()
+     where status = 'running'
+       and locked_at < now() - p_stale_after
+       and attempts >= max_attempts
+    returning id
+  loop
+    perform public.refund_ingestion_job(v_dead.id);
+  end loop;
+
+  return query
+  update public.ingestion_jobs j
+     set status     = 'running',
+         attempts   = j.attempts + 1,
+         locked_at  = now(),
+         locked_by  = p_worker,
+         updated_at = now()
+   where j.id = (
+     select c.id
+       from public.ingestion_jobs c
+      where (c.status = 'queued' and c.run_after <= now())
+         or (c.status = 'running' and c.locked_at < now() - p_stale_after
+             and c.attempts < c.max_attempts)
+      order by c.run_after
+      limit 1
+      for update skip locked
+   )
+  returning j.*;
+end;
+$$;
+
+-- Take any user's id or job, so only the service role may call them
+revoke execute on function public.enqueue_charged_ingestion_job(uuid, text, text) from public, anon, authenticated;
+grant execute on function public.enqueue_charged_ingestion_job(uuid, text, text) to service_role;
+revoke execute on function public.refund_ingestion_job(uuid) from public, anon, authenticated;
+grant execute on function public.refund_ingestion_job(uuid) to service_role;
@@ -0,0 +1,5 @@
+-- acquire_request_lock (20261019160000) takes any user's id and spends their tokens,
+-- so like the other token functions only the service role may call it.
+
+revoke execute on function public.acquire_request_lock(uuid, integer, integer) from public, anon, authenticated;
+grant execute on function public.acquire_request_lock(uuid, integer, integer) to service_role;
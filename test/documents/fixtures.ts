@@ -0,0 +1,41 @@
+// Uploaded-document fixtures for the PDF and DOCX extractors. How each file was made:
+//
+// - posting-standard-font.pdf, posting-embedded-font.pdf, encrypted.pdf, scanned.pdf:
+//   PDFKit 0.15 (Flate-compressed content streams; the embedded one is DejaVu Sans as a
+//   Type0 font with a ToUnicode map; scanned.pdf is a single PNG and no text)
+// - posting.docx: the `docx` 9 package (deflated entries, a header, a table)
+// - posting-stored.docx: posting.docx re-zipped with no compression (method 0)
+// - spreadsheet.docx, zip-bomb.docx: Python's zipfile, hand-built (no word/document.xml;
+//   a document.xml that inflates past the 20 MB entry limit)
+// - object-stream.pdf, truncated-stream.pdf, incremental-update.pdf: hand-built with
+//   zlib, for PDF 1.5 object streams, a content stream cut off mid-deflate, and an
+//   appended revision that replaces a page's content
+//
+// Specs also damage copies of these (truncate, overwrite bytes) for malformed input.
+
+import fs from "fs";
+import path from "path";
+
+// Relative to the repo root, like test/http/fixtures.ts
+export const DOCUMENT_FIXTURES_DIR = path.join(process.cwd(), "test", "documents", "fixtures");
+
+export function loadDocumentFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(DOCUMENT_FIXTURES_DIR, name));
+}
+
+/**
+ * Copies of `buf` with `count` bytes overwritten each, from a fixed seed so failures
+ * reproduce. The header is left alone so the damage lands in the body.
+ */
+export function corruptedCopies(buf: Buffer, copies: number, count = 8, keepHeader = 16): Buffer[] {
+  let seed = 20261019;
+  const next = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+
+  return Array.from({ length: copies }, () => {
+    const copy = Buffer.from(buf);
+    for (let i = 0; i < count; i++) {
+      copy[keepHeader + Math.floor(next() * (copy.length - keepHeader))] = Math.floor(next() * 256);
+    }
+    return copy;
+  });
+}
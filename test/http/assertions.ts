@@ -0,0 +1,39 @@
+import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";
+import type { FixtureExpectation } from "./fixtures";
+
+const JOB_FIELDS = ["ats_provider", "title", "company_name", "location", "requisition_id"] as const;
+
+/**
+ * Compare extracted features key by key. A null in the fixture means the feature
+ * must be absent, so a salary nobody stated can't sneak in.
+ */
+export function expectFeatures(actual: Record<string, unknown> | undefined, expected: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(expected)) {
+    expect({ [key]: actual?.[key] ?? null }).toEqual({ [key]: value });
+  }
+}
+
+/** Check an adapter's result against a fixture's `expect`. */
+export function expectJobToMatch(job: AdapterJob | null, expected: FixtureExpectation): void {
+  if (expected.job === null) {
+    expect(job).toBeNull();
+    return;
+  }
+  expect(job).not.toBeNull();
+
+  const fields: Record<string, unknown> = {};
+  for (const key of JOB_FIELDS) {
+    if (expected[key] !== undefined) fields[key] = expected[key];
+  }
+  expect(job).toMatchObject(fields);
+  if (expected.features) expectFeatures(job?.features, expected.features);
+}
+
+/** Await an adapter call and check it against a fixture's `expect`, a reported 404/410 included. */
+export async function expectFetchToMatch(fetching: Promise<AdapterJob | null>, expected: FixtureExpectation): Promise<void> {
+  if (expected.gone) {
+    await expect(fetching).rejects.toMatchObject({ name: "JobNotFoundError", status: expected.gone });
+    return;
+  }
+  expectJobToMatch(await fetching, expected);
+}
@@ -0,0 +1,87 @@
+// HTTP fixtures for adapter tests: every request a scrape made (robots.txt, the page,
+// ATS API calls, redirect hops) and what came back, plus what the adapters should
+// extract from it. Specs replay them through a local server (replayServer.ts), so
+// parsing regressions show up without touching the network.
+//
+// `npm run fixtures:record` captures new ones from live sites. Fixtures marked
+// "hand-built" were written by hand in the shape of real pages, not captured.
+
+import fs from "fs";
+import path from "path";
+
+// Relative to the repo root: jest and the npm scripts both run from there
+export const FIXTURES_DIR = path.join(process.cwd(), "test", "http", "fixtures");
+
+// Only headers the fetch layer looks at are kept; cookies and tracking headers aren't
+export const KEPT_HEADERS = ["content-type", "location", "etag", "last-modified", "retry-after", "cache-control"];
+
+export type RecordedExchange = {
+  url: string;
+  method?: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+export type FixtureTarget =
+  | { kind: "greenhouse"; tenant: string; jobId: string }
+  | { kind: "web"; url: string };
+
+/** Subset of the AdapterJob the fixture should produce; checked with toMatchObject. */
+export type FixtureExpectation = {
+  /** Adapter should give up (outage, unreadable payload) */
+  job?: null;
+  /** Adapter should report the posting gone (JobNotFoundError) with this HTTP status */
+  gone?: number;
+  ats_provider?: string;
+  title?: string;
+  company_name?: string;
+  location?: string;
+  requisition_id?: string | null;
+  features?: Record<string, unknown>;
+  /** extractWebFeaturesFromJsonLd over the page's JSON-LD blocks */
+  jsonld_features?: Record<string, unknown>;
+  /** scrapeJobFromUrl should throw an AnalysisError with this code */
+  error?: string;
+};
+
+export type HttpFixture = {
+  name: string;
+  description: string;
+  origin: "recorded" | "hand-built";
+  recorded_at?: string;
+  target: FixtureTarget;
+  exchanges: RecordedExchange[];
+  expect: FixtureExpectation;
+};
+
+export function loadFixtures(filter?: (f: HttpFixture) => boolean): HttpFixture[] {
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), "utf8")) as HttpFixture)
+    .filter(f => !filter || filter(f));
+}
+
+export function saveFixture(fixture: HttpFixture): string {
+  const file = path.join(FIXTURES_DIR, `${fixture.name}.json`);
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+  return file;
+}
+
+/** URL the spec (and the recorder) starts from. */
+export function targetUrl(target: FixtureTarget): string {
+  return target.kind === "web"
+    ? target.url
+    : `https://boards.greenhouse.io/${target.tenant}/jobs/${target.jobId}`;
+}
+
+export function keptHeaders(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = headers.get(name);
+    if (value != null) out[name] = value;
+  }
+  return out;
+}
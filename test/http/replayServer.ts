@@ -0,0 +1,73 @@
+// Serves recorded exchanges from a local HTTP server and points the app's fetches at
+// it. Outbound requests keep their real URLs as far as the fetch layer is concerned
+// (robots, the SSRF guard and the host scheduler all see boards-api.greenhouse.io),
+// and only the socket goes to 127.0.0.1. DNS answers with a public address so the
+// guard's lookup doesn't need the network.
+
+import http from "http";
+import type { AddressInfo } from "net";
+import dns from "dns/promises";
+import type { HttpFixture, RecordedExchange } from "./fixtures";
+
+const REPLAY_ADDRESS = "93.184.216.34";
+const ORIGINAL_URL_HEADER = "x-replay-url";
+
+export type ReplayServer = {
+  /** Make these fixtures' exchanges answerable (later ones win on the same URL) */
+  load(fixtures: HttpFixture[]): void;
+  /** URLs requested that no fixture had (robots.txt misses are normal: they 404) */
+  misses: string[];
+  close(): Promise<void>;
+};
+
+const keyOf = (method: string, url: string) => `${method.toUpperCase()} ${url}`;
+
+/** Start the server and route fetch + DNS through it until close(). */
+export async function startReplayServer(): Promise<ReplayServer> {
+  const exchanges = new Map<string, RecordedExchange>();
+  const misses: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const original = String(req.headers[ORIGINAL_URL_HEADER] ?? "");
+    const exchange = exchanges.get(keyOf(req.method ?? "GET", original));
+    if (!exchange) {
+      misses.push(original);
+      res.writeHead(404, { "content-type": "text/plain" });
+      res.end("no fixture for this URL");
+      return;
+    }
+    res.writeHead(exchange.status, exchange.headers);
+    res.end([204, 304].includes(exchange.status) ? undefined : exchange.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const realFetch = globalThis.fetch;
+  const fetchSpy = jest.spyOn(globalThis, "fetch").mockImplementation((input, init) => {
+    const original = new URL(input instanceof Request ? input.url : String(input));
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    headers.set(ORIGINAL_URL_HEADER, original.toString());
+    // The guard's dispatcher would re-check 127.0.0.1 and refuse it; the replay socket skips it
+    const rest: RequestInit & { dispatcher?: unknown } = { ...init, headers };
+    delete rest.dispatcher;
+    return realFetch(`http://127.0.0.1:${port}${original.pathname}${original.search}`, rest);
+  });
+  const dnsSpy = jest
+    .spyOn(dns, "lookup")
+    .mockImplementation((async () => [{ address: REPLAY_ADDRESS, family: 4 }]) as unknown as typeof dns.lookup);
+
+  return {
+    load(fixtures) {
+      for (const f of fixtures) {
+        for (const x of f.exchanges) exchanges.set(keyOf(x.method ?? "GET", x.url), x);
+      }
+    },
+    misses,
+    async close() {
+      fetchSpy.mockRestore();
+      dnsSpy.mockRestore();
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -4,8 +4,6 @@ import {
   updatePassword,
   updateName,
   getUser,
-  request_lock_and_tokens,
-  release_request_lock,
 } from "./action";
 
 
@@ -35,6 +33,7 @@ const mockAuth = {
 const mockSupabase = {
   auth: mockAuth,
   from: jest.fn(() => mockFrom),
+  rpc: jest.fn(),
   storage: {
     from: jest.fn(() => ({
       upload: jest.fn().mockResolvedValue({ error: null }),
@@ -47,6 +46,11 @@ jest.mock("./client", () => ({
   createClient: jest.fn(() => mockSupabase),
 }));
 
+// action.ts uses the cookie-based server client
+jest.mock("./server", () => ({
+  createClient: jest.fn(async () => mockSupabase),
+}));
+
 describe("actions", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -81,6 +85,10 @@ describe("actions", () => {
 
   // ✅ updateName
   test("updateName success", async () => {
+    mockAuth.getUser.mockResolvedValueOnce({
+      data: { user: { id: "123" } },
+      error: null,
+    });
     mockFrom.update.mockReturnThis();
     mockFrom.eq.mockResolvedValueOnce({ error: null });
     const res = await updateName("John", "Doe");
@@ -96,26 +104,4 @@ describe("actions", () => {
     const res = await getUser();
     expect(res).toEqual({ id: "123" });
   });
-
-  // ✅ request_lock_and_tokens (new row created)
-  test("request_lock_and_tokens new row", async () => {
-    // return an object (not undefined) from maybeSingle
-    mockFrom.maybeSingle.mockResolvedValueOnce({ data: null, error: null });
-    mockFrom.insert.mockReturnThis();
-    mockFrom.select.mockReturnThis();
-    mockFrom.single.mockResolvedValueOnce({
-      data: { is_available: true, tokens_remaining: 3 },
-      error: null,
-    });
-
-    const res = await request_lock_and_tokens("u1");
-    expect(res).toEqual({ is_available: true, tokens: 3 });
-  });
-
-  // ✅ release_request_lock
-  test("release_request_lock success", async () => {
-    mockFrom.update.mockReturnThis();
-    mockFrom.eq.mockResolvedValueOnce({ error: null });
-    await expect(release_request_lock("u1")).resolves.toBeUndefined();
-  });
-});
\ No newline at end of file
+});
@@ -4,6 +4,15 @@ import { redirect } from "next/navigation";
 import type { AdapterJob } from "@/app/api/data-ingestion/adapters/types";   
 import type { dbJobFeatures } from "@/app/db/jobFeatures";   
 import type { dbJobSnapshot } from "@/app/db/jobSnapshots";
+import type { dbJobLifecycle } from "@/app/db/jobLifecycle";
+import {
+  getPlanPolicy,
+  nextRefillAt,
+  type PlanTier,
+  type UsageSummary,
+  type dbUsageLedgerEntry,
+} from "@/app/db/usage";
+import { request_lock_and_tokens } from "@/app/db/requestLock";
 import {analyzeAdapterJob} from "@/app/api/data-ingestion/nlp/client";
 import type { SupabaseClient } from '@supabase/supabase-js';
 
@@ -214,80 +223,68 @@ export async function getMyProfileSettings(): Promise<
 }
 
 
-export async function request_lock_and_tokens(userId: string) {
+// Remaining quota, refill schedule and recent ledger entries for the current user
+export async function getUsageForCurrentUser(
+  limit: number = 50
+): Promise<{ success: true; usage: UsageSummary } | { success: false; error: string }> {
   const supabase = await createClient();
 
-  const { data: row, error } = await supabase
-    .from("request_lock")
-    .select("is_available, tokens_remaining")
-    .eq("user_id", userId)
-    .maybeSingle();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
 
-  if (error) {
-    console.error("[request_lock_and_tokens] select error:", error);
-    throw error;
+  if (userError || !user) {
+    return { success: false, error: "Not authenticated" };
   }
 
-  if (!row) {
-    const { data: created, error: insertErr } = await supabase
-      .from("request_lock")
-      .insert({ user_id: userId, is_available: true, tokens_remaining: 3 })
-      .select("is_available, tokens_remaining")
-      .single();
-
-    if (insertErr) throw insertErr;
-    return {
-      is_available: created!.is_available,
-      tokens: created.tokens_remaining,
-    };
+  // creates the row / applies a due refill so the numbers shown are current
+  try {
+    await request_lock_and_tokens(user.id);
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : "Failed to load usage" };
   }
 
-  return { is_available: row.is_available, tokens: row.tokens_remaining };
-}
-
-export async function set_request_lock(userId: string) {
-  const supabase = await createClient();
-  // set the lock
-  const { data, error } = await supabase
+  const { data: row, error } = await supabase
     .from("request_lock")
-    .update({ is_available: false })
-    .eq("user_id", userId)
-    .eq("is_available", true)
-    .select("tokens_remaining")
-    .maybeSingle();
+    .select("tokens_remaining, plan, tokens_refilled_at")
+    .eq("user_id", user.id)
+    .single();
 
-  if (error) throw error;
-  if (!data) return false;
+  if (error) {
+    console.error("[getUsageForCurrentUser] select error:", error);
+    return { success: false, error: error.message };
+  }
 
-  // decrement token
-  const { error: decErr } = await supabase
-    .from("request_lock")
-    .update({ tokens_remaining: data.tokens_remaining - 1 })
-    .eq("user_id", userId);
+  const { data: history, error: historyErr } = await supabase
+    .from("usage_ledger")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(limit);
 
-  if (decErr) {
-    // prevent a stuck lock if decrement fails
-    await supabase
-      .from("request_lock")
-      .update({ is_available: true })
-      .eq("user_id", userId);
-    throw decErr;
+  if (historyErr) {
+    console.error("[getUsageForCurrentUser] ledger error:", historyErr);
+    return { success: false, error: historyErr.message };
   }
-  return true;
-}
 
-export async function release_request_lock(userId: string): Promise<void> {
-  const supabase = await createClient();
-  const { error } = await supabase
-    .from("request_lock")
-    .update({ is_available: true })
-    .eq("user_id", userId);
-  if (error) console.error("[release_request_lock] release error:", error);
+  const policy = getPlanPolicy(row.plan);
+  return {
+    success: true,
+    usage: {
+      plan: (row.plan ?? "free") as PlanTier,
+      tokens_remaining: row.tokens_remaining,
+      quota: policy.quota,
+      period: policy.period,
+      next_refill_at: nextRefillAt(policy, new Date(row.tokens_refilled_at ?? Date.now())).toISOString(),
+      history: (history ?? []) as dbUsageLedgerEntry[],
+    },
+  };
 }
 
 
 
-export async function insertIntoJobTable(supabase: SupabaseClient, jobDetails: AdapterJob) {
+export async function insertIntoJobTable(supabase: SupabaseClient, jobDetails: AdapterJob, isActive: boolean = true) {
 
   const {
   ats_provider,
@@ -317,7 +314,7 @@ const jobInsert = {
   requisition_id,
   content,
   raw_json,
-  is_active: true,
+  is_active: isActive,
 }
 
   const { data: jobId, error } = await supabase
@@ -340,6 +337,25 @@ const jobInsert = {
 }
 
 
+/**
+ * Lifecycle columns for one job (open/closed/reopened history).
+ * returns: lifecycle row or null if not found / on error
+ */
+export async function getJobLifecycle(supabase: SupabaseClient, job_Id: string): Promise<dbJobLifecycle | null> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("is_active, first_published, closed_at, closed_reason, reopened_at, reopen_count")
+    .eq("id", job_Id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[getJobLifecycle] Failed to fetch lifecycle:", error);
+    return null;
+  }
+  return data;
+}
+
+
 export async function InsertToJobUpdatesTable(supabase: SupabaseClient, job_Id: string, jobDetails: AdapterJob) {
     const { updated_at: incomingAtsUpdatedAt } = jobDetails;
 
@@ -630,6 +646,12 @@ export async function getSavedJobsForCurrentUser() {
         absolute_url,
         updated_at,
         ats,
+        first_published,
+        is_active,
+        closed_at,
+        closed_reason,
+        reopened_at,
+        reopen_count,
         job_features (
           salary_min,
           salary_max,
@@ -0,0 +1,12 @@
+// utils/supabase/admin.ts
+
+import { createClient } from '@supabase/supabase-js'
+
+// Service-role client for server-side work that isn't tied to a user session
+// (orchestrator writes, background crawlers). Never import this into client code.
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}